@@ -1,8 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Dashboard } from './components/Dashboard';
 import { TaskRunner } from './components/TaskRunner';
-import { Task, TaskStatus, RequirementType } from './types';
-import { evaluateTaskState } from './services/taskEngine';
+import { TaskEditor } from './components/TaskEditor';
+import { Task, TaskStatus, RequirementType, Achievement } from './types';
+import { TaskManager } from './services/taskManager';
+import { TaskStore } from './services/taskStore';
+import { RemoteTaskManager } from './services/remoteTaskManager';
+import { SharedTaskManager } from './services/sharedTaskManager';
+import { LocalStorageTaskRepository } from './services/storage/localStorageRepository';
+import { useTasks } from './hooks/useTaskManager';
+import { TemplateLibrary } from './services/templateLibrary';
+import { LocalStorageTemplateRepository } from './services/storage/localStorageTemplateRepository';
+import { useTemplates } from './hooks/useTemplateLibrary';
+import { hasBundleFragment } from './services/taskBundle';
+import { RewardLedger } from './services/rewardLedger';
+import { LocalStorageRewardRepository } from './services/storage/localStorageRewardRepository';
+import { useRewardLedger } from './hooks/useRewardLedger';
+import { GeneratorProvider, createTaskGenerator, generatorConfigFromEnv } from './services/generators/generatorConfig';
+import { OfflineTaskGenerator } from './services/generators/offlineGenerator';
 
 const MOCK_TASKS: Task[] = [
   {
@@ -13,6 +28,13 @@ const MOCK_TASKS: Task[] = [
     elapsedTime: 0,
     createdAt: Date.now(),
     updatedAt: Date.now(),
+    recurrence: { rule: { type: 'DAILY', at: '06:00' }, mode: 'RESET' },
+    rewards: [
+      { id: 'base', xp: 100 },
+      { id: 'cooldown', label: 'Cool down bonus', xp: 25, when: 'req_4' },
+      { id: 'fast', label: 'Under 30 minutes', currency: { gold: 50 }, when: '$elapsed < 1800' },
+      { id: 'swimmer', label: 'Swimmer', items: ['swim-goggles'], when: 'req_3b' }
+    ],
     requirements: [
       {
         id: 'req_1',
@@ -29,7 +51,7 @@ const MOCK_TASKS: Task[] = [
         isFulfilled: false,
         children: [
             { id: 'c1', title: 'Pushups', type: RequirementType.NUMERIC, targetValue: 20, currentValue: 0, isFulfilled: false },
-            { id: 'c2', title: 'Situps', type: RequirementType.NUMERIC, targetValue: 30, currentValue: 0, isFulfilled: false },
+            { id: 'c2', title: 'Situps', type: RequirementType.NUMERIC, targetValue: 30, currentValue: 0, isFulfilled: false, input: { step: 5, max: 50 } },
         ]
       },
       {
@@ -56,48 +78,181 @@ const MOCK_TASKS: Task[] = [
         isOptional: true
       }
     ]
+  },
+  {
+    id: '2',
+    title: 'Recovery Day',
+    description: 'Unlocks once the training is done. Rest and refuel.',
+    status: TaskStatus.IDLE,
+    elapsedTime: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    prerequisites: [{ type: 'TASK_STATUS', taskId: '1', status: TaskStatus.COMPLETED }],
+    requirements: [
+      { id: 'req_r1', title: 'Sleep 8 hours', type: RequirementType.BOOLEAN, isFulfilled: false },
+      { id: 'req_r2', title: 'Drink water (glasses)', type: RequirementType.NUMERIC, targetValue: 8, currentValue: 0, isFulfilled: false }
+    ],
+    rewards: [{ id: 'base', xp: 50 }]
+  },
+  {
+    id: '3',
+    title: 'Guild Expedition',
+    description: 'A group quest. Herbs count for the whole party, pushups for everyone, and each member picks their own route.',
+    status: TaskStatus.IDLE,
+    elapsedTime: 0,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    participants: [
+      { id: 'ash', name: 'Ash' },
+      { id: 'rowan', name: 'Rowan' },
+      { id: 'sky', name: 'Sky' }
+    ],
+    requirements: [
+      { id: 'req_g1', title: 'Collect herbs', type: RequirementType.NUMERIC, targetValue: 100, currentValue: 0, isFulfilled: false, aggregation: 'SUM' },
+      { id: 'req_g2', title: 'Pushups', type: RequirementType.NUMERIC, targetValue: 20, currentValue: 0, isFulfilled: false, aggregation: 'ALL' },
+      { id: 'req_g3a', title: 'Take the mountain pass', type: RequirementType.BOOLEAN, isFulfilled: false, xorGroup: 'route', xorScope: 'PARTICIPANT' },
+      { id: 'req_g3b', title: 'Take the river path', type: RequirementType.BOOLEAN, isFulfilled: false, xorGroup: 'route', xorScope: 'PARTICIPANT' },
+      { id: 'req_g4', title: 'Light the signal fire', type: RequirementType.BOOLEAN, isFulfilled: false }
+    ],
+    rewards: [{ id: 'base', xp: 150 }]
   }
 ];
 
+const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-quest', title: 'First Steps', description: 'Complete a quest', when: '$completed >= 1' },
+  { id: 'week-streak', title: 'Creature of Habit', description: 'Complete a daily quest 7 days in a row', when: '$bestStreak >= 7', rewards: [{ id: 'badge', items: ['habit-badge'] }] },
+  { id: 'veteran', title: 'Veteran', description: 'Earn 1,000 XP', when: '$xp >= 1000' }
+];
+
 export default function App() {
   // Simple state-based routing
-  const [currentView, setCurrentView] = useState<'dashboard' | 'runner'>('dashboard');
-  const [tasks, setTasks] = useState<Task[]>(MOCK_TASKS);
+  const [currentView, setCurrentView] = useState<'dashboard' | 'runner' | 'editor'>('dashboard');
+  // "?server=http://localhost:8787" runs the app as a client of a task server (see server/taskServer.ts)
+  const [serverUrl] = useState(() => new URLSearchParams(window.location.search).get('server') ?? undefined);
+  // The manager evaluates every task on insert and autosaves every transition.
+  // Tabs of the same app share their tasks, with one of them running the clock and saving.
+  const [manager] = useState<TaskStore>(() => {
+    if (serverUrl) return new RemoteTaskManager({ baseUrl: serverUrl });
+    const repository = new LocalStorageTaskRepository();
+    return typeof BroadcastChannel === 'undefined' ? new TaskManager({ repository }) : new SharedTaskManager({ repository });
+  });
+  const tasks = useTasks(manager);
+  const [library] = useState(() => new TemplateLibrary({ repository: new LocalStorageTemplateRepository() }));
+  const templates = useTemplates(library);
+  const [rewardRepository] = useState(() => new LocalStorageRewardRepository());
+  const [ledger] = useState(() => new RewardLedger({ achievements: ACHIEVEMENTS, repository: rewardRepository }));
+  const rewardState = useRewardLedger(ledger);
+  // The AI Quest Generator's backend comes from the environment; "?generator=offline" picks one for this visit
+  const [generator] = useState(() => {
+    const provider = new URLSearchParams(window.location.search).get('generator') ?? undefined;
+    try {
+      return createTaskGenerator(generatorConfigFromEnv(provider as GeneratorProvider | undefined));
+    } catch (error) {
+      console.error("Falling back to the offline generator:", error);
+      return new OfflineTaskGenerator();
+    }
+  });
   const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Share links carry a bundle in the URL fragment; it is read once and then removed from the address bar
+  const [importLink] = useState(() => hasBundleFragment(window.location.hash) ? window.location.href : undefined);
 
-  // Initialize all tasks with the engine to ensure valid initial state
   useEffect(() => {
-    setTasks(prev => prev.map(t => evaluateTaskState(t)));
-  }, []);
+    if (importLink) window.history.replaceState(null, '', window.location.href.split('#')[0]);
+  }, [importLink]);
+
+  // Of the tabs sharing their tasks, only the leading one grants rewards and seeds the demo tasks.
+  // The others see every outcome too, and pick up the ledger whenever the leading tab saves it.
+  const isLeading = useCallback(() => !(manager instanceof SharedTaskManager) || manager.isLeader(), [manager]);
 
-  const handleTaskUpdate = (updatedTask: Task) => {
-    setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
-  };
+  // Rewards follow task outcomes for as long as the app runs
+  useEffect(() => ledger.attach(manager, isLeading), [ledger, manager, isLeading]);
+
+  useEffect(() => rewardRepository.subscribe(() => {
+    ledger.load().catch(error => console.error("Failed to load rewards:", error));
+  }), [rewardRepository, ledger]);
+
+  // Restore the reward ledger first, so outcomes replayed while loading tasks are not granted twice.
+  // Then restore saved tasks (or connect to the server); seed the demo tasks on first local launch
+  useEffect(() => {
+    ledger.load()
+      .catch(error => console.error("Failed to load rewards:", error))
+      .then(() => manager.load())
+      .then(() => {
+        if (!serverUrl && isLeading() && manager.getTasks().length === 0) MOCK_TASKS.forEach(t => manager.addTask(t));
+      })
+      .catch(error => console.error("Failed to load tasks:", error))
+      .finally(() => setIsLoading(false));
+  }, [ledger, manager, serverUrl, isLeading]);
+
+  useEffect(() => {
+    library.load().catch(error => console.error("Failed to load templates:", error));
+  }, [library]);
+
+  // The engine owns time, so running tasks keep ticking regardless of the current view
+  useEffect(() => {
+    manager.startClock();
+    return () => manager.stopClock();
+  }, [manager]);
+
+  // A closing tab hands the clock over to another one right away
+  useEffect(() => {
+    if (!(manager instanceof SharedTaskManager)) return;
+    const leave = (event: PageTransitionEvent) => {
+      if (!event.persisted) manager.dispose();
+    };
+    window.addEventListener('pagehide', leave);
+    return () => window.removeEventListener('pagehide', leave);
+  }, [manager]);
 
   const activeTask = tasks.find(t => t.id === activeTaskId);
 
   return (
     <div className="min-h-screen font-sans bg-slate-900 text-slate-200 selection:bg-blue-500/30">
-      {currentView === 'dashboard' && (
+      {isLoading && (
+        <div className="py-24 text-center text-slate-500">Loading quests...</div>
+      )}
+
+      {!isLoading && currentView === 'dashboard' && (
         <Dashboard 
           tasks={tasks}
           onSelect={(task) => {
             setActiveTaskId(task.id);
             setCurrentView('runner');
           }}
-          onDelete={(id) => setTasks(prev => prev.filter(t => t.id !== id))}
-          onAdd={(task) => setTasks(prev => [...prev, evaluateTaskState(task)])}
+          onDelete={(id) => manager.removeTask(id)}
+          onAdd={(task) => manager.addTask(task)}
+          generator={generator}
+          templates={templates}
+          onSaveTemplate={(task) => library.saveTask(task)}
+          onInstantiate={(template, values) => manager.addTask(library.instantiate(template.id!, values, template.version))}
+          onRemoveTemplate={(id) => library.remove(id)}
+          onImport={(tasks, resolution) => manager.importTasks(tasks, resolution)}
+          importLink={importLink}
+          rewardState={rewardState}
+          rewardTotals={ledger.getTotals()}
+          achievements={ledger.getAchievements()}
         />
       )}
 
-      {currentView === 'runner' && activeTask && (
+      {!isLoading && currentView === 'runner' && activeTask && (
         <TaskRunner 
-          initialTask={activeTask}
-          onUpdate={handleTaskUpdate}
+          task={activeTask}
+          manager={manager}
           onBack={() => {
              setActiveTaskId(null);
              setCurrentView('dashboard');
           }}
+          onEdit={() => setCurrentView('editor')}
+        />
+      )}
+
+      {!isLoading && currentView === 'editor' && activeTask && (
+        <TaskEditor
+          task={activeTask}
+          manager={manager}
+          generator={generator}
+          onClose={() => setCurrentView('runner')}
         />
       )}
     </div>
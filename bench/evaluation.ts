@@ -0,0 +1,74 @@
+import { performance } from 'node:perf_hooks';
+import { Requirement, RequirementType, Task } from '../types';
+import { createTaskFromTemplate } from '../services/taskValidation';
+import { evaluateTaskState, startTask, updateRequirementValue } from '../services/taskEngine';
+
+/**
+ * Measures what a tick and a counter update cost on a large requirement tree, evaluated incrementally against
+ * the full evaluation of a copy every state change used to take.
+ *
+ *   npm run bench -- [leaves per group, default 100]
+ */
+
+const LEAVES = Number(process.argv[2] ?? 100);
+const SECTIONS = 10;
+const GROUPS = 10;
+
+// SECTIONS x GROUPS groups of LEAVES counters and checkboxes, with some XOR choices, conditions and time limits
+const buildTree = (): Requirement[] => Array.from({ length: SECTIONS }, (_, s) => ({
+  id: `s${s}`, title: `Section ${s}`, type: RequirementType.GROUP, isFulfilled: false,
+  children: Array.from({ length: GROUPS }, (_, g) => ({
+    id: `s${s}g${g}`, title: `Group ${s}.${g}`, type: RequirementType.GROUP, isFulfilled: false,
+    children: Array.from({ length: LEAVES }, (_, l): Requirement => {
+      const id = `s${s}g${g}l${l}`;
+      if (l % 2 === 0) return { id, title: id, type: RequirementType.NUMERIC, isFulfilled: false, currentValue: 0, targetValue: 1000 };
+      return {
+        id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false,
+        ...(l === 1 || l === 3 ? { xorGroup: `x${s}.${g}` } : {}),
+        ...(l === 5 ? { fulfillWhen: `s${s}g${g}l0.value >= 10` } : {}),
+        ...(l === 7 && g === 0 ? { timeLimit: 86400 } : {})
+      };
+    })
+  }))
+}));
+
+const countNodes = (reqs: Requirement[]): number => reqs.reduce((sum, req) => sum + 1 + countNodes(req.children ?? []), 0);
+
+// How many requirements of `after` are the same objects as in `before`
+const countShared = (before: Requirement[], after: Requirement[]): number => {
+  const previous = new Set<Requirement>();
+  const collect = (reqs: Requirement[]) => reqs.forEach(req => { previous.add(req); collect(req.children ?? []); });
+  collect(before);
+  let shared = 0;
+  const visit = (reqs: Requirement[]) => reqs.forEach(req => { if (previous.has(req)) shared++; visit(req.children ?? []); });
+  visit(after);
+  return shared;
+};
+
+const measure = (runs: number, run: (i: number) => void): number => {
+  run(0); // Warm up
+  const start = performance.now();
+  for (let i = 1; i <= runs; i++) run(i);
+  return (performance.now() - start) / runs;
+};
+
+const now = Date.now();
+const task: Task = startTask(createTaskFromTemplate({ title: 'Benchmark', description: '', requirements: buildTree() }, now), now);
+const nodes = countNodes(task.requirements);
+const leaf = `s0g0l0`;
+
+// A copy has no settled graph, so it is evaluated in full, as every update was before
+const fullTick = measure(20, i => evaluateTaskState(structuredClone(task), now + i));
+const incrementalTick = measure(200, i => evaluateTaskState(task, now + i));
+const fullUpdate = measure(20, i => updateRequirementValue(structuredClone(task), leaf, { currentValue: i }, now + i));
+const incrementalUpdate = measure(200, i => updateRequirementValue(task, leaf, { currentValue: i }, now + i));
+
+const updated = updateRequirementValue(task, leaf, { currentValue: 1 }, now + 1);
+const row = (label: string, full: number, incremental: number) =>
+  console.log(`${label.padEnd(8)} ${full.toFixed(3).padStart(10)} ms ${incremental.toFixed(3).padStart(10)} ms ${(full / incremental).toFixed(1).padStart(8)}x`);
+
+console.log(`${nodes} requirements\n`);
+console.log(`${''.padEnd(8)} ${'full'.padStart(13)} ${'incremental'.padStart(13)} ${'speedup'.padStart(9)}`);
+row('tick', fullTick, incrementalTick);
+row('update', fullUpdate, incrementalUpdate);
+console.log(`\nAfter an update, ${countShared(task.requirements, updated.requirements)} of ${nodes} requirements are the same objects as before.`);
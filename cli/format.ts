@@ -0,0 +1,117 @@
+import { Task, Requirement, RequirementType, TaskRefinement } from '../types';
+import { getTaskProgress } from '../services/progress';
+import { formatDuration } from '../components/ProgressRing';
+import { describeReward } from '../services/rewards';
+import { getAggregation, getContribution, isFulfilledBy, isParticipantRequirement, isPerParticipantXor } from '../services/participants';
+
+/**
+ * Plain-text rendering for the CLI. Markers in the tree view:
+ *
+ *   [x] fulfilled   [ ] open   [-] disabled   [!] failed   [~] hidden
+ *
+ * On group quests every participant requirement is followed by one line per participant.
+ * Refinements are listed as + added, - removed and ~ changed.
+ */
+
+const percent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+const formatTime = (task: Task): string => {
+  const elapsed = formatDuration(task.elapsedTime);
+  return task.timeLimit ? `${elapsed} / ${formatDuration(task.timeLimit)}` : elapsed;
+};
+
+const marker = (req: Requirement): string => {
+  if (req.isFailed) return '[!]';
+  if (req.isHidden) return '[~]';
+  if (req.isDisabled) return '[-]';
+  return req.isFulfilled ? '[x]' : '[ ]';
+};
+
+const describeRequirement = (req: Requirement, task: Task, progress: number): string => {
+  const parts = [req.title];
+  if (req.type === RequirementType.NUMERIC) {
+    parts.push(`${req.currentValue ?? 0}/${req.targetValue ?? 0}${req.valueLimit !== undefined ? ` (limit ${req.valueLimit})` : ''}`);
+  } else if (req.type === RequirementType.GROUP) {
+    parts.push(req.minFulfilled !== undefined ? `${req.minFulfilled} of ${req.children?.length ?? 0}` : percent(progress));
+  } else if (req.type !== RequirementType.BOOLEAN) {
+    parts.push(`<${req.type}>`);
+  }
+
+  const tags = [
+    req.isOptional ? 'optional' : '',
+    req.isFailCondition ? 'fail condition' : '',
+    req.xorGroup ? `xor:${req.xorGroup}${isPerParticipantXor(req, task) ? ' each' : ''}` : '',
+    isParticipantRequirement(req, task) && !isPerParticipantXor(req, task) ? getAggregation(req).toLowerCase() : '',
+    req.failureReason ? `failed:${req.failureReason}` : '',
+    req.attempts && req.attempts > 1 ? `attempt ${req.attempts}` : ''
+  ].filter(Boolean);
+  if (tags.length > 0) parts.push(`{${tags.join(', ')}}`);
+
+  parts.push(`(${req.id})`);
+  return parts.join('  ');
+};
+
+const formatContributions = (req: Requirement, task: Task, indent: string, lines: string[]): void => {
+  (task.participants ?? []).forEach(p => {
+    const value = req.type === RequirementType.NUMERIC ? `  ${getContribution(req, p.id).value ?? 0}/${req.targetValue ?? 0}` : '';
+    lines.push(`${indent}    ${isFulfilledBy(req, p.id) ? '[x]' : '[ ]'} ${p.name}${value}`);
+  });
+};
+
+const formatRequirements = (reqs: Requirement[], task: Task, progress: Record<string, number>, depth: number, lines: string[]): void => {
+  reqs.forEach(req => {
+    const indent = '  '.repeat(depth + 1);
+    lines.push(`${indent}${marker(req)} ${describeRequirement(req, task, progress[req.id] ?? 0)}`);
+    if (isParticipantRequirement(req, task)) formatContributions(req, task, indent, lines);
+    if (req.children) formatRequirements(req.children, task, progress, depth + 1, lines);
+  });
+};
+
+export const formatTaskList = (tasks: Task[]): string => {
+  if (tasks.length === 0) return 'No tasks.';
+  const idWidth = Math.max(...tasks.map(t => t.id.length));
+  return tasks
+    .map(task => `${task.id.padEnd(idWidth)}  ${task.status.padEnd(9)}  ${percent(getTaskProgress(task).progress).padStart(4)}  ${task.title}`)
+    .join('\n');
+};
+
+export const formatTaskTree = (task: Task): string => {
+  const { progress, requirements, estimatedTimeLeft } = getTaskProgress(task);
+  const lines = [
+    `${task.title}  [${task.status}]  ${percent(progress)}  ${formatTime(task)}`,
+    `  id: ${task.id}`
+  ];
+  if (task.description) lines.push(`  ${task.description}`);
+  if (estimatedTimeLeft !== undefined && estimatedTimeLeft > 0) lines.push(`  about ${formatDuration(estimatedTimeLeft)} left`);
+  if (task.failure) {
+    lines.push(`  failed: ${task.failure.reason}${task.failure.requirementId ? ` (${task.failure.requirementId})` : ''}`);
+  }
+  (task.rewards ?? []).forEach(reward => {
+    lines.push(`  reward: ${describeReward(reward)}${reward.when ? ` when ${reward.when}` : ''}`);
+  });
+  lines.push('');
+  formatRequirements(task.requirements, task, requirements, 0, lines);
+  return lines.join('\n');
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined) return 'none';
+  if (field === 'timeLimit' && typeof value === 'number') return formatDuration(value);
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+};
+
+export const formatRefinement = (task: Task, refinement: TaskRefinement): string => {
+  const { diff, changes } = refinement;
+  const lines = refinement.summary ? [refinement.summary, ''] : [];
+  diff.fields.forEach(field => lines.push(`  ~ ${field}: ${formatValue(field, task[field])} -> ${formatValue(field, changes[field])}`));
+  diff.added.forEach(req => lines.push(`  + ${req.title} (${req.id})${req.children ? ` with ${req.children.length} inside` : ''}`));
+  diff.removed.forEach(req => lines.push(`  - ${req.title} (${req.id})`));
+  diff.changed.forEach(({ before, after, fields }) => {
+    const details = fields.map(field => field === 'parent'
+      ? 'moved to another group'
+      : `${field} ${formatValue(field, before[field as keyof Requirement])} -> ${formatValue(field, after[field as keyof Requirement])}`);
+    lines.push(`  ~ ${after.title} (${after.id}): ${details.join(', ')}`);
+  });
+  if (lines.length === (refinement.summary ? 2 : 0)) lines.push('  No changes proposed.');
+  return lines.join('\n');
+};
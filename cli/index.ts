@@ -0,0 +1,447 @@
+import { parseArgs } from 'node:util';
+import { createInterface } from 'node:readline/promises';
+import { readFile, writeFile } from 'node:fs/promises';
+import { Task, Requirement, RequirementCommand, RequirementType, TaskStatus, TaskEngineEvent, TaskEngineEventMap } from '../types';
+import { TaskManager } from '../services/taskManager';
+import { FileTaskRepository } from '../services/storage/fileRepository';
+import { Clock, systemClock } from '../services/clock';
+import { ConflictResolution, createBundle, parseBundle, serializeBundle, stripRuntimeState } from '../services/taskBundle';
+import { parseTaskMarkdown, serializeTaskMarkdown } from '../services/taskMarkdown';
+import { TaskValidationError, createTaskFromTemplate } from '../services/taskValidation';
+import { TaskGenerator } from '../services/generators/taskGenerator';
+import { GeneratorProvider, createTaskGenerator, generatorConfigFromEnv } from '../services/generators/generatorConfig';
+import { RecordedResponses, RecordedTaskGenerator, RecordingTaskGenerator } from '../services/generators/recordedGenerator';
+import { registerBuiltinPlugins } from '../plugins';
+import { getXorChoices, isFulfilledBy, isParticipantRequirement, isPerParticipantXor } from '../services/participants';
+import { acceptsCommands, isRevertible, resolveCommand } from '../services/requirementInput';
+import { describeBinding } from '../services/counters';
+import { isEmptyDiff } from '../services/taskRefinement';
+import { formatRefinement, formatTaskList, formatTaskTree } from './format';
+
+const USAGE = `Usage: npm run cli -- <command> [arguments] [options]
+
+Commands:
+  list                          List all tasks with status and progress
+  show <taskId>                 Show a task's requirement tree
+  start <taskId>                Start or resume a task
+  pause <taskId>                Pause a running task
+  reset <taskId>                Reset a task to IDLE
+  set <taskId> <reqId> <value>  Set a counter (number) or a checkbox (true/false)
+  inc <taskId> <reqId> [n]      Count a counter up by n (default: its step, or 1)
+  dec <taskId> <reqId> [n]      Count a counter down by n
+  toggle <taskId> <reqId>       Flip a requirement between fulfilled and open
+  unfulfill <taskId> <reqId>    Take a requirement's fulfillment back
+  tick <seconds>                Advance the store's clock and sync running tasks
+  import <file>                 Add the tasks from a bundle, task JSON or Markdown (.md) file
+  validate <file>               Check a bundle, task JSON or Markdown file without importing it
+  export <taskId>               Print a task's definition as Markdown (a bundle with --json)
+  generate "<prompt>"           Create a task from a description (see --generator)
+  refine <taskId> "<change>"    Propose changes to a task by instruction, and apply them once confirmed
+
+Options:
+  --store <path>      Task store (default: $QUESTENGINE_STORE or ./questengine.json)
+  --conflict <mode>   import: skip, overwrite or clone tasks whose id exists (default: skip)
+  --as <participant>  Input commands: who the input is from, on tasks with participants
+  --yes               refine: apply the proposed changes without asking
+  --generator <name>  generate, refine: gemini, openai or offline (default: $QUESTENGINE_GENERATOR, else gemini
+                      with GEMINI_API_KEY and offline without)
+  --model <name>      generate, refine: model for gemini or openai (default: $QUESTENGINE_MODEL)
+  --recorded <file>   generate, refine: replay the answers recorded in a JSON file instead of asking a generator
+  --record <file>     generate, refine: add the answer to a JSON file, for replaying with --recorded
+  --json              Print tasks as JSON instead of text
+  -h, --help          Show this help
+
+Task and requirement ids can be shortened to any unique prefix.`;
+
+/**
+ * Time as seen by the store: the system time plus however far `tick` has moved it forward.
+ * The offset is kept next to the store, so scripted runs can fast-forward timers and deadlines.
+ */
+class StoreClock implements Clock {
+  constructor(public offset: number) {}
+
+  now(): number {
+    return systemClock.now() + this.offset;
+  }
+
+  setInterval(callback: () => void, ms: number): () => void {
+    return systemClock.setInterval(callback, ms);
+  }
+}
+
+const clockPath = (storePath: string): string => `${storePath}.clock.json`;
+
+const loadClockOffset = async (storePath: string): Promise<number> => {
+  try {
+    const { offset } = JSON.parse(await readFile(clockPath(storePath), 'utf8'));
+    return typeof offset === 'number' ? offset : 0;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw e;
+  }
+};
+
+const saveClockOffset = (storePath: string, offset: number): Promise<void> => {
+  return writeFile(clockPath(storePath), JSON.stringify({ offset }), 'utf8');
+};
+
+// --- Lookups ---
+
+const resolveById = <T extends { id: string }>(items: T[], id: string, kind: string): T => {
+  const exact = items.find(item => item.id === id);
+  if (exact) return exact;
+  const matches = items.filter(item => item.id.startsWith(id));
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0) throw new Error(`No ${kind} with id "${id}"`);
+  throw new Error(`Ambiguous ${kind} id "${id}": ${matches.map(m => m.id).join(', ')}`);
+};
+
+const flattenRequirements = (reqs: Requirement[]): Requirement[] => {
+  return reqs.flatMap(req => [req, ...(req.children ? flattenRequirements(req.children) : [])]);
+};
+
+/**
+ * Who input comes from. Required for requirements that record contributions per participant.
+ */
+const resolveParticipant = (task: Task, req: Requirement, as: string | undefined): string | undefined => {
+  if (!isParticipantRequirement(req, task)) return undefined;
+  if (as === undefined) {
+    throw new Error(`"${task.title}" is a group quest; pass --as with one of: ${task.participants!.map(p => p.id).join(', ')}`);
+  }
+  return resolveById(task.participants!, as, 'participant').id;
+};
+
+/**
+ * The engine silently ignores input it doesn't accept. Scripts need to know why, so check first.
+ */
+const resolveInputTarget = (task: Task, reqId: string, as?: string): { req: Requirement; participantId?: string } => {
+  const req = resolveById(flattenRequirements(task.requirements), reqId, 'requirement');
+  const participantId = resolveParticipant(task, req, as);
+  if (task.status !== TaskStatus.RUNNING && task.status !== TaskStatus.PAUSED) {
+    throw new Error(`Task "${task.title}" is ${task.status}; start it first`);
+  }
+  if (req.type === RequirementType.GROUP) throw new Error(`"${req.title}" is a group; it is fulfilled by its children`);
+  if (req.isFailed) throw new Error(`"${req.title}" has failed (${req.failureReason})`);
+  if (req.isHidden) throw new Error(`"${req.title}" is hidden until ${req.visibleWhen}`);
+  if (req.isDisabled) throw new Error(`"${req.title}" is disabled`);
+  if (participantId !== undefined && isPerParticipantXor(req, task)) {
+    const choice = getXorChoices(task).get(req.xorGroup!)?.get(participantId);
+    if (choice !== undefined && choice !== req.id) throw new Error(`"${req.title}" is locked: "${choice}" was chosen instead`);
+  }
+  return { req, participantId };
+};
+
+const parseNumber = (value: string, what: string): number => {
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isFinite(n)) throw new Error(`${what} must be a number, not "${value}"`);
+  return n;
+};
+
+/**
+ * Turns `set` and friends into an input command.
+ */
+const parseCommand = (command: string, req: Requirement, args: string[], isDone: boolean): RequirementCommand => {
+  switch (command) {
+    case 'set': {
+      const value = args[0];
+      if (value === 'true') {
+        if (isDone) throw new Error(`"${req.title}" is already fulfilled`);
+        return { type: 'TOGGLE' };
+      }
+      if (value === 'false') return { type: 'UNFULFILL' };
+      if (req.type !== RequirementType.NUMERIC) throw new Error(`"${req.title}" is ${req.type}, not a counter`);
+      return { type: 'SET_VALUE', value: parseNumber(value, 'Value') };
+    }
+    case 'inc':
+    case 'dec': {
+      if (req.type !== RequirementType.NUMERIC) throw new Error(`"${req.title}" is ${req.type}, not a counter`);
+      const amount = args[0] === undefined ? undefined : parseNumber(args[0], 'Amount');
+      return { type: command === 'inc' ? 'INCREMENT' : 'DECREMENT', amount };
+    }
+    case 'toggle':
+      return { type: 'TOGGLE' };
+    default:
+      return { type: 'UNFULFILL' };
+  }
+};
+
+/**
+ * Says why the engine would ignore a command that passed resolveInputTarget.
+ */
+const explainIgnoredCommand = (req: Requirement, isDone: boolean): string => {
+  if (req.binding) return `"${req.title}" is fed by ${describeBinding(req.binding)} and ignores input`;
+  if (!acceptsCommands(req)) {
+    return req.fulfillWhen ? `"${req.title}" follows its condition ${req.fulfillWhen}` : `"${req.title}" (${req.type}) doesn't take input commands`;
+  }
+  if (isDone && !isRevertible(req)) return `"${req.title}" is fulfilled and can't be reverted`;
+  return `"${req.title}" is already there`;
+};
+
+// --- Output ---
+
+const EVENT_MESSAGES: { [E in TaskEngineEvent]?: (payload: TaskEngineEventMap[E]) => string } = {
+  statusChanged: ({ task, previousStatus, status }) => `${task.title}: ${previousStatus} -> ${status}`,
+  requirementFulfilled: ({ task, requirement }) => `${task.title}: "${requirement.title}" fulfilled`,
+  requirementFailed: ({ task, requirement, reason }) => `${task.title}: "${requirement.title}" failed (${reason})`,
+  requirementRetried: ({ task, requirement, attempt }) => `${task.title}: "${requirement.title}" attempt ${attempt}`,
+  xorLocked: ({ task, requirement, xorGroup }) => `${task.title}: "${requirement.title}" locked out (xor:${xorGroup})`,
+  timeWarning: ({ task, threshold, requirement }) =>
+    `${task.title}: ${Math.round(threshold * 100)}% of ${requirement ? `"${requirement.title}"'s` : 'the'} time used`,
+  taskRecurred: ({ task, occurrence }) => `${task.title}: period ended (${occurrence.outcome})`,
+  participantFulfilled: ({ task, requirement, participantId }) =>
+    `${task.title}: "${requirement.title}" done by ${task.participants?.find(p => p.id === participantId)?.name ?? participantId}`
+};
+
+/**
+ * Reports engine events on stderr, so stdout stays parseable with --json.
+ */
+const logEvents = (manager: TaskManager): void => {
+  (Object.keys(EVENT_MESSAGES) as TaskEngineEvent[]).forEach(event => {
+    const message = EVENT_MESSAGES[event] as (payload: TaskEngineEventMap[TaskEngineEvent]) => string;
+    manager.on(event, payload => console.error(`* ${message(payload)}`));
+  });
+};
+
+const printTask = (task: Task, json: boolean): void => {
+  console.log(json ? JSON.stringify(task, null, 2) : formatTaskTree(task));
+};
+
+const expectArgs = (args: string[], count: number, usage: string): void => {
+  if (args.length !== count) throw new Error(`Usage: ${usage}`);
+};
+
+// --- Commands ---
+
+// Markdown files hold a single task definition, see services/taskMarkdown.ts
+const readTaskFile = async (path: string): Promise<Task[]> => {
+  const text = await readFile(path, 'utf8');
+  return /\.(md|markdown)$/i.test(path) ? [createTaskFromTemplate(parseTaskMarkdown(text))] : parseBundle(text).tasks;
+};
+
+const validateFile = async (args: string[]): Promise<number> => {
+  expectArgs(args, 1, 'validate <file>');
+  try {
+    const tasks = await readTaskFile(args[0]);
+    console.log(`Valid: ${tasks.length} task${tasks.length === 1 ? '' : 's'}`);
+    return 0;
+  } catch (e) {
+    if (!(e instanceof TaskValidationError)) throw e;
+    e.issues.forEach(issue => console.log(`${issue.path || '(root)'}: ${issue.message}`));
+    return 1;
+  }
+};
+
+const applyCommand = (manager: TaskManager, id: string, reqId: string, command: RequirementCommand, participantId?: string) => {
+  switch (command.type) {
+    case 'INCREMENT': return manager.increment(id, reqId, command.amount, participantId);
+    case 'DECREMENT': return manager.decrement(id, reqId, command.amount, participantId);
+    case 'SET_VALUE': return manager.setValue(id, reqId, command.value, participantId);
+    case 'TOGGLE': return manager.toggle(id, reqId, participantId);
+    case 'UNFULFILL': return manager.unfulfill(id, reqId, participantId);
+  }
+};
+
+// --- Generation ---
+
+const readRecording = async (path: string): Promise<RecordedResponses> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw e;
+  }
+};
+
+const createGenerator = async (context: CliContext): Promise<TaskGenerator> => {
+  if (context.recorded) {
+    return new RecordedTaskGenerator({ responses: JSON.parse(await readFile(context.recorded, 'utf8')) });
+  }
+  const config = generatorConfigFromEnv(context.generator as GeneratorProvider | undefined);
+  return createTaskGenerator(context.model ? { ...config, model: context.model } : config);
+};
+
+/**
+ * Runs one request against the configured generator. With --record, the answer is added to the recording file.
+ */
+const withGenerator = async <T>(context: CliContext, ask: (generator: TaskGenerator) => Promise<T>): Promise<T> => {
+  const generator = await createGenerator(context);
+  if (!context.record) return ask(generator);
+
+  const recorder = new RecordingTaskGenerator(generator);
+  const result = await ask(recorder);
+  const recording = { ...await readRecording(context.record), ...recorder.responses };
+  await writeFile(context.record, JSON.stringify(recording, null, 2), 'utf8');
+  return result;
+};
+
+// Only asks on a terminal; scripts have to pass --yes
+const confirm = async (question: string): Promise<boolean> => {
+  if (!process.stdin.isTTY) return false;
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^y(es)?$/i.test((await prompt.question(`${question} [y/N] `)).trim());
+  } finally {
+    prompt.close();
+  }
+};
+
+interface CliContext {
+  manager: TaskManager;
+  clock: StoreClock;
+  storePath: string;
+  json: boolean;
+  conflict: string;
+  as?: string;
+  yes: boolean;
+  generator?: string;
+  model?: string;
+  recorded?: string;
+  record?: string;
+}
+
+const run = async (command: string, args: string[], context: CliContext): Promise<void> => {
+  const { manager, clock, storePath } = context;
+  const task = (id: string) => resolveById(manager.getTasks(), id, 'task');
+
+  switch (command) {
+    case 'list':
+      expectArgs(args, 0, 'list');
+      console.log(context.json ? JSON.stringify(manager.getTasks(), null, 2) : formatTaskList(manager.getTasks()));
+      return;
+
+    case 'show':
+      expectArgs(args, 1, 'show <taskId>');
+      printTask(task(args[0]), context.json);
+      return;
+
+    case 'start':
+    case 'pause':
+    case 'reset': {
+      expectArgs(args, 1, `${command} <taskId>`);
+      const { id } = task(args[0]);
+      printTask(manager[command](id)!, context.json);
+      return;
+    }
+
+    case 'set':
+    case 'inc':
+    case 'dec':
+    case 'toggle':
+    case 'unfulfill': {
+      if (command === 'set') expectArgs(args, 3, 'set <taskId> <reqId> <value>');
+      else if (command === 'inc' || command === 'dec') expectArgs(args, args.length === 3 ? 3 : 2, `${command} <taskId> <reqId> [n]`);
+      else expectArgs(args, 2, `${command} <taskId> <reqId>`);
+      const target = task(args[0]);
+      const { req, participantId } = resolveInputTarget(target, args[1], context.as);
+      const isDone = participantId !== undefined ? isFulfilledBy(req, participantId) : req.isFulfilled;
+      const input = parseCommand(command, req, args.slice(2), isDone);
+      if (!resolveCommand(req, target, input, participantId)) throw new Error(explainIgnoredCommand(req, isDone));
+      printTask(applyCommand(manager, target.id, req.id, input, participantId)!, context.json);
+      return;
+    }
+
+    case 'tick': {
+      expectArgs(args, 1, 'tick <seconds>');
+      const seconds = Number(args[0]);
+      if (!Number.isFinite(seconds) || seconds < 0) throw new Error(`Seconds must be a non-negative number, not "${args[0]}"`);
+      clock.offset += seconds * 1000;
+      await saveClockOffset(storePath, clock.offset);
+      manager.tick();
+      console.log(context.json ? JSON.stringify(manager.getTasks(), null, 2) : formatTaskList(manager.getTasks()));
+      return;
+    }
+
+    case 'import': {
+      expectArgs(args, 1, 'import <file>');
+      const resolution = context.conflict.toUpperCase() as ConflictResolution;
+      if (!['SKIP', 'OVERWRITE', 'CLONE'].includes(resolution)) {
+        throw new Error(`--conflict must be skip, overwrite or clone, not "${context.conflict}"`);
+      }
+      const plan = manager.importTasks(await readTaskFile(args[0]), resolution);
+      console.log(`Imported ${plan.tasks.length}, overwrote ${plan.overwritten.length}, skipped ${plan.skipped.length}`);
+      Object.entries(plan.cloned).forEach(([from, to]) => console.log(`  ${from} -> ${to}`));
+      return;
+    }
+
+    case 'export': {
+      expectArgs(args, 1, 'export <taskId>');
+      const definition = stripRuntimeState(task(args[0]), clock.now());
+      process.stdout.write(context.json ? `${serializeBundle(createBundle([definition]))}\n` : serializeTaskMarkdown(definition));
+      return;
+    }
+
+    case 'generate': {
+      expectArgs(args, 1, 'generate "<prompt>"');
+      const template = await withGenerator(context, generator => generator.generate(args[0]));
+      printTask(manager.addTask(createTaskFromTemplate(template)), context.json);
+      return;
+    }
+
+    case 'refine': {
+      expectArgs(args, 2, 'refine <taskId> "<instruction>"');
+      const target = task(args[0]);
+      const refinement = await withGenerator(context, generator => generator.refine(target, args[1]));
+      console.log(context.json ? JSON.stringify(refinement, null, 2) : formatRefinement(target, refinement));
+      if (isEmptyDiff(refinement.diff)) return;
+      if (!context.yes && !await confirm('Apply these changes?')) {
+        console.log('Nothing applied. Pass --yes to apply without asking.');
+        return;
+      }
+      printTask(manager.editTask(target.id, refinement.changes)!, context.json);
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      store: { type: 'string' },
+      conflict: { type: 'string', default: 'skip' },
+      as: { type: 'string' },
+      yes: { type: 'boolean', default: false },
+      generator: { type: 'string' },
+      model: { type: 'string' },
+      recorded: { type: 'string' },
+      record: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  registerBuiltinPlugins();
+  if (command === 'validate') return validateFile(args);
+
+  const storePath = values.store ?? process.env.QUESTENGINE_STORE ?? 'questengine.json';
+  const clock = new StoreClock(await loadClockOffset(storePath));
+  const manager = new TaskManager({ repository: new FileTaskRepository(storePath), clock });
+  await manager.load();
+  logEvents(manager);
+
+  await run(command, args, {
+    manager, clock, storePath, json: values.json!, conflict: values.conflict!, as: values.as, yes: values.yes!,
+    generator: values.generator, model: values.model, recorded: values.recorded, record: values.record
+  });
+  await manager.flush();
+  return 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -1,39 +1,92 @@
 import React, { useState } from 'react';
-import { Task, TaskStatus, RequirementType } from '../types';
-import { Plus, Wand2, Trash2, ArrowRight } from 'lucide-react';
-import { generateTaskFromPrompt } from '../services/geminiService';
+import { Task, TaskStatus, RequirementType, TaskTemplate, Achievement, RewardLedgerState, RewardTotals } from '../types';
+import { Plus, Wand2, Trash2, ArrowRight, Lock, Repeat, Flame, BookmarkPlus, Download, Upload, Link2 } from 'lucide-react';
+import { TaskGenerator } from '../services/generators/taskGenerator';
+import { createTaskFromTemplate, TaskValidationError } from '../services/taskValidation';
+import { TemplateLibraryPanel } from './TemplateLibraryPanel';
+import { ImportPanel } from './ImportPanel';
+import { RewardsPanel } from './RewardsPanel';
+import { downloadBundle, createShareLink, bundleFilename } from './bundleFiles';
+import { createBundle, ConflictResolution, ImportPlan } from '../services/taskBundle';
+import { getRecurrenceStats, getCompletedCount } from '../services/recurrence';
+import { getTaskProgress } from '../services/progress';
+import { ProgressRing, formatDuration } from './ProgressRing';
 
 interface DashboardProps {
   tasks: Task[];
   onSelect: (task: Task) => void;
   onDelete: (id: string) => void;
   onAdd: (task: Task) => void;
+  generator: TaskGenerator; // Backs the AI Quest Generator
+  templates: TaskTemplate[];
+  onSaveTemplate: (task: Task) => void;
+  onInstantiate: (template: TaskTemplate, values: Record<string, string>) => void;
+  onRemoveTemplate: (id: string) => void;
+  onImport: (tasks: Task[], resolution: Record<string, ConflictResolution>) => ImportPlan;
+  importLink?: string; // Share link the app was opened with
+  rewardState: RewardLedgerState;
+  rewardTotals: RewardTotals;
+  achievements: Achievement[];
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ tasks, onSelect, onDelete, onAdd }) => {
+export const Dashboard: React.FC<DashboardProps> = ({
+  tasks, onSelect, onDelete, onAdd, generator, templates, onSaveTemplate, onInstantiate, onRemoveTemplate, onImport, importLink,
+  rewardState, rewardTotals, achievements
+}) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [prompt, setPrompt] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(!!importLink);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [stripRuntime, setStripRuntime] = useState(false);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+
+  // Exports the selection, or the whole board when nothing is selected
+  const exportedTasks = selectedIds.size > 0 ? tasks.filter(t => selectedIds.has(t.id)) : tasks;
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+    setShareLink(null);
+  };
+
+  const handleExport = () => {
+    const bundle = createBundle(exportedTasks, { stripRuntimeState: stripRuntime });
+    downloadBundle(bundle, bundleFilename(bundle));
+  };
+
+  const handleShare = async () => {
+    const link = await createShareLink(createBundle(exportedTasks, { stripRuntimeState: stripRuntime }));
+    setShareLink(link);
+    await navigator.clipboard?.writeText(link).catch(() => undefined);
+  };
+
+  // Templates are validated when saved and used; show the problems instead of failing silently
+  const withTemplateErrors = (action: () => void) => {
+    try {
+      action();
+      setTemplateError(null);
+    } catch (e) {
+      setTemplateError((e as Error).message);
+    }
+  };
 
   const handleGenerate = async () => {
     if (!prompt.trim()) return;
     setIsGenerating(true);
     setError(null);
     try {
-      const template = await generateTaskFromPrompt(prompt);
-      const newTask: Task = {
-        id: crypto.randomUUID(),
-        status: TaskStatus.IDLE,
-        elapsedTime: 0,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        requirements: template.requirements.map((r: any) => ({...r, id: crypto.randomUUID(), isFulfilled: false})),
-        ...template
-      };
+      const template = await generator.generate(prompt);
+      const newTask = createTaskFromTemplate(template);
       onAdd(newTask);
       setPrompt('');
     } catch (e) {
-      setError("Failed to generate task. Please try again or check your API Key.");
+      setError(e instanceof TaskValidationError
+        ? `The generated task was invalid. ${e.message}`
+        : `Failed to generate task with ${generator.name}. ${(e as Error).message}`);
     } finally {
       setIsGenerating(false);
     }
@@ -63,6 +116,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ tasks, onSelect, onDelete,
           <p className="text-slate-400 mt-1">Advanced Task Management System</p>
         </div>
         <div className="flex gap-3">
+          <button
+            onClick={() => setIsImporting(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors border border-slate-700"
+          >
+            <Upload size={18} /> Import
+          </button>
           <button 
             onClick={createBasicTask}
             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors border border-slate-700"
@@ -72,10 +131,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ tasks, onSelect, onDelete,
         </div>
       </header>
 
+      <RewardsPanel state={rewardState} totals={rewardTotals} achievements={achievements} />
+
       {/* AI Generator Box */}
       <div className="bg-gradient-to-r from-blue-900/20 to-indigo-900/20 border border-blue-500/30 rounded-xl p-6 mb-10">
          <h2 className="text-lg font-semibold text-blue-200 mb-2 flex items-center gap-2">
             <Wand2 size={20} /> AI Quest Generator
+            <span className="text-xs font-normal text-slate-500">{generator.name}</span>
          </h2>
          <p className="text-sm text-slate-400 mb-4">Describe a complex task or quest, and our engine will construct the logic tree, including requirements, thresholds, and groups.</p>
          
@@ -96,9 +158,50 @@ export const Dashboard: React.FC<DashboardProps> = ({ tasks, onSelect, onDelete,
              {isGenerating ? 'Generating...' : 'Generate'}
            </button>
          </div>
-         {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+         {error && <p className="text-red-400 text-sm mt-3 whitespace-pre-line">{error}</p>}
       </div>
 
+      {isImporting && (
+        <ImportPanel tasks={tasks} initialLink={importLink} onImport={onImport} onClose={() => setIsImporting(false)} />
+      )}
+
+      <TemplateLibraryPanel
+        templates={templates}
+        onInstantiate={(template, values) => withTemplateErrors(() => onInstantiate(template, values))}
+        onRemove={onRemoveTemplate}
+      />
+      {templateError && <p className="text-red-400 text-sm -mt-6 mb-10 whitespace-pre-line">{templateError}</p>}
+
+      {/* Export */}
+      {tasks.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-slate-400">
+          <span>{selectedIds.size > 0 ? `${selectedIds.size} selected` : 'All quests'}</span>
+          <button onClick={handleExport} className="flex items-center gap-1 text-slate-300 hover:text-white">
+            <Download size={14} /> Export
+          </button>
+          <button onClick={handleShare} className="flex items-center gap-1 text-slate-300 hover:text-white">
+            <Link2 size={14} /> Share link
+          </button>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={stripRuntime} onChange={(e) => { setStripRuntime(e.target.checked); setShareLink(null); }} />
+            Strip progress
+          </label>
+          {selectedIds.size > 0 && (
+            <button onClick={() => { setSelectedIds(new Set()); setShareLink(null); }} className="text-slate-500 hover:text-slate-300">
+              Clear selection
+            </button>
+          )}
+          {shareLink && (
+            <input
+              readOnly
+              value={shareLink}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-[12rem] bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-300"
+            />
+          )}
+        </div>
+      )}
+
       {/* Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {tasks.map(task => (
@@ -108,27 +211,86 @@ export const Dashboard: React.FC<DashboardProps> = ({ tasks, onSelect, onDelete,
             onClick={() => onSelect(task)}
           >
             <div className="flex justify-between items-start mb-3">
-               <span className={`text-xs font-bold px-2 py-0.5 rounded uppercase tracking-wider ${
-                 task.status === TaskStatus.COMPLETED ? 'bg-green-900 text-green-300' : 
-                 task.status === TaskStatus.RUNNING ? 'bg-blue-900 text-blue-300' :
-                 'bg-slate-700 text-slate-400'
-               }`}>
-                 {task.status}
-               </span>
-               <button 
-                 onClick={(e) => { e.stopPropagation(); onDelete(task.id); }}
-                 className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-               >
-                 <Trash2 size={16} />
-               </button>
+               <div className="flex items-center gap-2">
+                 <input
+                   type="checkbox"
+                   title="Select for export"
+                   checked={selectedIds.has(task.id)}
+                   onClick={(e) => e.stopPropagation()}
+                   onChange={() => toggleSelected(task.id)}
+                 />
+                 <span className={`text-xs font-bold px-2 py-0.5 rounded uppercase tracking-wider ${
+                   task.status === TaskStatus.COMPLETED ? 'bg-green-900 text-green-300' : 
+                   task.status === TaskStatus.RUNNING ? 'bg-blue-900 text-blue-300' :
+                   task.status === TaskStatus.LOCKED ? 'bg-amber-900/60 text-amber-400 flex items-center gap-1' :
+                   'bg-slate-700 text-slate-400'
+                 }`}>
+                   {task.status === TaskStatus.LOCKED && <Lock size={10} />}
+                   {task.status}
+                 </span>
+               </div>
+               <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                 <button
+                   title="Save as template"
+                   onClick={(e) => { e.stopPropagation(); withTemplateErrors(() => onSaveTemplate(task)); }}
+                   className="text-slate-600 hover:text-blue-400"
+                 >
+                   <BookmarkPlus size={16} />
+                 </button>
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onDelete(task.id); }}
+                   className="text-slate-600 hover:text-red-400"
+                 >
+                   <Trash2 size={16} />
+                 </button>
+               </div>
             </div>
             
             <h3 className="text-xl font-bold text-white mb-2 line-clamp-1">{task.title}</h3>
             <p className="text-sm text-slate-400 mb-4 line-clamp-2 flex-1">{task.description}</p>
+
+            {task.recurrence && (
+              <div className="flex items-center justify-between mb-3 text-xs text-slate-400">
+                <span className="flex items-center gap-1">
+                  <Repeat size={12} />
+                  {task.recurrence.rule.type === 'COUNT'
+                    ? `${getCompletedCount(task) + (task.status === TaskStatus.COMPLETED ? 1 : 0)} / ${task.recurrence.rule.times} done`
+                    : task.nextOccurrenceAt !== undefined
+                      ? `Next ${new Date(task.nextOccurrenceAt).toLocaleString()}`
+                      : 'No upcoming occurrence'}
+                </span>
+                {getRecurrenceStats(task).currentStreak > 0 && (
+                  <span className="flex items-center gap-1 text-orange-400 font-semibold">
+                    <Flame size={12} /> {getRecurrenceStats(task).currentStreak}
+                  </span>
+                )}
+              </div>
+            )}
             
             <div className="flex items-center justify-between mt-auto pt-4 border-t border-slate-800">
-               <div className="text-xs text-slate-500">
-                 {task.requirements.length} Requirements
+               <div className="flex items-center gap-3 text-xs text-slate-500">
+                 <ProgressRing
+                   progress={getTaskProgress(task).progress}
+                   className={task.status === TaskStatus.COMPLETED ? 'text-green-500' : task.status === TaskStatus.FAILED ? 'text-red-500' : 'text-blue-500'}
+                 />
+                 <div>
+                   <div>
+                     {task.requirements.length} Requirements
+                     {task.templateRef && (
+                       <span className="ml-2 font-mono" title={task.templateRef.templateId}>
+                         · {templates.find(t => t.id === task.templateRef!.templateId)?.title ?? 'Template'} v{task.templateRef.version}
+                       </span>
+                     )}
+                   </div>
+                   {(task.status === TaskStatus.RUNNING || task.status === TaskStatus.PAUSED) && getTaskProgress(task).estimatedTimeLeft !== undefined && (
+                     <div className="mt-0.5">
+                       ~{formatDuration(getTaskProgress(task).estimatedTimeLeft!)} left
+                       {getTaskProgress(task).onTimeProbability !== undefined && (
+                         <span className="ml-1">· {Math.round(getTaskProgress(task).onTimeProbability! * 100)}% on time</span>
+                       )}
+                     </div>
+                   )}
+                 </div>
                </div>
                <div className="flex items-center gap-1 text-sm font-medium text-blue-400 group-hover:translate-x-1 transition-transform">
                  Open <ArrowRight size={14} />
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Task } from '../types';
+import {
+  TaskBundle, ConflictResolution, ImportPlan, createBundle, parseBundle, decodeBundleFragment, findImportConflicts
+} from '../services/taskBundle';
+import { parseTaskMarkdown } from '../services/taskMarkdown';
+import { createTaskFromTemplate } from '../services/taskValidation';
+import { Upload, X } from 'lucide-react';
+
+interface ImportPanelProps {
+  tasks: Task[];
+  initialLink?: string; // A share link to decode right away
+  onImport: (tasks: Task[], resolution: Record<string, ConflictResolution>) => ImportPlan;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  SKIP: 'Skip',
+  OVERWRITE: 'Overwrite',
+  CLONE: 'Import as copy'
+};
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ tasks, initialLink, onImport, onClose }) => {
+  const [source, setSource] = useState('');
+  const [bundle, setBundle] = useState<TaskBundle | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const accept = (next: TaskBundle) => {
+    setBundle(next);
+    setError(null);
+    setResult(null);
+    setResolutions(Object.fromEntries(findImportConflicts(next.tasks, tasks).map(id => [id, 'SKIP' as ConflictResolution])));
+  };
+
+  const read = async (text: string) => {
+    try {
+      const trimmed = text.trim();
+      if (/^#\s/.test(trimmed)) {
+        // A Markdown quest definition; a share link's fragment has no space after the "#"
+        accept(createBundle([createTaskFromTemplate(parseTaskMarkdown(trimmed))]));
+      } else {
+        accept(trimmed.startsWith('{') || trimmed.startsWith('[') ? parseBundle(trimmed) : await decodeBundleFragment(trimmed));
+      }
+    } catch (e) {
+      setBundle(null);
+      setError((e as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (initialLink) read(initialLink);
+    // Only the link the panel was opened with is decoded automatically
+  }, [initialLink]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setSource(text);
+    read(text);
+  };
+
+  const handleImport = () => {
+    if (!bundle) return;
+    try {
+      const plan = onImport(bundle.tasks, resolutions);
+      const added = plan.tasks.length - plan.overwritten.length;
+      setResult(`Imported ${added} new, overwrote ${plan.overwritten.length}, skipped ${plan.skipped.length}.`);
+      setBundle(null);
+      setSource('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const conflicts = Object.keys(resolutions);
+
+  return (
+    <div className="bg-slate-850 border border-slate-700 rounded-xl p-6 mb-10">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2"><Upload size={20} /> Import Tasks</h2>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={18} /></button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <input
+          type="file"
+          accept="application/json,.json,text/markdown,.md"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="text-sm text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-slate-700 file:text-slate-200"
+        />
+        <textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="...or paste bundle JSON, a Markdown quest or a share link"
+          rows={4}
+          className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-600"
+        />
+        <button
+          onClick={() => read(source)}
+          disabled={!source.trim()}
+          className="self-start px-4 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-md text-sm"
+        >
+          Read
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3 whitespace-pre-line">{error}</p>}
+      {result && <p className="text-green-400 text-sm mt-3">{result}</p>}
+
+      {bundle && (
+        <div className="mt-4 border-t border-slate-800 pt-4">
+          <p className="text-sm text-slate-300 mb-2">
+            {bundle.tasks.length} task{bundle.tasks.length === 1 ? '' : 's'}, exported {new Date(bundle.exportedAt).toLocaleString()}
+          </p>
+          <ul className="text-sm space-y-2 mb-4">
+            {bundle.tasks.map(task => (
+              <li key={task.id} className="flex items-center justify-between gap-3">
+                <span className="text-slate-200">{task.title}</span>
+                {conflicts.includes(task.id) ? (
+                  <span className="flex items-center gap-2 text-xs text-amber-400">
+                    Already exists
+                    <select
+                      value={resolutions[task.id]}
+                      onChange={(e) => setResolutions({ ...resolutions, [task.id]: e.target.value as ConflictResolution })}
+                      className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                    >
+                      {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                        <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  </span>
+                ) : (
+                  <span className="text-xs text-slate-500">New</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleImport}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium"
+          >
+            Import
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  progress: number; // 0-1
+  size?: number;
+  strokeWidth?: number;
+  showLabel?: boolean;
+  className?: string; // Colors the filled arc via text color
+}
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const ProgressRing: React.FC<ProgressRingProps> = ({ progress, size = 40, strokeWidth = 4, showLabel = true, className = 'text-blue-500' }) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const percent = Math.round(progress * 100);
+
+  return (
+    <div className={`relative inline-flex items-center justify-center ${className}`} style={{ width: size, height: size }} title={`${percent}%`}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" strokeWidth={strokeWidth} className="stroke-slate-700" />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      {showLabel && <span className="absolute text-[10px] font-bold text-slate-200">{percent}%</span>}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Requirement, Task, TaskDefinitionChanges, TaskRefinement } from '../types';
+import { TaskGenerator } from '../services/generators/taskGenerator';
+import { isEmptyDiff } from '../services/taskRefinement';
+import { TaskValidationError } from '../services/taskValidation';
+import { formatDuration } from './ProgressRing';
+import { Wand2, Plus, Minus, PenLine } from 'lucide-react';
+
+interface RefinePanelProps {
+  task: Task; // The definition to refine, usually the editor's draft
+  generator: TaskGenerator;
+  onApply: (changes: TaskDefinitionChanges) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  timeLimit: 'Time limit',
+  warningThresholds: 'Warnings',
+  failurePolicy: 'Failure policy',
+  recurrence: 'Recurrence',
+  rewards: 'Rewards'
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null) return 'none';
+  if (field === 'timeLimit' && typeof value === 'number') return formatDuration(value);
+  if (typeof value === 'string') return value.length > 40 ? `"${value.slice(0, 40)}…"` : `"${value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value).slice(0, 60);
+};
+
+const RequirementFields: React.FC<{ before: Requirement; after: Requirement; fields: string[] }> = ({ before, after, fields }) => (
+  <ul className="ml-6 text-xs text-slate-500">
+    {fields.map(field => (
+      <li key={field}>
+        {field === 'parent'
+          ? 'moved to another group'
+          : `${field}: ${formatValue(field, before[field as keyof Requirement])} → ${formatValue(field, after[field as keyof Requirement])}`}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Asks the generator to change a task by instruction and shows what it proposes before anything is applied.
+ */
+export const RefinePanel: React.FC<RefinePanelProps> = ({ task, generator, onApply }) => {
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinement, setRefinement] = useState<TaskRefinement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A proposal is made against one version of the task; once that changes it would undo the newer edits
+  useEffect(() => setRefinement(null), [task]);
+
+  const handleRefine = async () => {
+    if (!instruction.trim()) return;
+    setIsRefining(true);
+    setError(null);
+    try {
+      setRefinement(await generator.refine(task, instruction));
+    } catch (e) {
+      setError(e instanceof TaskValidationError
+        ? `The proposed changes were invalid. ${e.message}`
+        : `Failed to refine the quest with ${generator.name}. ${(e as Error).message}`);
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!refinement) return;
+    onApply(refinement.changes);
+    setInstruction('');
+  };
+
+  const diff = refinement?.diff;
+
+  return (
+    <div className="bg-gradient-to-r from-blue-900/20 to-indigo-900/20 border border-blue-500/30 rounded-xl p-6 space-y-3">
+      <h3 className="text-lg font-semibold text-blue-200 flex items-center gap-2">
+        <Wand2 size={18} /> Refine with AI
+        <span className="text-xs font-normal text-slate-500">{generator.name}</span>
+      </h3>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleRefine()}
+          placeholder="E.g., 'make cardio a choice of three and add a 20 minute limit'"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-600"
+        />
+        <button
+          onClick={handleRefine}
+          disabled={isRefining || !instruction.trim()}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium"
+        >
+          {isRefining ? 'Thinking...' : 'Propose'}
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-sm whitespace-pre-line">{error}</p>}
+
+      {refinement && diff && (
+        <div className="bg-slate-900/60 border border-slate-700 rounded-lg p-4 space-y-2 text-sm">
+          {refinement.summary && <p className="text-slate-300">{refinement.summary}</p>}
+          {isEmptyDiff(diff) ? (
+            <p className="text-slate-500">No changes proposed.</p>
+          ) : (
+            <ul className="space-y-1">
+              {diff.fields.map(field => (
+                <li key={field} className="text-amber-300 flex items-center gap-2">
+                  <PenLine size={14} /> {FIELD_LABELS[field] ?? field}: {formatValue(field, task[field])} → {formatValue(field, refinement.changes[field])}
+                </li>
+              ))}
+              {diff.added.map(req => (
+                <li key={`added-${req.id}`} className="text-green-400 flex items-center gap-2">
+                  <Plus size={14} /> {req.title}
+                  {req.children && <span className="text-xs text-slate-500">with {req.children.length} inside</span>}
+                </li>
+              ))}
+              {diff.removed.map(req => (
+                <li key={`removed-${req.id}`} className="text-red-400 flex items-center gap-2 line-through">
+                  <Minus size={14} /> {req.title}
+                </li>
+              ))}
+              {diff.changed.map(change => (
+                <li key={`changed-${change.after.id}`}>
+                  <span className="text-amber-300 flex items-center gap-2"><PenLine size={14} /> {change.after.title}</span>
+                  <RequirementFields {...change} />
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={handleApply}
+              disabled={isEmptyDiff(diff)}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white px-4 py-1.5 rounded-lg text-sm font-medium"
+            >
+              Apply to draft
+            </button>
+            <button onClick={() => setRefinement(null)} className="text-slate-400 hover:text-white px-3 py-1.5 text-sm">
+              Discard
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">Applied changes stay in the draft until you save. Kept requirements keep their progress.</p>
+        </div>
+      )}
+    </div>
+  );
+};
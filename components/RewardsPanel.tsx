@@ -0,0 +1,55 @@
+import React from 'react';
+import { Achievement, RewardLedgerState, RewardTotals } from '../types';
+import { Star, Coins, Package, Award } from 'lucide-react';
+
+interface RewardsPanelProps {
+  state: RewardLedgerState;
+  totals: RewardTotals;
+  achievements: Achievement[];
+}
+
+export const RewardsPanel: React.FC<RewardsPanelProps> = ({ state, totals, achievements }) => {
+  const unlockedCount = achievements.filter(a => state.unlocked[a.id] !== undefined).length;
+
+  return (
+    <div className="bg-slate-850 border border-slate-700 rounded-xl p-4 mb-10">
+      <div className="flex flex-wrap items-center gap-6 text-sm">
+        <span className="flex items-center gap-2 text-amber-300 font-semibold">
+          <Star size={16} fill="currentColor" /> {totals.xp.toLocaleString()} XP
+        </span>
+        {Object.entries(totals.currency).map(([name, amount]) => (
+          <span key={name} className="flex items-center gap-2 text-yellow-400">
+            <Coins size={16} /> {amount.toLocaleString()} {name}
+          </span>
+        ))}
+        <span className="flex items-center gap-2 text-slate-300" title={totals.items.join(', ')}>
+          <Package size={16} /> {totals.items.length} items
+        </span>
+        {achievements.length > 0 && (
+          <span className="flex items-center gap-2 text-indigo-300 ml-auto">
+            <Award size={16} /> {unlockedCount} / {achievements.length} achievements
+          </span>
+        )}
+      </div>
+
+      {achievements.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {achievements.map(achievement => {
+            const unlockedAt = state.unlocked[achievement.id];
+            return (
+              <span
+                key={achievement.id}
+                title={unlockedAt !== undefined ? `Unlocked ${new Date(unlockedAt).toLocaleString()}` : achievement.description}
+                className={`px-2 py-1 rounded-full text-xs border ${unlockedAt !== undefined
+                  ? 'border-indigo-500/50 bg-indigo-500/10 text-indigo-200'
+                  : 'border-slate-700 text-slate-500'}`}
+              >
+                {achievement.title}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,460 @@
+import React, { useMemo, useState } from 'react';
+import { Task, Requirement, RequirementType, TaskStatus } from '../types';
+import { TaskStore } from '../services/taskStore';
+import { TaskGenerator } from '../services/generators/taskGenerator';
+import { evaluateTaskState } from '../services/taskEngine';
+import { validateTask, ValidationIssue, TaskValidationError } from '../services/taskValidation';
+import { listRequirementTypes } from '../services/requirementRegistry';
+import { isParticipantRequirement } from '../services/participants';
+import {
+  DropPosition, changeRequirementType, createRequirement, dropRequirement, insertRequirement,
+  moveRequirement, removeRequirement, updateRequirementById
+} from '../services/requirementTree';
+import { RefinePanel } from './RefinePanel';
+import { GripVertical, Trash2, Plus, ChevronUp, ChevronDown, Save, CheckCircle2, Circle, XCircle, Ban, Eye } from 'lucide-react';
+
+interface TaskEditorProps {
+  task: Task;
+  manager: TaskStore;
+  generator: TaskGenerator; // Backs "Refine with AI"
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+const parseNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+// Issues that belong to the requirement at `path` itself, not to one of its children
+const issuesAt = (issues: ValidationIssue[], path: string): ValidationIssue[] => {
+  return issues.filter(issue => {
+    if (issue.path === path) return true;
+    if (!issue.path.startsWith(`${path}.`)) return false;
+    return !issue.path.slice(path.length + 1).startsWith('children[');
+  });
+};
+
+// Marks a requirement done (or not) in the preview the way a player would. On group quests, everyone does.
+const simulate = (req: Requirement, fulfilled: boolean, task: Task): Requirement => {
+  const value = fulfilled ? req.targetValue ?? 1 : 0;
+  if (isParticipantRequirement(req, task)) {
+    const contribution = req.type === RequirementType.NUMERIC ? { value } : { isFulfilled: fulfilled };
+    return { ...req, contributions: Object.fromEntries(task.participants!.map(p => [p.id, contribution])) };
+  }
+  if (req.type === RequirementType.NUMERIC) return { ...req, currentValue: value };
+  return { ...req, isFulfilled: fulfilled };
+};
+
+interface DragState {
+  draggedId: string | null;
+  target: { id: string; position: DropPosition } | null;
+}
+
+const EditorItem: React.FC<{
+  req: Requirement;
+  path: string;
+  siblings: Requirement[];
+  index: number;
+  issues: ValidationIssue[];
+  drag: DragState;
+  setDrag: (drag: DragState) => void;
+  onChange: (update: (reqs: Requirement[]) => Requirement[]) => void;
+}> = ({ req, path, siblings, index, issues, drag, setDrag, onChange }) => {
+  const update = (changes: Partial<Requirement>) => onChange(reqs => updateRequirementById(reqs, req.id, r => ({ ...r, ...changes })));
+  const ownIssues = issuesAt(issues, path);
+  const isGroup = req.type === RequirementType.GROUP;
+  const target = drag.target?.id === req.id ? drag.target.position : null;
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (drag.draggedId === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Groups take drops in their middle; everything else goes above or below
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    const position: DropPosition = isGroup && ratio > 0.25 && ratio < 0.75 ? 'inside' : ratio < 0.5 ? 'before' : 'after';
+    if (target !== position) setDrag({ ...drag, target: { id: req.id, position } });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (drag.draggedId && drag.target) {
+      const { draggedId, target: dropTarget } = drag;
+      onChange(reqs => dropRequirement(reqs, draggedId, dropTarget.id, dropTarget.position));
+    }
+    setDrag({ draggedId: null, target: null });
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+      className={`rounded-lg border transition-colors
+        ${target === 'before' ? 'border-t-blue-500 border-t-2' : ''}
+        ${target === 'after' ? 'border-b-blue-500 border-b-2' : ''}
+        ${target === 'inside' ? 'border-blue-500 bg-blue-500/5' : 'border-slate-700'}
+        ${drag.draggedId === req.id ? 'opacity-40' : ''}`}
+    >
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.effectAllowed = 'move';
+              setDrag({ draggedId: req.id, target: null });
+            }}
+            onDragEnd={() => setDrag({ draggedId: null, target: null })}
+            className="cursor-grab text-slate-500 hover:text-slate-300"
+            title="Drag to move"
+          >
+            <GripVertical size={16} />
+          </span>
+          <input
+            value={req.title}
+            onChange={(e) => update({ title: e.target.value })}
+            className={`${inputClass} flex-1 font-medium`}
+            placeholder="Title"
+          />
+          <select
+            value={req.type}
+            onChange={(e) => onChange(reqs => updateRequirementById(reqs, req.id, r => changeRequirementType(r, e.target.value)))}
+            className={inputClass}
+          >
+            {listRequirementTypes().map(def => <option key={def.type} value={def.type}>{def.label}</option>)}
+          </select>
+          <button
+            title="Move up"
+            disabled={index === 0}
+            onClick={() => onChange(reqs => dropRequirement(reqs, req.id, siblings[index - 1].id, 'before'))}
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+          >
+            <ChevronUp size={16} />
+          </button>
+          <button
+            title="Move down"
+            disabled={index === siblings.length - 1}
+            onClick={() => onChange(reqs => dropRequirement(reqs, req.id, siblings[index + 1].id, 'after'))}
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+          >
+            <ChevronDown size={16} />
+          </button>
+          <button
+            title="Remove"
+            onClick={() => onChange(reqs => removeRequirement(reqs, req.id))}
+            className="p-1 text-slate-400 hover:text-red-400"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        <input
+          value={req.description ?? ''}
+          onChange={(e) => update({ description: e.target.value || undefined })}
+          className={`${inputClass} w-full`}
+          placeholder="Description"
+        />
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+          {req.type === RequirementType.NUMERIC && (
+            <>
+              <label className="flex items-center gap-2">
+                Target
+                <input
+                  type="number"
+                  value={req.targetValue ?? ''}
+                  onChange={(e) => update({ targetValue: parseNumber(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Limit
+                <input
+                  type="number"
+                  value={req.valueLimit ?? ''}
+                  onChange={(e) => update({ valueLimit: parseNumber(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                  placeholder="None"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex items-center gap-2">
+            XOR group
+            <input
+              value={req.xorGroup ?? ''}
+              onChange={(e) => update({ xorGroup: e.target.value || undefined })}
+              className={`${inputClass} w-28`}
+              placeholder="None"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Weight
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={req.weight ?? ''}
+              onChange={(e) => update({ weight: parseNumber(e.target.value) })}
+              className={`${inputClass} w-16`}
+              placeholder="1"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={req.isOptional ?? false}
+              onChange={(e) => update({ isOptional: e.target.checked || undefined })}
+            />
+            Optional
+          </label>
+        </div>
+
+        {ownIssues.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-0.5">
+            {ownIssues.map((issue, i) => (
+              <li key={i}>{issue.path === path ? issue.message : `${issue.path.slice(path.length + 1)} ${issue.message}`}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isGroup && (
+        <div className="ml-6 mr-3 mb-3 space-y-2">
+          {(req.children ?? []).map((child, i) => (
+            <EditorItem
+              key={child.id}
+              req={child}
+              path={`${path}.children[${i}]`}
+              siblings={req.children!}
+              index={i}
+              issues={issues}
+              drag={drag}
+              setDrag={setDrag}
+              onChange={onChange}
+            />
+          ))}
+          <button
+            onClick={() => onChange(reqs => insertRequirement(reqs, req.id, Infinity, createRequirement(RequirementType.BOOLEAN)))}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          >
+            <Plus size={14} /> Add to group
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PreviewItem: React.FC<{
+  req: Requirement;
+  onToggle: (req: Requirement) => void;
+}> = ({ req, onToggle }) => {
+  const isGroup = req.type === RequirementType.GROUP;
+  const icon = req.isFailed ? <XCircle size={14} className="text-red-400" />
+    : req.isFulfilled ? <CheckCircle2 size={14} className="text-green-400" />
+    : req.isDisabled ? <Ban size={14} className="text-slate-600" />
+    : <Circle size={14} className="text-slate-500" />;
+
+  return (
+    <li>
+      <button
+        disabled={isGroup || req.isDisabled}
+        onClick={() => onToggle(req)}
+        className={`flex items-center gap-2 text-sm text-left ${req.isHidden ? 'opacity-40' : ''} ${req.isDisabled ? 'text-slate-600 line-through' : 'text-slate-300 hover:text-white'}`}
+      >
+        {icon} {req.title}
+        {req.type === RequirementType.NUMERIC && <span className="text-xs text-slate-500">{req.currentValue ?? 0}/{req.targetValue}</span>}
+      </button>
+      {isGroup && req.children && (
+        <ul className="ml-5 mt-1 space-y-1">
+          {req.children.map(child => <PreviewItem key={child.id} req={child} onToggle={onToggle} />)}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const TaskEditor: React.FC<TaskEditorProps> = ({ task, manager, generator, onClose }) => {
+  // The editor works on a draft; nothing reaches the manager until it is saved
+  const [draft, setDraft] = useState<Task>(task);
+  const [drag, setDrag] = useState<DragState>({ draggedId: null, target: null });
+  const [simulated, setSimulated] = useState<Record<string, boolean>>({});
+  const [saveIssues, setSaveIssues] = useState<ValidationIssue[]>([]);
+
+  const issues = useMemo(() => [...validateTask(draft), ...saveIssues], [draft, saveIssues]);
+  const taskIssues = issues.filter(issue => !issue.path.startsWith('requirements['));
+
+  // Evaluates the draft as if it were running, with the requirements ticked off in the preview
+  const preview = useMemo(() => {
+    const requirements = Object.keys(simulated).reduce(
+      (reqs, id) => updateRequirementById(reqs, id, req => simulate(req, simulated[id], draft)),
+      draft.requirements
+    );
+    try {
+      return evaluateTaskState({ ...draft, requirements, status: TaskStatus.RUNNING, timeSegments: undefined, history: undefined });
+    } catch {
+      return undefined;
+    }
+  }, [draft, simulated]);
+
+  const changeRequirements = (update: (reqs: Requirement[]) => Requirement[]) => {
+    setDraft(d => ({ ...d, requirements: update(d.requirements) }));
+    setSaveIssues([]);
+  };
+
+  const handleSave = () => {
+    try {
+      manager.editTask(task.id, {
+        title: draft.title,
+        description: draft.description,
+        requirements: draft.requirements,
+        timeLimit: draft.timeLimit,
+        // Not edited here, but a refinement may have changed them
+        warningThresholds: draft.warningThresholds,
+        failurePolicy: draft.failurePolicy,
+        recurrence: draft.recurrence,
+        rewards: draft.rewards
+      });
+      onClose();
+    } catch (e) {
+      if (!(e instanceof TaskValidationError)) throw e;
+      setSaveIssues(e.issues);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 animate-fade-in">
+      <div className="mb-6 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-400 hover:text-white flex items-center gap-2">
+          ← Back to Quest
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={issues.length > 0}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold transition-all"
+        >
+          <Save size={18} /> Save Changes
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Task Settings */}
+          <div className="bg-slate-850 border border-slate-700 rounded-xl p-6 shadow-xl space-y-3">
+            <input
+              value={draft.title}
+              onChange={(e) => setDraft(d => ({ ...d, title: e.target.value }))}
+              className={`${inputClass} w-full text-xl font-bold`}
+              placeholder="Quest title"
+            />
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+              className={`${inputClass} w-full`}
+              rows={2}
+              placeholder="Description"
+            />
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              Time limit (minutes)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={draft.timeLimit ? draft.timeLimit / 60 : ''}
+                onChange={(e) => {
+                  const minutes = parseNumber(e.target.value);
+                  setDraft(d => ({ ...d, timeLimit: minutes === undefined ? undefined : minutes * 60 }));
+                }}
+                className={`${inputClass} w-24`}
+                placeholder="None"
+              />
+            </label>
+            {taskIssues.length > 0 && (
+              <ul className="text-xs text-red-400 space-y-0.5">
+                {taskIssues.map((issue, i) => <li key={i}>{issue.path || 'Task'} {issue.message}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <RefinePanel
+            task={draft}
+            generator={generator}
+            onApply={(changes) => {
+              setDraft(d => ({ ...d, ...changes }));
+              setSaveIssues([]);
+            }}
+          />
+
+          {/* Requirement Tree */}
+          <div
+            className="bg-slate-850 border border-slate-700 rounded-xl p-6 shadow-lg space-y-2"
+            onDragOver={(e) => {
+              if (drag.draggedId === null) return;
+              e.preventDefault();
+              if (drag.target) setDrag({ ...drag, target: null });
+            }}
+            onDrop={(e) => {
+              // Dropping on the empty area moves the requirement to the end of the top level
+              e.preventDefault();
+              const { draggedId } = drag;
+              if (draggedId) changeRequirements(reqs => moveRequirement(reqs, draggedId, null, Infinity));
+              setDrag({ draggedId: null, target: null });
+            }}
+          >
+            <h3 className="text-lg font-semibold text-white mb-2">Requirements</h3>
+            {draft.requirements.map((req, i) => (
+              <EditorItem
+                key={req.id}
+                req={req}
+                path={`requirements[${i}]`}
+                siblings={draft.requirements}
+                index={i}
+                issues={issues}
+                drag={drag}
+                setDrag={setDrag}
+                onChange={changeRequirements}
+              />
+            ))}
+            <button
+              onClick={() => changeRequirements(reqs => [...reqs, createRequirement(RequirementType.BOOLEAN)])}
+              className="flex items-center gap-1 text-sm text-slate-400 hover:text-white pt-2"
+            >
+              <Plus size={16} /> Add requirement
+            </button>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="bg-slate-850 border border-slate-700 rounded-xl p-6 shadow-lg h-fit lg:sticky lg:top-6">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2"><Eye size={18} className="text-blue-500" /> Preview</h3>
+            {preview && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-bold
+                ${preview.status === TaskStatus.COMPLETED ? 'bg-green-500/20 text-green-400' :
+                  preview.status === TaskStatus.FAILED ? 'bg-red-500/20 text-red-400' :
+                  'bg-slate-700 text-slate-300'}`}>
+                {preview.status === TaskStatus.COMPLETED ? 'Completes' : preview.status === TaskStatus.FAILED ? 'Fails' : 'In progress'}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mb-4">Click requirements to try the quest out. Nothing here is saved.</p>
+          {preview ? (
+            <ul className="space-y-1">
+              {preview.requirements.map(req => (
+                <PreviewItem key={req.id} req={req} onToggle={(r) => setSimulated(s => ({ ...s, [r.id]: !r.isFulfilled }))} />
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">Fix the issues on the left to see a preview.</p>
+          )}
+          {Object.keys(simulated).length > 0 && (
+            <button onClick={() => setSimulated({})} className="mt-4 text-xs text-slate-400 hover:text-white">
+              Clear simulation
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
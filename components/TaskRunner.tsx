@@ -1,30 +1,158 @@
-import React, { useEffect, useState } from 'react';
-import { Task, Requirement, RequirementType, TaskStatus } from '../types';
-import { tickTask, startTask, pauseTask, resetTask, updateRequirementValue } from '../services/taskEngine';
-import { Play, Pause, RotateCcw, CheckCircle2, Circle, AlertCircle, Lock, Trophy, Clock, ChevronRight, ChevronDown } from 'lucide-react';
+import React, { useState } from 'react';
+import { Task, Requirement, RequirementType, RequirementFailureReason, TaskStatus, Prerequisite, ParticipantAggregation } from '../types';
+import { TaskStore } from '../services/taskStore';
+import { isPrerequisiteMet } from '../services/dependencyGraph';
+import { getRequirementRenderer } from './requirementRenderers';
+import { TaskTimeline } from './TaskTimeline';
+import { canUndo, canRedo } from '../services/taskHistory';
+import { hasWarning } from '../services/timeWarnings';
+import { createBundle } from '../services/taskBundle';
+import { downloadBundle, bundleFilename, downloadTaskMarkdown } from './bundleFiles';
+import { getRequirementProgress } from '../services/progress';
+import { describeReward } from '../services/rewards';
+import { getAggregation, getContribution, getXorChoices, isFulfilledBy, isParticipantRequirement, isPerParticipantXor } from '../services/participants';
+import { isRevertible } from '../services/requirementInput';
+import { describeBinding } from '../services/counters';
+import { ProgressRing } from './ProgressRing';
+import { Undo2, Redo2, Download, Pencil, Gift, Play, Pause, RotateCcw, CheckCircle2, Circle, AlertCircle, Lock, Trophy, Clock, ChevronRight, ChevronDown, Users, Link2 } from 'lucide-react';
 
 interface TaskRunnerProps {
-  initialTask: Task;
-  onUpdate: (task: Task) => void;
+  task: Task;
+  manager: TaskStore;
   onBack: () => void;
+  onEdit: () => void;
 }
 
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const FAILURE_LABELS: Record<RequirementFailureReason, string> = {
+  TIME_LIMIT: 'Ran out of time',
+  DEADLINE: 'Deadline passed',
+  VALUE_LIMIT: 'Limit exceeded',
+  FAIL_CONDITION: 'Fail condition met',
+  CHILD_FAILED: 'Can no longer be completed'
+};
+
+const AGGREGATION_LABELS: Record<ParticipantAggregation, string> = {
+  SUM: 'Team total',
+  ALL: 'Everyone',
+  ANY: 'Anyone'
+};
+
+// The member of req's participant-scoped XOR group that a participant has chosen, if any
+const getChoice = (req: Requirement, task: Task, participantId: string): string | undefined => {
+  return isPerParticipantXor(req, task) ? getXorChoices(task).get(req.xorGroup!)?.get(participantId) : undefined;
+};
+
+// Everyone's own progress on a group quest requirement
+const ParticipantBreakdown: React.FC<{ req: Requirement; task: Task; participantId?: string }> = ({ req, task, participantId }) => (
+  <ul className="mt-2 space-y-0.5 text-xs">
+    {(task.participants ?? []).map(p => {
+      const isDone = isFulfilledBy(req, p.id);
+      const choice = getChoice(req, task, p.id);
+      return (
+        <li key={p.id} className={`flex items-center gap-2 ${p.id === participantId ? 'text-slate-200' : 'text-slate-500'}`}>
+          {isDone ? <CheckCircle2 size={12} className="text-green-500" /> : <Circle size={12} />}
+          <span>{p.name}</span>
+          {req.type === RequirementType.NUMERIC && (
+            <span className="font-mono">{getContribution(req, p.id).value ?? 0} / {req.targetValue}</span>
+          )}
+          {choice !== undefined && choice !== req.id && <span className="text-amber-600">chose another option</span>}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+// Requirement input, bound to the task and the active participant
+interface RequirementInput {
+  update: (id: string, updates: Partial<Requirement>) => void; // Raw updates, for custom renderers
+  increment: (id: string) => void;
+  decrement: (id: string) => void;
+  setValue: (id: string, value: number) => void;
+  toggle: (id: string) => void;
+}
+
+// Counter value that can be typed over. Commits on Enter or when focus leaves.
+const ValueInput: React.FC<{ value: number; disabled: boolean; onSet: (value: number) => void }> = ({ value, disabled, onSet }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== '' && Number.isFinite(Number(draft)) && Number(draft) !== value) onSet(Number(draft));
+    setDraft(null);
+  };
+  return (
+    <input
+      type="number"
+      disabled={disabled}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-sm font-mono text-slate-300 text-right disabled:opacity-50"
+    />
+  );
+};
+
+const describeTaskFailure = (task: Task): string | undefined => {
+  switch (task.failure?.reason) {
+    case 'TIME_LIMIT': return 'The time limit ran out';
+    case 'DUE_DATE': return 'The due date passed';
+    case 'REQUIREMENT_FAILED': {
+      const find = (reqs: Requirement[]): Requirement | undefined => {
+        for (const r of reqs) {
+          if (r.id === task.failure?.requirementId) return r;
+          const inner = r.children && find(r.children);
+          if (inner) return inner;
+        }
+        return undefined;
+      };
+      const req = find(task.requirements);
+      return req ? `"${req.title}" failed: ${FAILURE_LABELS[req.failureReason ?? 'CHILD_FAILED'].toLowerCase()}` : 'A requirement failed';
+    }
+  }
+  return undefined;
+};
+
 // Recursive Requirement Component
 const RequirementItem: React.FC<{
   req: Requirement;
   depth?: number;
-  onUpdate: (id: string, updates: Partial<Requirement>) => void;
-  taskStatus: TaskStatus;
-}> = ({ req, depth = 0, onUpdate, taskStatus }) => {
+  input: RequirementInput;
+  task: Task;
+  participantId?: string; // Who input is recorded for on group quests
+}> = ({ req, depth = 0, input, task, participantId }) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
+  const taskStatus = task.status;
+  const CustomRenderer = getRequirementRenderer(req.type);
+
   const isLocked = req.isDisabled;
+  const isFailed = req.isFailed;
+  const isHidden = req.isHidden;
   const isFulfilled = req.isFulfilled;
-  const isInteractable = taskStatus === TaskStatus.RUNNING && !isLocked && !isFulfilled;
+  // On group quests the controls show and change the active participant's own contribution
+  const isPersonal = participantId !== undefined && isParticipantRequirement(req, task);
+  const choice = participantId !== undefined ? getChoice(req, task, participantId) : undefined;
+  const isChoiceLocked = choice !== undefined && choice !== req.id;
+  const isDone = isPersonal ? isFulfilledBy(req, participantId) : isFulfilled;
+  const value = isPersonal ? getContribution(req, participantId).value : req.currentValue;
+  const isInteractable = taskStatus === TaskStatus.RUNNING && !isLocked && !isFailed && !isHidden && !isFulfilled && !isChoiceLocked;
+  // Fulfilled requirements take input that could revert them only if their rules allow it
+  const canRevert = taskStatus === TaskStatus.RUNNING && !isLocked && !isFailed && !isHidden && !isChoiceLocked && isDone && isRevertible(req);
+  const canEdit = isInteractable || canRevert;
+  const min = req.input?.min ?? 0;
+  const isWarned = hasWarning(task, req.id) && !isFulfilled && !isFailed;
+  const maxAttempts = task.failurePolicy?.mode === 'RETRY' ? task.failurePolicy.maxAttempts ?? 3 : undefined;
 
   // Visual Styles
   const baseClasses = `border-l-2 pl-4 py-2 my-2 transition-all duration-200 ${depth > 0 ? 'ml-4' : ''}`;
-  const statusColor = isLocked 
+  const statusColor = isFailed
+    ? 'border-red-900 text-slate-500'
+    : isLocked 
     ? 'border-slate-700 text-slate-500' 
     : isFulfilled 
       ? 'border-green-500 bg-green-500/5' 
@@ -40,11 +168,50 @@ const RequirementItem: React.FC<{
                 {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
               </button>
             )}
+            {req.type === RequirementType.GROUP && (
+              <ProgressRing
+                progress={getRequirementProgress(task, req.id)}
+                size={20}
+                strokeWidth={3}
+                showLabel={false}
+                className={isFailed ? 'text-red-500' : isFulfilled ? 'text-green-500' : 'text-blue-500'}
+              />
+            )}
             
             <h4 className={`font-medium ${isFulfilled ? 'text-green-400' : 'text-slate-200'}`}>
               {req.title}
               {req.isOptional && <span className="ml-2 text-xs text-slate-500 uppercase tracking-wider">(Optional)</span>}
-              {req.xorGroup && <span className="ml-2 text-xs text-amber-500 border border-amber-900/50 px-1 rounded">XOR: {req.xorGroup}</span>}
+              {req.xorGroup && (
+                <span className="ml-2 text-xs text-amber-500 border border-amber-900/50 px-1 rounded">
+                  XOR: {req.xorGroup}{isPerParticipantXor(req, task) && ' (each chooses)'}
+                </span>
+              )}
+              {isParticipantRequirement(req, task) && !isPerParticipantXor(req, task) && (
+                <span className="ml-2 text-xs text-teal-400 border border-teal-900/50 px-1 rounded">{AGGREGATION_LABELS[getAggregation(req)]}</span>
+              )}
+              {req.minFulfilled !== undefined && req.children && (
+                <span className="ml-2 text-xs text-indigo-400 border border-indigo-900/50 px-1 rounded">{req.minFulfilled} of {req.children.length}</span>
+              )}
+              {req.isFailCondition && <span className="ml-2 text-xs text-red-400 border border-red-900/50 px-1 rounded uppercase">Fail if met</span>}
+              {maxAttempts !== undefined && (req.attempts ?? 1) > 1 && (
+                <span className="ml-2 text-xs text-orange-400 border border-orange-900/50 px-1 rounded">Attempt {req.attempts}/{maxAttempts}</span>
+              )}
+              {req.rewards && req.rewards.length > 0 && (
+                <span className="ml-2 text-xs text-amber-300 border border-amber-900/50 px-1 rounded" title={req.rewards.map(describeReward).join('\n')}>
+                  <Gift size={10} className="inline mr-1" />{req.rewards.map(describeReward).join(' · ')}
+                </span>
+              )}
+              {req.fulfillWhen && <span className="ml-2 text-xs text-sky-400 border border-sky-900/50 px-1 rounded font-mono">when {req.fulfillWhen}</span>}
+              {req.timeLimit !== undefined && !isFulfilled && !isFailed && (
+                <span className={`ml-2 text-xs font-mono ${isWarned ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {formatTime(Math.max(0, req.timeLimit - (task.elapsedTime - (req.attemptStartedAt ?? 0))))} left
+                </span>
+              )}
+              {req.deadline !== undefined && !isFulfilled && !isFailed && (
+                <span className={`ml-2 text-xs ${isWarned ? 'text-amber-400' : 'text-slate-500'}`}>
+                  due {new Date(req.deadline).toLocaleString()}
+                </span>
+              )}
             </h4>
           </div>
           
@@ -52,24 +219,30 @@ const RequirementItem: React.FC<{
           
           {/* Controls */}
           <div className="mt-3">
-             {isLocked && <div className="flex items-center gap-2 text-xs text-amber-600"><Lock size={12}/> Mutually Exclusive Locked</div>}
+             {isFailed && <div className="flex items-center gap-2 text-xs text-red-400"><AlertCircle size={12}/> Failed: {FAILURE_LABELS[req.failureReason ?? 'CHILD_FAILED']}</div>}
+             {isLocked && !isFailed && <div className="flex items-center gap-2 text-xs text-amber-600"><Lock size={12}/> Mutually Exclusive Locked</div>}
+             {isChoiceLocked && !isFailed && <div className="mb-2 flex items-center gap-2 text-xs text-amber-600"><Lock size={12}/> You chose another option</div>}
+             {!isLocked && !isFailed && isHidden && (
+               <div className="flex items-center gap-2 text-xs text-slate-500"><Lock size={12}/> Hidden until <span className="font-mono">{req.visibleWhen}</span></div>
+             )}
              
-             {!isLocked && req.type === RequirementType.BOOLEAN && (
+             {!isLocked && !isFailed && !isHidden && req.type === RequirementType.BOOLEAN && !req.fulfillWhen && (
                <button
-                 disabled={!isInteractable && !isFulfilled} // Allow unchecking if fulfilled? Depends on engine. Let's assume uncheckable.
-                 onClick={() => onUpdate(req.id, { isFulfilled: !req.isFulfilled })}
+                 disabled={!canEdit}
+                 onClick={() => input.toggle(req.id)}
+                 title={isDone && canRevert ? 'Click to uncheck' : undefined}
                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                   isFulfilled 
+                   isDone 
                      ? 'bg-green-500 text-black hover:bg-green-400' 
                      : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-                 } ${!isInteractable && !isFulfilled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                 } ${!canEdit && !isDone ? 'opacity-50 cursor-not-allowed' : ''}`}
                >
-                 {isFulfilled ? <CheckCircle2 size={16}/> : <Circle size={16}/>}
-                 {isFulfilled ? 'Completed' : 'Mark Complete'}
+                 {isDone ? <CheckCircle2 size={16}/> : <Circle size={16}/>}
+                 {isDone ? 'Completed' : 'Mark Complete'}
                </button>
              )}
 
-             {!isLocked && req.type === RequirementType.NUMERIC && (
+             {!isLocked && !isFailed && !isHidden && req.type === RequirementType.NUMERIC && (
                <div className="flex items-center gap-4">
                  <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
                    <div 
@@ -78,19 +251,46 @@ const RequirementItem: React.FC<{
                    />
                  </div>
                  <div className="flex items-center gap-2">
-                   <span className="text-sm font-mono text-slate-300">
-                     {req.currentValue || 0} / {req.targetValue}
-                   </span>
-                   <button
-                     disabled={!isInteractable}
-                     onClick={() => onUpdate(req.id, { currentValue: (req.currentValue || 0) + 1 })}
-                     className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs disabled:opacity-50"
-                   >
-                     +1
-                   </button>
+                   {(isPersonal || req.binding) && (
+                     <span className="text-sm font-mono text-slate-300">
+                       {req.currentValue || 0} / {req.targetValue}
+                     </span>
+                   )}
+                   {!req.binding && (
+                     <>
+                       {isPersonal && <span className="text-xs text-slate-500">You</span>}
+                       <button
+                         disabled={!canEdit || (value || 0) <= min}
+                         onClick={() => input.decrement(req.id)}
+                         className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs disabled:opacity-50"
+                       >
+                         −{req.input?.step ?? 1}
+                       </button>
+                       <ValueInput value={value || 0} disabled={!canEdit} onSet={(v) => input.setValue(req.id, v)} />
+                       {!isPersonal && <span className="text-sm font-mono text-slate-300">/ {req.targetValue}</span>}
+                       <button
+                         disabled={!isInteractable || (req.input?.max !== undefined && (value || 0) >= req.input.max)}
+                         onClick={() => input.increment(req.id)}
+                         className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs disabled:opacity-50"
+                       >
+                         +{req.input?.step ?? 1}
+                       </button>
+                     </>
+                   )}
                  </div>
                </div>
              )}
+             {req.binding && (
+               <div className="mt-1 flex items-center gap-1 text-xs text-sky-400"><Link2 size={12}/> Fed by {describeBinding(req.binding)}</div>
+             )}
+
+             {!isLocked && !isHidden && isParticipantRequirement(req, task) && (
+               <ParticipantBreakdown req={req} task={task} participantId={participantId} />
+             )}
+
+             {!isLocked && !isFailed && !isHidden && CustomRenderer && (
+               <CustomRenderer req={req} task={task} isInteractable={isInteractable} onUpdate={input.update} />
+             )}
           </div>
         </div>
         
@@ -107,8 +307,9 @@ const RequirementItem: React.FC<{
               key={child.id} 
               req={child} 
               depth={depth + 1} 
-              onUpdate={onUpdate}
-              taskStatus={taskStatus}
+              input={input}
+              task={task}
+              participantId={participantId}
             />
           ))}
         </div>
@@ -117,46 +318,51 @@ const RequirementItem: React.FC<{
   );
 };
 
-export const TaskRunner: React.FC<TaskRunnerProps> = ({ initialTask, onUpdate, onBack }) => {
-  const [task, setTask] = useState<Task>(initialTask);
-
-  // Sync prop changes
-  useEffect(() => {
-    setTask(initialTask);
-  }, [initialTask]);
-
-  // Timer Effect
-  useEffect(() => {
-    let interval: number;
-    if (task.status === TaskStatus.RUNNING) {
-      interval = window.setInterval(() => {
-        const updated = tickTask(task);
-        setTask(updated);
-        // We only persist to parent periodically or on status change to avoid excessive re-renders up chain
-        // But for this simple app, we can just local state it and save on unmount or status change?
-        // Let's sync on major events, but strictly speaking, the parent holds the source of truth.
-        // For smoother UI, we keep local state and flush up. 
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [task.status, task.elapsedTime]); // Dependencies need care to avoid loops
+// Recursive Prerequisite Component
+const PrerequisiteItem: React.FC<{
+  prereq: Prerequisite;
+  tasksById: Map<string, Task>;
+}> = ({ prereq, tasksById }) => {
+  const isMet = isPrerequisiteMet(prereq, tasksById);
 
-  const handleUpdate = (newTask: Task) => {
-    setTask(newTask);
-    onUpdate(newTask);
-  };
+  if (prereq.type === 'TASK_STATUS') {
+    const title = tasksById.get(prereq.taskId)?.title ?? prereq.taskId;
+    return (
+      <li className={`flex items-center gap-2 text-sm ${isMet ? 'text-green-400' : 'text-slate-400'}`}>
+        {isMet ? <CheckCircle2 size={14}/> : <Circle size={14}/>}
+        {title} is {prereq.status.toLowerCase()}
+      </li>
+    );
+  }
 
-  const handleReqUpdate = (reqId: string, updates: Partial<Requirement>) => {
-    const updatedTask = updateRequirementValue(task, reqId, updates);
-    handleUpdate(updatedTask);
-  };
+  return (
+    <li className="text-sm text-slate-400">
+      <span className={`text-xs uppercase tracking-wider ${isMet ? 'text-green-400' : 'text-slate-500'}`}>
+        {prereq.type === 'ALL_OF' ? 'All of' : 'Any of'}
+      </span>
+      <ul className="ml-4 mt-1 space-y-1">
+        {prereq.conditions.map((c, i) => <PrerequisiteItem key={i} prereq={c} tasksById={tasksById} />)}
+      </ul>
+    </li>
+  );
+};
+
+export const TaskRunner: React.FC<TaskRunnerProps> = ({ task, manager, onBack, onEdit }) => {
+  const [selectedParticipant, setSelectedParticipant] = useState<string | undefined>();
+  const participant = task.participants?.find(p => p.id === selectedParticipant) ?? task.participants?.[0];
 
-  const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = seconds % 60;
-    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  // All state lives in the manager; this view only renders the current snapshot and forwards commands.
+  const input: RequirementInput = {
+    update: (reqId, updates) => manager.updateRequirement(task.id, reqId, updates, participant?.id),
+    increment: reqId => manager.increment(task.id, reqId, undefined, participant?.id),
+    decrement: reqId => manager.decrement(task.id, reqId, undefined, participant?.id),
+    setValue: (reqId, value) => manager.setValue(task.id, reqId, value, participant?.id),
+    toggle: reqId => manager.toggle(task.id, reqId, participant?.id)
   };
 
+  const tasksById = new Map(manager.getTasks().map(t => [t.id, t]));
+  const isTimeWarned = task.status === TaskStatus.RUNNING && hasWarning(task);
+
   return (
     <div className="max-w-4xl mx-auto p-6 animate-fade-in">
       <button onClick={onBack} className="mb-6 text-slate-400 hover:text-white flex items-center gap-2">
@@ -183,16 +389,49 @@ export const TaskRunner: React.FC<TaskRunnerProps> = ({ initialTask, onUpdate, o
               </span>
             </div>
             <p className="text-slate-400 max-w-xl">{task.description}</p>
+            {task.status === TaskStatus.FAILED && describeTaskFailure(task) && (
+              <p className="mt-2 flex items-center gap-2 text-sm text-red-400"><AlertCircle size={14}/> {describeTaskFailure(task)}</p>
+            )}
+            {task.rewards && task.rewards.length > 0 && (
+              <div className="mt-4">
+                <span className="text-xs text-slate-500 uppercase font-bold">Rewards</span>
+                <ul className="mt-1 space-y-1">
+                  {task.rewards.map((reward, i) => (
+                    <li key={reward.id ?? i} className="flex items-center gap-2 text-sm text-amber-300">
+                      <Gift size={14} /> {describeReward(reward)}
+                      {reward.on === 'FAILED' && <span className="text-xs text-slate-500">on failure</span>}
+                      {reward.when && <span className="text-xs text-sky-400 font-mono">if {reward.when}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {task.prerequisites && task.prerequisites.length > 0 && (
+              <div className="mt-4">
+                <span className="text-xs text-slate-500 uppercase font-bold">Prerequisites</span>
+                <ul className="mt-1 space-y-1">
+                  {task.prerequisites.map((p, i) => (
+                    <PrerequisiteItem key={i} prereq={p} tasksById={tasksById} />
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           <div className="text-right">
              <div className="flex flex-col items-end">
                 <span className="text-xs text-slate-500 uppercase font-bold mb-1">Time Elapsed</span>
-                <div className="flex items-center gap-2 text-2xl font-mono text-white">
-                  <Clock size={20} className="text-slate-500" />
+                <div className={`flex items-center gap-2 text-2xl font-mono ${isTimeWarned ? 'text-amber-400' : 'text-white'}`}>
+                  {isTimeWarned ? <AlertCircle size={20} /> : <Clock size={20} className="text-slate-500" />}
                   {formatTime(task.elapsedTime)}
                   {task.timeLimit && <span className="text-slate-500 text-sm">/ {formatTime(task.timeLimit)}</span>}
                 </div>
+                {task.dueAt !== undefined && (
+                  <span className={`text-xs mt-1 ${isTimeWarned ? 'text-amber-400' : 'text-slate-500'}`}>
+                    Due {new Date(task.dueAt).toLocaleString()}
+                  </span>
+                )}
+                {isTimeWarned && <span className="text-xs mt-1 text-amber-400 font-semibold uppercase">Running out of time</span>}
              </div>
           </div>
         </div>
@@ -201,23 +440,53 @@ export const TaskRunner: React.FC<TaskRunnerProps> = ({ initialTask, onUpdate, o
         <div className="mt-8 flex items-center gap-3 relative z-10 border-t border-slate-700 pt-6">
           {task.status === TaskStatus.IDLE || task.status === TaskStatus.PAUSED ? (
             <button 
-              onClick={() => handleUpdate(startTask(task))}
+              onClick={() => manager.start(task.id)}
               className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-6 py-2 rounded-lg font-semibold transition-all"
             >
               <Play size={18} fill="currentColor" /> {task.status === TaskStatus.IDLE ? 'Start Quest' : 'Resume'}
             </button>
           ) : task.status === TaskStatus.RUNNING ? (
              <button 
-              onClick={() => handleUpdate(pauseTask(task))}
+              onClick={() => manager.pause(task.id)}
               className="flex items-center gap-2 bg-amber-600 hover:bg-amber-500 text-white px-6 py-2 rounded-lg font-semibold transition-all"
             >
               <Pause size={18} fill="currentColor" /> Pause
             </button>
+          ) : task.status === TaskStatus.LOCKED ? (
+            <div className="flex items-center gap-2 text-amber-500 text-sm font-medium">
+              <Lock size={16} /> Locked until prerequisites are met
+            </div>
           ) : null}
 
+          <div className="flex items-center gap-1 ml-auto">
+            <button
+              title="Undo"
+              disabled={!canUndo(task)}
+              onClick={() => manager.undo(task.id)}
+              className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+            >
+              <Undo2 size={18} />
+            </button>
+            <button
+              title="Redo"
+              disabled={!canRedo(task)}
+              onClick={() => manager.redo(task.id)}
+              className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+            >
+              <Redo2 size={18} />
+            </button>
+          </div>
+
+          <button
+            onClick={onEdit}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg font-medium transition-all"
+          >
+            <Pencil size={18} /> Edit
+          </button>
+
           <button 
-            onClick={() => handleUpdate(resetTask(task))}
-            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg font-medium transition-all ml-auto"
+            onClick={() => manager.reset(task.id)}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg font-medium transition-all"
           >
             <RotateCcw size={18} /> Reset
           </button>
@@ -229,21 +498,59 @@ export const TaskRunner: React.FC<TaskRunnerProps> = ({ initialTask, onUpdate, o
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
           <CheckCircle2 size={20} className="text-blue-500"/> Requirements
         </h3>
+
+        {task.participants && task.participants.length > 0 && (
+          <div className="mb-4 flex items-center gap-2 text-sm">
+            <Users size={16} className="text-slate-500" />
+            <span className="text-slate-400">Playing as</span>
+            {task.participants.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedParticipant(p.id)}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                  p.id === participant?.id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="space-y-1">
           {task.requirements.map(req => (
             <RequirementItem 
               key={req.id} 
               req={req} 
-              onUpdate={handleReqUpdate}
-              taskStatus={task.status}
+              input={input}
+              task={task}
+              participantId={participant?.id}
             />
           ))}
         </div>
       </div>
       
+      <TaskTimeline task={task} />
+
       {/* JSON Dump for Verification */}
       <div className="mt-8 pt-8 border-t border-slate-800">
+        <div className="mb-3 flex gap-4">
+          <button
+            onClick={() => {
+              const bundle = createBundle([task]);
+              downloadBundle(bundle, bundleFilename(bundle));
+            }}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          >
+            <Download size={14} /> Export as JSON
+          </button>
+          <button
+            onClick={() => downloadTaskMarkdown(task)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          >
+            <Download size={14} /> Export as Markdown
+          </button>
+        </div>
         <details>
           <summary className="text-xs text-slate-500 cursor-pointer hover:text-slate-300">View Serialized JSON State</summary>
           <pre className="mt-4 bg-slate-950 p-4 rounded-lg overflow-x-auto text-xs text-green-400 font-mono">
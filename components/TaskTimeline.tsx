@@ -0,0 +1,85 @@
+import React from 'react';
+import { Task, TaskAction, Requirement } from '../types';
+import { History } from 'lucide-react';
+
+interface TaskTimelineProps {
+  task: Task;
+}
+
+const findRequirementTitle = (reqs: Requirement[], id: string): string | undefined => {
+  for (const req of reqs) {
+    if (req.id === id) return req.title;
+    const nested = req.children && findRequirementTitle(req.children, id);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+const describeAction = (action: TaskAction, task: Task, previous?: TaskAction): string => {
+  switch (action.type) {
+    case 'START':
+      return 'Started';
+    case 'PAUSE':
+      return 'Paused';
+    case 'RESET':
+      return 'Reset';
+    case 'TICK':
+      // Consecutive ticks are merged, so a tick covers the time since the previous action.
+      return `Ran for ${Math.round((action.timestamp - (previous?.timestamp ?? action.timestamp)) / 1000)}s`;
+    case 'REQUIREMENT_UPDATE': {
+      const { reqId, updates } = action.payload;
+      const title = findRequirementTitle(task.requirements, reqId) ?? reqId;
+      if (updates.isFulfilled !== undefined) return `${updates.isFulfilled ? 'Completed' : 'Unchecked'} "${title}"`;
+      if (updates.currentValue !== undefined) return `Set "${title}" to ${updates.currentValue}`;
+      return `Updated "${title}"`;
+    }
+    case 'REQUIREMENT_COMMAND': {
+      const { reqId, command } = action.payload;
+      const title = findRequirementTitle(task.requirements, reqId) ?? reqId;
+      switch (command.type) {
+        case 'INCREMENT': return `Added ${command.amount ?? 'a step'} to "${title}"`;
+        case 'DECREMENT': return `Took ${command.amount ?? 'a step'} from "${title}"`;
+        case 'SET_VALUE': return `Set "${title}" to ${command.value}`;
+        case 'TOGGLE': return `Toggled "${title}"`;
+        case 'UNFULFILL': return `Unchecked "${title}"`;
+      }
+    }
+    case 'COUNTER_SYNC':
+      return Object.entries(action.payload.values)
+        .map(([reqId, value]) => `"${findRequirementTitle(task.requirements, reqId) ?? reqId}" is at ${value}`)
+        .join(', ');
+  }
+};
+
+/**
+ * Audit view of everything recorded in a task's history, newest first.
+ */
+export const TaskTimeline: React.FC<TaskTimelineProps> = ({ task }) => {
+  const actions = task.history?.actions ?? [];
+
+  return (
+    <div className="bg-slate-850 border border-slate-700 rounded-xl p-6 shadow-lg mt-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <History size={20} className="text-blue-500"/> Timeline
+      </h3>
+
+      {actions.length === 0 ? (
+        <p className="text-sm text-slate-500">Nothing has happened yet.</p>
+      ) : (
+        <ol className="space-y-2 border-l border-slate-700 ml-2">
+          {actions.map((action, i) => ({ action, previous: actions[i - 1], index: i })).reverse().map(({ action, previous, index }) => (
+            <li key={index} className="pl-4 relative">
+              <span className="absolute -left-1 top-1.5 w-2 h-2 rounded-full bg-slate-500" />
+              <div className="flex items-baseline justify-between gap-4">
+                <span className={`text-sm ${action.type === 'TICK' || action.type === 'COUNTER_SYNC' ? 'text-slate-500' : 'text-slate-200'}`}>
+                  {describeAction(action, task, previous)}
+                </span>
+                <time className="text-xs font-mono text-slate-500">{new Date(action.timestamp).toLocaleTimeString()}</time>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { TaskTemplate } from '../types';
+import { BookCopy, Plus, Trash2 } from 'lucide-react';
+
+interface TemplateLibraryPanelProps {
+  templates: TaskTemplate[];
+  onInstantiate: (template: TaskTemplate, values: Record<string, string>) => void;
+  onRemove: (id: string) => void;
+}
+
+const TemplateRow: React.FC<{
+  template: TaskTemplate;
+  onInstantiate: TemplateLibraryPanelProps['onInstantiate'];
+  onRemove: TemplateLibraryPanelProps['onRemove'];
+}> = ({ template, onInstantiate, onRemove }) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries((template.parameters ?? []).map(p => [p.name, p.default === undefined ? '' : String(p.default)]))
+  );
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 py-3 border-b border-slate-800 last:border-b-0">
+      <div className="flex-1 min-w-[10rem]">
+        <span className="text-white font-medium">{template.title}</span>
+        <span className="ml-2 text-xs text-slate-500 font-mono">v{template.version}</span>
+      </div>
+      {(template.parameters ?? []).map(param => (
+        <label key={param.name} className="flex items-center gap-1 text-xs text-slate-400">
+          {param.label ?? param.name}
+          <input
+            type={param.type === 'number' ? 'number' : 'text'}
+            value={values[param.name] ?? ''}
+            onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+            className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </label>
+      ))}
+      <button
+        onClick={() => onInstantiate(template, values)}
+        className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-md text-sm font-medium transition-colors"
+      >
+        <Plus size={14} /> Create
+      </button>
+      <button
+        title="Delete template"
+        onClick={() => onRemove(template.id!)}
+        className="text-slate-600 hover:text-red-400 transition-colors"
+      >
+        <Trash2 size={16} />
+      </button>
+    </li>
+  );
+};
+
+export const TemplateLibraryPanel: React.FC<TemplateLibraryPanelProps> = ({ templates, onInstantiate, onRemove }) => {
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="bg-slate-850 border border-slate-700 rounded-xl p-6 mb-10">
+      <h2 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+        <BookCopy size={20} /> Templates
+      </h2>
+      <ul>
+        {templates.map(template => (
+          <TemplateRow key={`${template.id}@${template.version}`} template={template} onInstantiate={onInstantiate} onRemove={onRemove} />
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { Task } from '../types';
+import { TaskBundle, serializeBundle, encodeBundleFragment, stripRuntimeState } from '../services/taskBundle';
+import { serializeTaskMarkdown } from '../services/taskMarkdown';
+
+// Saves text as a file through the browser's download mechanism
+const download = (content: string, type: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Saves a bundle as a .json file.
+ */
+export const downloadBundle = (bundle: TaskBundle, filename: string): void => {
+  download(serializeBundle(bundle), 'application/json', filename.endsWith('.json') ? filename : `${filename}.json`);
+};
+
+/**
+ * Saves a task's definition, without its progress, as a Markdown checklist (see services/taskMarkdown.ts).
+ */
+export const downloadTaskMarkdown = (task: Task): void => {
+  download(serializeTaskMarkdown(stripRuntimeState(task)), 'text/markdown', `${slugify(task.title)}.md`);
+};
+
+/**
+ * Builds a link to this app that opens the import dialog with the bundle.
+ */
+export const createShareLink = async (bundle: TaskBundle): Promise<string> => {
+  const base = window.location.href.split('#')[0];
+  return `${base}#${await encodeBundleFragment(bundle)}`;
+};
+
+const slugify = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tasks';
+
+export const bundleFilename = (bundle: TaskBundle): string => {
+  return bundle.tasks.length === 1 ? slugify(bundle.tasks[0].title) : `questengine-${bundle.tasks.length}-tasks`;
+};
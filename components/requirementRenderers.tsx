@@ -0,0 +1,38 @@
+import React from 'react';
+import { Task, Requirement } from '../types';
+import { RequirementTypeDefinition, registerRequirementType } from '../services/requirementRegistry';
+
+export interface RequirementRendererProps {
+  req: Requirement;
+  task: Task;
+  isInteractable: boolean;
+  onUpdate: (id: string, updates: Partial<Requirement>) => void;
+}
+
+export type RequirementRenderer = React.FC<RequirementRendererProps>;
+
+/**
+ * A requirement type shipped together with the controls RequirementItem renders for it.
+ */
+export interface RequirementPlugin {
+  definition: RequirementTypeDefinition;
+  Renderer?: RequirementRenderer;
+}
+
+const renderers = new Map<string, RequirementRenderer>();
+
+export const registerRequirementRenderer = (type: string, Renderer: RequirementRenderer): void => {
+  renderers.set(type, Renderer);
+};
+
+export const getRequirementRenderer = (type: string): RequirementRenderer | undefined => {
+  return renderers.get(type);
+};
+
+/**
+ * Registers a plugin's engine definition and, if it has one, its renderer.
+ */
+export const registerRequirementPlugin = (plugin: RequirementPlugin): void => {
+  registerRequirementType(plugin.definition);
+  if (plugin.Renderer) registerRequirementRenderer(plugin.definition.type, plugin.Renderer);
+};
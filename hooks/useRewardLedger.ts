@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { RewardLedgerState } from '../types';
+import { RewardLedger } from '../services/rewardLedger';
+
+/**
+ * Subscribes a component to the grants and unlocked achievements of a RewardLedger.
+ */
+export const useRewardLedger = (ledger: RewardLedger): RewardLedgerState => {
+  const subscribe = useCallback((listener: () => void) => ledger.subscribe(listener), [ledger]);
+  const getSnapshot = useCallback(() => ledger.getState(), [ledger]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Task } from '../types';
+import { TaskStore } from '../services/taskStore';
+
+/**
+ * Subscribes a component to the task list of a TaskManager or RemoteTaskManager.
+ */
+export const useTasks = (manager: TaskStore): Task[] => {
+  const subscribe = useCallback((listener: () => void) => manager.subscribe(listener), [manager]);
+  const getSnapshot = useCallback(() => manager.getTasks(), [manager]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
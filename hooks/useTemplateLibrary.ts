@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { TaskTemplate } from '../types';
+import { TemplateLibrary } from '../services/templateLibrary';
+
+/**
+ * Subscribes a component to the latest version of every template in a TemplateLibrary.
+ */
+export const useTemplates = (library: TemplateLibrary): TaskTemplate[] => {
+  const subscribe = useCallback((listener: () => void) => library.subscribe(listener), [library]);
+  const getSnapshot = useCallback(() => library.getTemplates(), [library]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -0,0 +1,14 @@
+import { registerRequirementPlugin } from '../components/requirementRenderers';
+import { timerPlugin } from './timer';
+import { itemCollectPlugin } from './itemCollect';
+import { locationPlugin } from './location';
+import { stringMatchPlugin } from './stringMatch';
+
+export { timerPlugin, itemCollectPlugin, locationPlugin, stringMatchPlugin };
+
+/**
+ * Registers the bundled requirement type plugins with the engine and the UI.
+ */
+export const registerBuiltinPlugins = (): void => {
+  [timerPlugin, itemCollectPlugin, locationPlugin, stringMatchPlugin].forEach(registerRequirementPlugin);
+};
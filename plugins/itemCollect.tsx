@@ -0,0 +1,47 @@
+import React from 'react';
+import { Package, CheckCircle2 } from 'lucide-react';
+import { RequirementPlugin } from '../components/requirementRenderers';
+
+/**
+ * ITEM_COLLECT: collect a set of item ids.
+ * customData: { itemIds: string[], collected?: string[] }
+ */
+export const itemCollectPlugin: RequirementPlugin = {
+  definition: {
+    type: 'ITEM_COLLECT',
+    label: 'Item Collection',
+    description: 'Fulfilled once every id in customData.itemIds has been collected',
+    evaluate: (req) => {
+      const { itemIds = [], collected = [] } = req.customData ?? {};
+      return itemIds.every((id: string) => collected.includes(id));
+    },
+    reset: (req) => ({ ...req, customData: { ...req.customData, collected: [] } }),
+    validate: (req) => {
+      const itemIds = req.customData?.itemIds;
+      return Array.isArray(itemIds) && itemIds.length > 0 ? [] : ['ITEM_COLLECT requirement needs a non-empty customData.itemIds'];
+    }
+  },
+  Renderer: ({ req, isInteractable, onUpdate }) => {
+    const { itemIds = [], collected = [] } = req.customData ?? {};
+
+    return (
+      <div className="flex flex-wrap gap-2">
+        {itemIds.map((itemId: string) => {
+          const isCollected = collected.includes(itemId);
+          return (
+            <button
+              key={itemId}
+              disabled={!isInteractable || isCollected}
+              onClick={() => onUpdate(req.id, { customData: { ...req.customData, collected: [...collected, itemId] } })}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-mono transition-colors ${
+                isCollected ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-50'
+              }`}
+            >
+              {isCollected ? <CheckCircle2 size={12}/> : <Package size={12}/>} {itemId}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { RequirementPlugin } from '../components/requirementRenderers';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle distance between two coordinates in meters (haversine).
+ */
+const distanceInMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * LOCATION: be within a radius of a coordinate.
+ * customData: { latitude: number, longitude: number, radius: number (meters), lastPosition?: { latitude, longitude } }
+ */
+export const locationPlugin: RequirementPlugin = {
+  definition: {
+    type: 'LOCATION',
+    label: 'Location Check-in',
+    description: 'Fulfilled when a reported position lies within customData.radius meters of customData.latitude/longitude',
+    evaluate: (req) => {
+      const { latitude, longitude, radius, lastPosition } = req.customData ?? {};
+      if (!lastPosition) return false;
+      return distanceInMeters(latitude, longitude, lastPosition.latitude, lastPosition.longitude) <= radius;
+    },
+    reset: (req) => ({ ...req, customData: { ...req.customData, lastPosition: undefined } }),
+    validate: (req) => {
+      const { latitude, longitude, radius } = req.customData ?? {};
+      const problems: string[] = [];
+      if (typeof latitude !== 'number' || typeof longitude !== 'number') problems.push('LOCATION requirement needs customData.latitude and customData.longitude');
+      if (typeof radius !== 'number' || radius <= 0) problems.push('LOCATION requirement needs a positive customData.radius');
+      return problems;
+    }
+  },
+  Renderer: ({ req, isInteractable, onUpdate }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const checkIn = () => {
+      setError(null);
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => onUpdate(req.id, {
+          customData: { ...req.customData, lastPosition: { latitude: coords.latitude, longitude: coords.longitude } }
+        }),
+        (e) => setError(e.message)
+      );
+    };
+
+    return (
+      <div className="flex items-center gap-3">
+        <button
+          disabled={!isInteractable}
+          onClick={checkIn}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-50"
+        >
+          <MapPin size={16}/> Check In
+        </button>
+        {req.customData?.lastPosition && !req.isFulfilled && <span className="text-xs text-amber-500">Not there yet</span>}
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+    );
+  }
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { RequirementPlugin } from '../components/requirementRenderers';
+
+/**
+ * STRING_MATCH: enter the expected answer.
+ * customData: { expected: string, caseSensitive?: boolean, input?: string }
+ */
+export const stringMatchPlugin: RequirementPlugin = {
+  definition: {
+    type: 'STRING_MATCH',
+    label: 'Answer',
+    description: 'Fulfilled when the entered text equals customData.expected',
+    evaluate: (req) => {
+      const { expected, caseSensitive, input } = req.customData ?? {};
+      if (typeof input !== 'string') return false;
+      return caseSensitive
+        ? input.trim() === expected
+        : input.trim().toLowerCase() === String(expected).toLowerCase();
+    },
+    reset: (req) => ({ ...req, customData: { ...req.customData, input: undefined } }),
+    validate: (req) => typeof req.customData?.expected === 'string' && req.customData.expected.length > 0
+      ? []
+      : ['STRING_MATCH requirement needs customData.expected']
+  },
+  Renderer: ({ req, isInteractable, onUpdate }) => {
+    const [value, setValue] = useState('');
+    const submit = () => onUpdate(req.id, { customData: { ...req.customData, input: value } });
+
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={value}
+          disabled={!isInteractable}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <button
+          disabled={!isInteractable || !value}
+          onClick={submit}
+          className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs disabled:opacity-50"
+        >
+          Submit
+        </button>
+        {req.customData?.input !== undefined && !req.isFulfilled && <span className="text-xs text-red-400">Incorrect</span>}
+      </div>
+    );
+  }
+};
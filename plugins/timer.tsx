@@ -0,0 +1,46 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { RequirementPlugin } from '../components/requirementRenderers';
+
+/**
+ * TIMER: "hold for N seconds".
+ * customData: { duration: number (seconds), heldSince?: number (task elapsedTime when the hold started) }
+ */
+export const timerPlugin: RequirementPlugin = {
+  definition: {
+    type: 'TIMER',
+    label: 'Hold Timer',
+    description: 'Must be held continuously for customData.duration seconds',
+    // Once the hold has lasted long enough the requirement stays fulfilled, even if released.
+    evaluate: (req, { task }) => {
+      const { duration, heldSince } = req.customData ?? {};
+      if (req.isFulfilled) return true;
+      return typeof heldSince === 'number' && task.elapsedTime - heldSince >= duration;
+    },
+    reset: (req) => ({ ...req, customData: { ...req.customData, heldSince: undefined } }),
+    validate: (req) => {
+      const duration = req.customData?.duration;
+      return typeof duration === 'number' && duration > 0 ? [] : ['TIMER requirement needs a positive customData.duration'];
+    }
+  },
+  Renderer: ({ req, task, isInteractable, onUpdate }) => {
+    const { duration = 0, heldSince } = req.customData ?? {};
+    const isHolding = typeof heldSince === 'number';
+    const held = isHolding ? Math.min(duration, task.elapsedTime - heldSince) : 0;
+
+    return (
+      <div className="flex items-center gap-3">
+        <button
+          disabled={!isInteractable}
+          onClick={() => onUpdate(req.id, { customData: { ...req.customData, heldSince: isHolding ? undefined : task.elapsedTime } })}
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+            isHolding ? 'bg-amber-600 hover:bg-amber-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+          }`}
+        >
+          <Timer size={16}/> {isHolding ? 'Release' : 'Hold'}
+        </button>
+        <span className="text-sm font-mono text-slate-300">{Math.floor(held)}s / {duration}s</span>
+      </div>
+    );
+  }
+};
@@ -0,0 +1,62 @@
+import { parseArgs } from 'node:util';
+import { TaskManager } from '../services/taskManager';
+import { TemplateLibrary } from '../services/templateLibrary';
+import { FileTaskRepository } from '../services/storage/fileRepository';
+import { FileTemplateRepository } from '../services/storage/fileTemplateRepository';
+import { CounterBoard } from '../services/counters';
+import { registerBuiltinPlugins } from '../plugins';
+import { TaskServer } from './taskServer';
+
+const USAGE = `Usage: npm run server -- [options]
+
+Options:
+  --port <port>        Port to listen on (default: $PORT or 8787)
+  --host <host>        Interface to bind (default: 127.0.0.1)
+  --store <path>       Task store (default: $QUESTENGINE_STORE or ./questengine.json)
+  --templates <path>   Template store (default: ./questengine.templates.json)
+  --origin <url>       Browser origin allowed to call the server; repeat for more (default: http://localhost:3000)
+  -h, --help           Show this help`;
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: process.env.PORT ?? '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      store: { type: 'string', default: process.env.QUESTENGINE_STORE ?? 'questengine.json' },
+      templates: { type: 'string', default: 'questengine.templates.json' },
+      origin: { type: 'string', multiple: true, default: ['http://localhost:3000'] },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  registerBuiltinPlugins();
+  // Telemetry posted to /counters feeds requirements bound to a counter. Counters live in memory only.
+  const counters = new CounterBoard();
+  const manager = new TaskManager({ repository: new FileTaskRepository(values.store!), counters });
+  const library = new TemplateLibrary({ repository: new FileTemplateRepository(values.templates!) });
+  await Promise.all([manager.load(), library.load()]);
+  manager.startClock();
+
+  const server = new TaskServer({ manager, library, counters, allowedOrigins: values.origin });
+  const url = await server.listen(Number(values.port), values.host);
+  console.log(`Task server listening on ${url} (${manager.getTasks().length} tasks)`);
+  console.log(`Open the app with ?server=${url} to use it as a client`);
+
+  const shutdown = async () => {
+    manager.stopClock();
+    await server.close();
+    await manager.flush();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
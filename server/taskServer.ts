@@ -0,0 +1,500 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  Requirement, Task, TaskDefinitionChanges, TaskEngineEvent, TaskEngineEventRecord, TaskStreamChange, TaskStreamSnapshot
+} from '../types';
+import { ENGINE_EVENTS, TaskManager } from '../services/taskManager';
+import { TemplateLibrary, validateTemplate } from '../services/templateLibrary';
+import { TaskConflictError, TaskValidationError, validateTask } from '../services/taskValidation';
+import { findRequirement } from '../services/requirementTree';
+import { CounterBoard } from '../services/counters';
+import { ConflictResolution } from '../services/taskBundle';
+
+/**
+ * Serves a TaskManager (and optionally a TemplateLibrary) over HTTP:
+ *
+ *   GET    /tasks                          all tasks
+ *   POST   /tasks                          add a task
+ *   POST   /tasks/import                   { tasks, resolution } -> ImportPlan
+ *   GET    /tasks/:id
+ *   PATCH  /tasks/:id                      change the definition (title, requirements, ...)
+ *   DELETE /tasks/:id
+ *   POST   /tasks/:id/start|pause|reset|undo|redo
+ *   PATCH  /tasks/:id/requirements/:reqId  { currentValue?, isFulfilled?, customData? }, with ?participant=<id> on group quests
+ *   POST   /tasks/:id/requirements/:reqId/increment|decrement  { amount? }, also with ?participant=<id>
+ *   POST   /tasks/:id/requirements/:reqId/set                  { value }
+ *   POST   /tasks/:id/requirements/:reqId/toggle|unfulfill
+ *
+ *   GET    /counters                       every counter, with a CounterBoard
+ *   PUT    /counters/:name                 { value }
+ *   POST   /counters/:name/add             { amount? }
+ *
+ *   GET    /templates                      latest version of every template
+ *   POST   /templates                      save a template (a new version if the id exists)
+ *   GET    /templates/:id                  latest version, or ?version=n
+ *   GET    /templates/:id/versions
+ *   PUT    /templates/:id                  save a new version
+ *   DELETE /templates/:id
+ *   POST   /templates/:id/instantiate      { values?, version? } -> the new task
+ *
+ *   GET    /events                         server-sent events, see below
+ *
+ * The event stream starts with a `snapshot` of all tasks, followed by a `change` for every state
+ * change with the changed tasks, removed ids and engine events, and `templates` whenever the library
+ * changes. Every state change raises the revision. Responses carry the revision after the request
+ * in an X-Task-Revision header, so clients can wait until their stream has caught up.
+ */
+
+export interface TaskServerOptions {
+  manager: TaskManager;
+  library?: TemplateLibrary; // Template routes answer 404 without one
+  counters?: CounterBoard; // Counter routes for telemetry; pass the same board to the manager. They answer 404 without one.
+  keepAliveInterval?: number; // Milliseconds between comments that keep idle streams open. Defaults to 15 seconds.
+  allowedOrigins?: string[]; // Browser origins that may call the server, such as the app's dev server. Defaults to none.
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const DEFINITION_FIELDS: (keyof TaskDefinitionChanges)[] = [
+  'title', 'description', 'requirements', 'timeLimit', 'dueAt', 'warningThresholds', 'failurePolicy', 'recurrence', 'rewards',
+  'participants', 'customData'
+];
+
+const TASK_COMMANDS = ['start', 'pause', 'reset', 'undo', 'redo'] as const;
+
+// Requirement fields that are input; the rest of a requirement belongs to the task's definition
+const INPUT_FIELDS = ['currentValue', 'isFulfilled', 'customData'];
+
+const RESOLUTIONS: ConflictResolution[] = ['SKIP', 'OVERWRITE', 'CLONE'];
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  status: number; // For responses with a body; handlers returning undefined answer 204
+  handler: (params: Record<string, string>, body: unknown, query: URLSearchParams) => unknown;
+}
+
+// Sent only to allowed origins, with the origin echoed in Access-Control-Allow-Origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'X-Task-Revision'
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const optionalNumber = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  if (!isFiniteNumber(value)) throw new HttpError(400, `${name} must be a number`);
+  return value;
+};
+
+const optionalParameterValues = (value: unknown): Record<string, number | string> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !Object.values(value).every(v => isFiniteNumber(v) || typeof v === 'string')) {
+    throw new HttpError(400, 'values must be an object of numbers and strings');
+  }
+  return value as Record<string, number | string>;
+};
+
+// The manager normalizes the task again with its own clock, so missing timestamps follow it
+const requireTask = (body: unknown): Task => {
+  const issues = validateTask(body);
+  if (issues.length > 0) throw new TaskValidationError('task', issues);
+  return body as Task;
+};
+
+const requireRequirementUpdates = (body: unknown): Partial<Requirement> => {
+  if (!isObject(body)) throw new HttpError(400, 'Expected an object of updates');
+  const unknown = Object.keys(body).filter(key => !INPUT_FIELDS.includes(key));
+  if (unknown.length > 0) throw new HttpError(400, `Cannot update ${unknown.join(', ')}`);
+
+  const { currentValue, isFulfilled, customData } = body;
+  const updates: Partial<Requirement> = {};
+  if (currentValue !== undefined) {
+    if (!isFiniteNumber(currentValue)) throw new HttpError(400, 'currentValue must be a number');
+    updates.currentValue = currentValue;
+  }
+  if (isFulfilled !== undefined) {
+    if (typeof isFulfilled !== 'boolean') throw new HttpError(400, 'isFulfilled must be true or false');
+    updates.isFulfilled = isFulfilled;
+  }
+  if (customData !== undefined) {
+    if (!isObject(customData)) throw new HttpError(400, 'customData must be an object');
+    updates.customData = customData;
+  }
+  return updates;
+};
+
+// Requiring JSON keeps other sites from sending simple cross-origin requests, which skip the preflight
+const isResolution = (value: unknown): value is ConflictResolution => RESOLUTIONS.includes(value as ConflictResolution);
+
+// One resolution for every conflict or one per id, as planImport takes it; missing means skip
+const requireResolution = (value: unknown): ConflictResolution | Record<string, ConflictResolution> | undefined => {
+  if (value === undefined) return undefined;
+  if (isResolution(value)) return value;
+  if (isObject(value) && Object.values(value).every(isResolution)) return value as Record<string, ConflictResolution>;
+  throw new HttpError(400, `resolution must be ${RESOLUTIONS.join(', ')} or an object of them by task id`);
+};
+
+const decodeParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${value}`);
+  }
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => {
+  const type = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (type !== 'application/json') return Promise.reject(new HttpError(415, 'Expected Content-Type: application/json'));
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) return resolve(undefined);
+      try {
+        resolve(JSON.parse(text));
+      } catch (e) {
+        reject(new HttpError(400, `Body is not valid JSON: ${(e as Error).message}`));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+/**
+ * HTTP front end for a TaskManager. Use listen() for a standalone server (see server/index.ts),
+ * or pass handleRequest to an existing Node HTTP server.
+ */
+export class TaskServer {
+  private manager: TaskManager;
+  private library?: TemplateLibrary;
+  private counters?: CounterBoard;
+  private keepAliveInterval: number;
+  private allowedOrigins: string[];
+  private routes: Route[] = [];
+  private streams = new Set<ServerResponse>();
+  private revision = 0;
+  private lastTasks: Task[];
+  private pendingEvents: TaskEngineEventRecord[] = [];
+  private detach: (() => void)[];
+  private server: Server | null = null;
+  private stopKeepAlive: (() => void) | null = null;
+
+  constructor(options: TaskServerOptions) {
+    this.manager = options.manager;
+    this.library = options.library;
+    this.counters = options.counters;
+    this.keepAliveInterval = options.keepAliveInterval ?? 15000;
+    this.allowedOrigins = options.allowedOrigins ?? [];
+    this.lastTasks = this.manager.getTasks();
+
+    // Events arrive before the manager notifies subscribers, so they are collected and sent with the change
+    this.detach = (Object.keys(ENGINE_EVENTS) as TaskEngineEvent[]).map(type =>
+      this.manager.on(type, payload => this.pendingEvents.push({ type, payload } as TaskEngineEventRecord))
+    );
+    this.detach.push(this.manager.subscribe(() => this.publishChange()));
+    if (this.library) {
+      const library = this.library;
+      this.detach.push(library.subscribe(() => this.broadcast('templates', library.getTemplates())));
+    }
+
+    this.defineRoutes();
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Starts a standalone server and resolves with its base URL. Port 0 picks a free port.
+   */
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) throw new Error('Task server is already listening');
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+    const timer = setInterval(() => this.streams.forEach(res => res.write(': keep-alive\n\n')), this.keepAliveInterval);
+    this.stopKeepAlive = () => clearInterval(timer);
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        const { address, port } = server.address() as AddressInfo;
+        resolve(`http://${address.includes(':') ? `[${address}]` : address}:${port}`);
+      });
+    });
+  }
+
+  /**
+   * Ends every event stream, stops following the manager and closes the standalone server, if any.
+   */
+  async close(): Promise<void> {
+    this.detach.forEach(unsubscribe => unsubscribe());
+    this.detach = [];
+    this.streams.forEach(res => res.end());
+    this.streams.clear();
+    this.stopKeepAlive?.();
+    this.stopKeepAlive = null;
+
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    if (method === 'OPTIONS') {
+      res.writeHead(204, this.corsHeaders(req)).end();
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/events') {
+      this.openStream(req, res);
+      return;
+    }
+
+    this.dispatch(method, url, req)
+      .then(({ status, body }) => this.send(req, res, status, body))
+      .catch(error => {
+        if (error instanceof TaskValidationError) {
+          this.send(req, res, 400, { error: error.message, issues: error.issues });
+        } else if (error instanceof HttpError) {
+          this.send(req, res, error.status, { error: error.message });
+        } else if (error instanceof TaskConflictError) {
+          this.send(req, res, 409, { error: error.message });
+        } else {
+          console.error("Task server request failed:", error);
+          this.send(req, res, 500, { error: 'Internal server error' });
+        }
+      });
+  }
+
+  // --- Routing ---
+
+  private route(method: string, path: string, handler: Route['handler'], status: number = 200): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, status, handler });
+  }
+
+  private async dispatch(method: string, url: URL, req: IncomingMessage): Promise<{ status: number; body: unknown }> {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeParam(match[i + 1])]));
+      const body = method === 'GET' || method === 'DELETE' ? undefined : await readBody(req);
+      const result = route.handler(params, body, url.searchParams);
+      return { status: result === undefined ? 204 : route.status, body: result };
+    }
+    throw pathMatched ? new HttpError(405, `${method} is not supported here`) : new HttpError(404, `No route for ${url.pathname}`);
+  }
+
+  private defineRoutes(): void {
+    const manager = this.manager;
+
+    this.route('GET', '/tasks', () => manager.getTasks());
+    this.route('POST', '/tasks', (_, body) => manager.addTask(requireTask(body)), 201);
+    this.route('POST', '/tasks/import', (_, body) => {
+      if (!isObject(body) || !Array.isArray(body.tasks)) throw new HttpError(400, 'Expected { tasks, resolution }');
+      return manager.importTasks(body.tasks, requireResolution(body.resolution));
+    });
+    this.route('GET', '/tasks/:id', ({ id }) => this.findTask(id));
+    this.route('PATCH', '/tasks/:id', ({ id }, body) => {
+      this.findTask(id);
+      if (!isObject(body)) throw new HttpError(400, 'Expected an object of changes');
+      const unknown = Object.keys(body).filter(key => !DEFINITION_FIELDS.includes(key as keyof TaskDefinitionChanges));
+      if (unknown.length > 0) throw new HttpError(400, `Cannot change ${unknown.join(', ')}`);
+      return manager.editTask(id, body);
+    });
+    this.route('DELETE', '/tasks/:id', ({ id }) => {
+      this.findTask(id);
+      manager.removeTask(id);
+    });
+    TASK_COMMANDS.forEach(command => {
+      this.route('POST', `/tasks/:id/${command}`, ({ id }) => {
+        this.findTask(id);
+        return manager[command](id);
+      });
+    });
+    this.route('PATCH', '/tasks/:id/requirements/:reqId', ({ id, reqId }, body, query) => {
+      const participantId = this.findInputTarget(id, reqId, query);
+      return manager.updateRequirement(id, reqId, requireRequirementUpdates(body), participantId);
+    });
+    (['increment', 'decrement'] as const).forEach(command => {
+      this.route('POST', `/tasks/:id/requirements/:reqId/${command}`, ({ id, reqId }, body, query) => {
+        const participantId = this.findInputTarget(id, reqId, query);
+        const amount = optionalNumber(isObject(body) ? body.amount : undefined, 'amount');
+        return manager[command](id, reqId, amount, participantId);
+      });
+    });
+    this.route('POST', '/tasks/:id/requirements/:reqId/set', ({ id, reqId }, body, query) => {
+      const participantId = this.findInputTarget(id, reqId, query);
+      if (!isObject(body) || !isFiniteNumber(body.value)) throw new HttpError(400, 'Expected { value }');
+      return manager.setValue(id, reqId, body.value, participantId);
+    });
+    (['toggle', 'unfulfill'] as const).forEach(command => {
+      this.route('POST', `/tasks/:id/requirements/:reqId/${command}`, ({ id, reqId }, _, query) => {
+        return manager[command](id, reqId, this.findInputTarget(id, reqId, query));
+      });
+    });
+
+    this.route('GET', '/counters', () => this.requireCounters().getAll());
+    this.route('PUT', '/counters/:name', ({ name }, body) => {
+      if (!isObject(body) || !isFiniteNumber(body.value)) throw new HttpError(400, 'Expected { value }');
+      this.requireCounters().set(name, body.value);
+      return this.requireCounters().getAll();
+    });
+    this.route('POST', '/counters/:name/add', ({ name }, body) => {
+      const amount = optionalNumber(isObject(body) ? body.amount : undefined, 'amount');
+      this.requireCounters().add(name, amount);
+      return this.requireCounters().getAll();
+    });
+
+    this.route('GET', '/templates', () => this.requireLibrary().getTemplates());
+    this.route('POST', '/templates', (_, body) => this.requireLibrary().save(validateTemplate(body)), 201);
+    this.route('GET', '/templates/:id', ({ id }, _, query) => {
+      const version = query.has('version') ? Number(query.get('version')) : undefined;
+      const template = this.requireLibrary().getTemplate(id, version);
+      if (!template) throw new HttpError(404, `No template "${id}"${version === undefined ? '' : ` version ${version}`}`);
+      return template;
+    });
+    this.route('GET', '/templates/:id/versions', ({ id }) => this.requireLibrary().getVersions(id));
+    this.route('PUT', '/templates/:id', ({ id }, body) => {
+      if (!isObject(body)) throw new HttpError(400, 'Expected a template');
+      return this.requireLibrary().save(validateTemplate({ ...body, id }));
+    });
+    this.route('DELETE', '/templates/:id', ({ id }) => {
+      const library = this.requireLibrary();
+      if (!library.getTemplate(id)) throw new HttpError(404, `No template "${id}"`);
+      library.remove(id);
+    });
+    this.route('POST', '/templates/:id/instantiate', ({ id }, body) => {
+      const fields = isObject(body) ? body : {};
+      const values = optionalParameterValues(fields.values);
+      const version = optionalNumber(fields.version, 'version');
+      const library = this.requireLibrary();
+      if (!library.getTemplate(id, version)) {
+        throw new HttpError(404, `No template "${id}"${version === undefined ? '' : ` version ${version}`}`);
+      }
+      return manager.addTask(library.instantiate(id, values, version));
+    }, 201);
+  }
+
+  private findTask(id: string): Task {
+    const task = this.manager.getTask(id);
+    if (!task) throw new HttpError(404, `No task "${id}"`);
+    return task;
+  }
+
+  /**
+   * Checks that a requirement exists and returns the ?participant=<id> input is from, if any.
+   */
+  private findInputTarget(id: string, reqId: string, query: URLSearchParams): string | undefined {
+    const task = this.findTask(id);
+    if (!findRequirement(task.requirements, reqId)) {
+      throw new HttpError(404, `No requirement "${reqId}" in task "${id}"`);
+    }
+    const participantId = query.get('participant') ?? undefined;
+    if (participantId !== undefined && !task.participants?.some(p => p.id === participantId)) {
+      throw new HttpError(404, `No participant "${participantId}" in task "${id}"`);
+    }
+    return participantId;
+  }
+
+  private requireCounters(): CounterBoard {
+    if (!this.counters) throw new HttpError(404, 'This server has no counters');
+    return this.counters;
+  }
+
+  private requireLibrary(): TemplateLibrary {
+    if (!this.library) throw new HttpError(404, 'This server has no template library');
+    return this.library;
+  }
+
+  private corsHeaders(req: IncomingMessage): Record<string, string> {
+    const origin = req.headers.origin;
+    if (!origin || !this.allowedOrigins.includes(origin)) return { 'Vary': 'Origin' };
+    return { ...CORS_HEADERS, 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' };
+  }
+
+  private send(req: IncomingMessage, res: ServerResponse, status: number, body: unknown): void {
+    const headers = { ...this.corsHeaders(req), 'X-Task-Revision': String(this.revision) };
+    if (status === 204) {
+      res.writeHead(204, headers).end();
+      return;
+    }
+    res.writeHead(status, { ...headers, 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+
+  // --- Event Stream ---
+
+  private openStream(req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, {
+      ...this.corsHeaders(req),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    const snapshot: TaskStreamSnapshot = { revision: this.revision, tasks: this.manager.getTasks() };
+    this.write(res, 'snapshot', snapshot);
+    if (this.library) this.write(res, 'templates', this.library.getTemplates());
+
+    this.streams.add(res);
+    req.on('close', () => this.streams.delete(res));
+  }
+
+  private publishChange(): void {
+    const tasks = this.manager.getTasks();
+    const previous = new Map(this.lastTasks.map(t => [t.id, t]));
+    const ids = new Set(tasks.map(t => t.id));
+    const change: TaskStreamChange = {
+      revision: ++this.revision,
+      tasks: tasks.filter(t => previous.get(t.id) !== t),
+      removed: this.lastTasks.filter(t => !ids.has(t.id)).map(t => t.id),
+      events: this.pendingEvents
+    };
+    this.lastTasks = tasks;
+    this.pendingEvents = [];
+    this.broadcast('change', change);
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    this.streams.forEach(res => this.write(res, event, data));
+  }
+
+  private write(res: ServerResponse, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Source of time for the engine. Injecting it keeps timing testable and lets hosts
+ * (game loops, servers) decide how time advances.
+ */
+export interface Clock {
+  now(): number; // Epoch milliseconds
+  setInterval(callback: () => void, ms: number): () => void; // Returns a cancel function
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => {
+    const handle = setInterval(callback, ms);
+    return () => clearInterval(handle);
+  }
+};
+
+interface VirtualTimer {
+  callback: () => void;
+  interval: number;
+  nextAt: number;
+}
+
+/**
+ * Manually advanced clock for tests and simulations. Intervals fire in order as time is advanced.
+ */
+export class VirtualClock implements Clock {
+  private timers = new Set<VirtualTimer>();
+
+  constructor(private current: number = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  setInterval(callback: () => void, ms: number): () => void {
+    const timer: VirtualTimer = { callback, interval: ms, nextAt: this.current + ms };
+    this.timers.add(timer);
+    return () => {
+      this.timers.delete(timer);
+    };
+  }
+
+  /**
+   * Moves time forward, firing every interval that comes due along the way.
+   */
+  advance(ms: number): void {
+    const target = this.current + ms;
+
+    for (;;) {
+      let due: VirtualTimer | undefined;
+      this.timers.forEach(t => {
+        if (t.nextAt <= target && (!due || t.nextAt < due.nextAt)) due = t;
+      });
+      if (!due) break;
+
+      this.current = due.nextAt;
+      due.nextAt += due.interval;
+      due.callback();
+    }
+
+    this.current = target;
+  }
+}
@@ -0,0 +1,272 @@
+import { Requirement } from '../types';
+
+/**
+ * Condition language used by `Requirement.fulfillWhen` / `Requirement.visibleWhen`.
+ *
+ *   warmup                       -> requirement "warmup" is fulfilled
+ *   pushups.value >= 10          -> currentValue comparison (>, >=, <, <=, ==, !=)
+ *   !a && (b || c)               -> boolean operators and parentheses
+ *   atLeast(2, a, b, c, d)       -> at least N of the listed conditions hold
+ *   true / false                 -> literals
+ *   $elapsed < 600               -> variable comparison, for callers that supply variables (e.g. rewards)
+ *
+ * Identifiers are requirement ids and are resolved across the whole requirement tree.
+ * Variables that are not supplied make their comparison false.
+ */
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: boolean }
+  | { kind: 'fulfilled'; ref: string }
+  | { kind: 'compare'; ref: string; operator: ComparisonOperator; value: number }
+  | { kind: 'variable'; name: string; operator: ComparisonOperator; value: number }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'and' | 'or'; operands: ConditionNode[] }
+  | { kind: 'atLeast'; count: number; operands: ConditionNode[] };
+
+export type RequirementLookup = (id: string) => Requirement | undefined;
+
+export type ConditionVariables = Record<string, number>;
+
+interface Token {
+  type: 'ident' | 'number' | 'variable' | 'op' | 'punct';
+  value: string;
+  pos: number;
+}
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>=', '<=', '==', '!=', '>', '<'];
+
+const tokenize = (expr: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const twoChars = expr.slice(i, i + 2);
+    if (['&&', '||', '>=', '<=', '==', '!='].includes(twoChars)) {
+      tokens.push({ type: 'op', value: twoChars, pos: i });
+      i += 2;
+    } else if (['>', '<', '!'].includes(ch)) {
+      tokens.push({ type: 'op', value: ch, pos: i });
+      i++;
+    } else if (['(', ')', ',', '.'].includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, pos: i });
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(expr[i + 1] ?? ''))) {
+      // Numbers only appear on the right-hand side of comparisons, but ids may start with digits too,
+      // so a run of word characters that is not purely numeric is read as an identifier.
+      const match = /^-?[A-Za-z0-9_-]+(\.[0-9]+)?/.exec(expr.slice(i))!;
+      const isNumber = /^-?[0-9]+(\.[0-9]+)?$/.test(match[0]);
+      tokens.push({ type: isNumber ? 'number' : 'ident', value: match[0], pos: i });
+      i += match[0].length;
+    } else if (ch === '$' && /[A-Za-z_]/.test(expr[i + 1] ?? '')) {
+      const match = /^[A-Za-z0-9_]+/.exec(expr.slice(i + 1))!;
+      tokens.push({ type: 'variable', value: match[0], pos: i });
+      i += match[0].length + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z0-9_-]+/.exec(expr.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+    } else {
+      throw new Error(`Invalid condition "${expr}": unexpected character "${ch}" at position ${i}`);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parses a condition expression into an AST. Throws with the offending position on syntax errors.
+ */
+export const parseCondition = (expr: string): ConditionNode => {
+  const tokens = tokenize(expr);
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const at = tokens[pos]?.pos ?? expr.length;
+    throw new Error(`Invalid condition "${expr}": ${message} at position ${at}`);
+  };
+  const peek = () => tokens[pos];
+  const accept = (value: string) => {
+    if (peek()?.value === value) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail(`expected "${value}"`);
+  };
+
+  const parseOr = (): ConditionNode => {
+    const operands = [parseAnd()];
+    while (accept('||')) operands.push(parseAnd());
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  };
+
+  const parseAnd = (): ConditionNode => {
+    const operands = [parseUnary()];
+    while (accept('&&')) operands.push(parseUnary());
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  };
+
+  const parseUnary = (): ConditionNode => {
+    if (accept('!')) return { kind: 'not', operand: parseUnary() };
+    return parsePrimary();
+  };
+
+  const parseComparison = (): { operator: ComparisonOperator; value: number } => {
+    const opToken = peek();
+    if (!opToken || !COMPARISON_OPERATORS.includes(opToken.value as ComparisonOperator)) {
+      return fail('expected a comparison operator');
+    }
+    pos++;
+    const valueToken = peek();
+    if (valueToken?.type !== 'number') return fail('expected a number');
+    pos++;
+    return { operator: opToken.value as ComparisonOperator, value: Number(valueToken.value) };
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    if (accept('(')) {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+
+    const token = peek();
+    if (token?.type === 'variable') {
+      pos++;
+      return { kind: 'variable', name: token.value, ...parseComparison() };
+    }
+    // Purely numeric ids are valid requirement ids as well
+    if (!token || (token.type !== 'ident' && token.type !== 'number')) return fail('expected a requirement id');
+    pos++;
+
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'literal', value: token.value === 'true' };
+    }
+
+    if (token.value === 'atLeast' && accept('(')) {
+      const countToken = peek();
+      if (countToken?.type !== 'number') return fail('expected a count');
+      pos++;
+      const operands: ConditionNode[] = [];
+      while (accept(',')) operands.push(parseOr());
+      expect(')');
+      return { kind: 'atLeast', count: Number(countToken.value), operands };
+    }
+
+    if (accept('.')) {
+      if (!accept('value')) fail('expected "value"');
+      return { kind: 'compare', ref: token.value, ...parseComparison() };
+    }
+
+    return { kind: 'fulfilled', ref: token.value };
+  };
+
+  const node = parseOr();
+  if (pos < tokens.length) fail(`unexpected "${tokens[pos].value}"`);
+  return node;
+};
+
+// Conditions come from task definitions, so a board uses a small set of them; the least recently used go first
+const PARSED_CACHE_SIZE = 500;
+const parsedCache = new Map<string, ConditionNode | Error>();
+
+/**
+ * Cached variant of parseCondition for the evaluation hot path. Returns an Error instead of throwing.
+ */
+const parseCached = (expr: string): ConditionNode | Error => {
+  let parsed = parsedCache.get(expr);
+  if (parsed === undefined) {
+    try {
+      parsed = parseCondition(expr);
+    } catch (e) {
+      parsed = e as Error;
+    }
+    if (parsedCache.size >= PARSED_CACHE_SIZE) parsedCache.delete(parsedCache.keys().next().value!);
+  } else {
+    parsedCache.delete(expr); // Maps keep insertion order, so this moves it to the most recent end
+  }
+  parsedCache.set(expr, parsed);
+  return parsed;
+};
+
+const compare = (left: number, operator: ComparisonOperator, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+};
+
+export const evaluateConditionNode = (node: ConditionNode, lookup: RequirementLookup, variables: ConditionVariables = {}): boolean => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'fulfilled':
+      return !!lookup(node.ref)?.isFulfilled;
+    case 'compare': {
+      const req = lookup(node.ref);
+      return !!req && compare(req.currentValue ?? 0, node.operator, node.value);
+    }
+    case 'variable':
+      return node.name in variables && compare(variables[node.name], node.operator, node.value);
+    case 'not':
+      return !evaluateConditionNode(node.operand, lookup, variables);
+    case 'and':
+      return node.operands.every(o => evaluateConditionNode(o, lookup, variables));
+    case 'or':
+      return node.operands.some(o => evaluateConditionNode(o, lookup, variables));
+    case 'atLeast':
+      return node.operands.filter(o => evaluateConditionNode(o, lookup, variables)).length >= node.count;
+  }
+};
+
+/**
+ * Evaluates a condition expression. Invalid expressions never hold; use parseCondition to surface the error.
+ */
+export const evaluateCondition = (expr: string, lookup: RequirementLookup, variables?: ConditionVariables): boolean => {
+  const node = parseCached(expr);
+  if (node instanceof Error) return false;
+  return evaluateConditionNode(node, lookup, variables);
+};
+
+const collectNodes = (expr: string, predicate: (n: ConditionNode) => string | undefined): string[] => {
+  const node = parseCached(expr);
+  if (node instanceof Error) return [];
+
+  const found = new Set<string>();
+  const visit = (n: ConditionNode) => {
+    const value = predicate(n);
+    if (value !== undefined) found.add(value);
+    if (n.kind === 'not') visit(n.operand);
+    else if (n.kind === 'and' || n.kind === 'or' || n.kind === 'atLeast') n.operands.forEach(visit);
+  };
+  visit(node);
+  return [...found];
+};
+
+/**
+ * Lists the requirement ids an expression refers to.
+ */
+export const getConditionRefs = (expr: string): string[] => {
+  return collectNodes(expr, n => n.kind === 'fulfilled' || n.kind === 'compare' ? n.ref : undefined);
+};
+
+/**
+ * Lists the variable names (without "$") an expression uses.
+ */
+export const getConditionVariables = (expr: string): string[] => {
+  return collectNodes(expr, n => n.kind === 'variable' ? n.name : undefined);
+};
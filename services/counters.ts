@@ -0,0 +1,113 @@
+import { Task, Requirement, RequirementType, TaskStatus, CounterBinding } from '../types';
+import { findRequirement } from './requirementTree';
+import { recordAction } from './taskHistory';
+
+/**
+ * Bound requirements. A NUMERIC requirement with a `binding` takes its currentValue from outside while its
+ * task runs, instead of from input:
+ *
+ *   { type: 'COUNTER', counter: 'wolves_slain' }                         a counter of the manager's CounterSource
+ *   { type: 'REQUIREMENT', taskId: 'gather', requirementId: 'herbs' }    another task's counter, or 1/0 for
+ *                                                                        whether any other requirement is fulfilled
+ *
+ * TaskManager checks bindings on every change and whenever its CounterSource reports one. New values are
+ * recorded as COUNTER_SYNC actions, so they show up in the task's history and survive undo.
+ */
+
+export interface CounterSource {
+  get(counter: string): number | undefined; // Undefined for counters that have no value yet
+  subscribe(listener: () => void): () => void; // Called after counters change. Returns an unsubscribe function.
+}
+
+/**
+ * In-memory counters, fed by whoever has the numbers, e.g. `counters.add('wolves_slain')` in a game's event handler.
+ */
+export class CounterBoard implements CounterSource {
+  private values = new Map<string, number>();
+  private listeners = new Set<() => void>();
+
+  constructor(initial: Record<string, number> = {}) {
+    Object.entries(initial).forEach(([counter, value]) => this.values.set(counter, value));
+  }
+
+  get(counter: string): number | undefined {
+    return this.values.get(counter);
+  }
+
+  getAll(): Record<string, number> {
+    return Object.fromEntries(this.values);
+  }
+
+  set(counter: string, value: number): void {
+    if (!Number.isFinite(value)) throw new Error(`Counter "${counter}" must be a finite number, not ${value}`);
+    if (this.values.get(counter) === value) return;
+    this.values.set(counter, value);
+    this.listeners.forEach(listener => listener());
+  }
+
+  add(counter: string, amount: number = 1): void {
+    this.set(counter, (this.values.get(counter) ?? 0) + amount);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Chains of tasks feeding each other settle within this many passes; circular bindings stop here
+const MAX_SYNC_PASSES = 10;
+
+export const describeBinding = (binding: CounterBinding): string => {
+  return binding.type === 'COUNTER' ? `counter "${binding.counter}"` : `${binding.taskId} / ${binding.requirementId}`;
+};
+
+const readBinding = (binding: CounterBinding, tasksById: Map<string, Task>, counters?: CounterSource): number | undefined => {
+  if (binding.type === 'COUNTER') return counters?.get(binding.counter);
+  const task = tasksById.get(binding.taskId);
+  const req = task && findRequirement(task.requirements, binding.requirementId);
+  if (!req) return undefined;
+  return req.type === RequirementType.NUMERIC ? req.currentValue ?? 0 : req.isFulfilled ? 1 : 0;
+};
+
+/**
+ * The values a running task's bound requirements should take, for those that accept input and are out of date.
+ */
+export const resolveBoundValues = (task: Task, tasksById: Map<string, Task>, counters?: CounterSource): Record<string, number> => {
+  const values: Record<string, number> = {};
+  if (task.status !== TaskStatus.RUNNING) return values;
+
+  const visit = (reqs: Requirement[]) => reqs.forEach(req => {
+    if (req.binding && !req.isDisabled && !req.isFailed && !req.isHidden) {
+      const value = readBinding(req.binding, tasksById, counters);
+      if (value !== undefined && value !== (req.currentValue ?? 0)) values[req.id] = value;
+    }
+    if (req.children) visit(req.children);
+  });
+  visit(task.requirements);
+  return values;
+};
+
+/**
+ * Brings every running task's bound requirements up to date, recording a COUNTER_SYNC where values changed.
+ * Returns the same array when nothing did.
+ */
+export const syncBindings = (tasks: Task[], now: number, counters?: CounterSource): Task[] => {
+  let current = tasks;
+  for (let pass = 0; pass < MAX_SYNC_PASSES; pass++) {
+    const tasksById = new Map(current.map(t => [t.id, t]));
+    let changed = false;
+    const next = current.map(task => {
+      const values = resolveBoundValues(task, tasksById, counters);
+      if (Object.keys(values).length === 0) return task;
+      const synced = recordAction(task, { type: 'COUNTER_SYNC', timestamp: now, payload: { values } });
+      changed = changed || synced !== task;
+      return synced;
+    });
+    if (!changed) return current;
+    current = next;
+  }
+  return current;
+};
@@ -0,0 +1,110 @@
+import { Task, TaskStatus, Prerequisite } from '../types';
+
+/**
+ * Collects every task id a prerequisite tree refers to.
+ */
+const collectTaskIds = (prereq: Prerequisite, into: Set<string>): Set<string> => {
+  if (prereq.type === 'TASK_STATUS') {
+    into.add(prereq.taskId);
+  } else {
+    prereq.conditions.forEach(c => collectTaskIds(c, into));
+  }
+  return into;
+};
+
+/**
+ * Returns the ids of all tasks the given task depends on.
+ */
+export const getPrerequisiteTaskIds = (task: Task): string[] => {
+  const ids = new Set<string>();
+  (task.prerequisites ?? []).forEach(p => collectTaskIds(p, ids));
+  return [...ids];
+};
+
+/**
+ * Evaluates a single prerequisite against the current task set.
+ * Prerequisites pointing at unknown tasks are never met.
+ */
+export const isPrerequisiteMet = (prereq: Prerequisite, tasksById: Map<string, Task>): boolean => {
+  switch (prereq.type) {
+    case 'TASK_STATUS':
+      return tasksById.get(prereq.taskId)?.status === prereq.status;
+    case 'ALL_OF':
+      return prereq.conditions.every(c => isPrerequisiteMet(c, tasksById));
+    case 'ANY_OF':
+      return prereq.conditions.some(c => isPrerequisiteMet(c, tasksById));
+  }
+};
+
+export const arePrerequisitesMet = (task: Task, tasksById: Map<string, Task>): boolean => {
+  return (task.prerequisites ?? []).every(p => isPrerequisiteMet(p, tasksById));
+};
+
+/**
+ * Searches the dependency graph for a cycle.
+ * Returns the task ids along the cycle (first id repeated at the end), or null if the graph is acyclic.
+ */
+export const findDependencyCycle = (tasks: Task[]): string[] | null => {
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const onStack = stack.indexOf(id);
+    if (onStack !== -1) return [...stack.slice(onStack), id];
+    if (visited.has(id)) return null;
+
+    visited.add(id);
+    stack.push(id);
+    const task = tasksById.get(id);
+    for (const depId of task ? getPrerequisiteTaskIds(task) : []) {
+      const cycle = visit(depId);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+/**
+ * Moves tasks between IDLE and LOCKED based on their prerequisites and manual lock.
+ * Prerequisites are checked until they are met once: after that a prerequisite that starts over (e.g. a
+ * recurring task's new period) doesn't lock the task again, until the task itself starts a new period.
+ * Tasks that already left IDLE are never re-locked. Unchanged tasks keep their identity.
+ */
+export const resolveTaskLocks = (tasks: Task[], now: number = Date.now()): Task[] => {
+  let current = tasks;
+
+  // Unlocking one task can satisfy a prerequisite on IDLE/LOCKED status elsewhere, so repeat until stable.
+  for (let pass = 0; pass <= tasks.length; pass++) {
+    const tasksById = new Map(current.map(t => [t.id, t]));
+    let changed = false;
+
+    current = current.map(task => {
+      const isWaiting = task.status === TaskStatus.IDLE || task.status === TaskStatus.LOCKED;
+      let next = task;
+      if (isWaiting && task.prerequisites?.length && task.unlockedAt === undefined && arePrerequisitesMet(task, tasksById)) {
+        next = { ...next, unlockedAt: now };
+      }
+      const shouldLock = !!next.isLocked || (!!next.prerequisites?.length && next.unlockedAt === undefined);
+
+      if (shouldLock && next.status === TaskStatus.IDLE) {
+        next = { ...next, status: TaskStatus.LOCKED, updatedAt: now };
+      } else if (!shouldLock && next.status === TaskStatus.LOCKED) {
+        next = { ...next, status: TaskStatus.IDLE, updatedAt: now };
+      }
+      if (next !== task) changed = true;
+      return next;
+    });
+
+    if (!changed) break;
+  }
+
+  return current;
+};
@@ -0,0 +1,52 @@
+import { GoogleGenAI } from "@google/genai";
+import { Task, TaskRefinement, TaskTemplate } from "../../types";
+import { TaskGenerator } from "./taskGenerator";
+import {
+  buildRefineInstruction, buildRefinePrompt, buildResponseSchema, buildSystemInstruction, parseGeneratedTemplate, parseRefinement
+} from "./prompt";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export interface GeminiTaskGeneratorOptions {
+  apiKey: string;
+  model?: string; // Defaults to DEFAULT_GEMINI_MODEL
+}
+
+/**
+ * Generates tasks with Google's Gemini API, constrained to the template schema.
+ */
+export class GeminiTaskGenerator implements TaskGenerator {
+  readonly name: string;
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(options: GeminiTaskGeneratorOptions) {
+    if (!options.apiKey) throw new Error("API Key is missing");
+    this.ai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model ?? DEFAULT_GEMINI_MODEL;
+    this.name = this.model;
+  }
+
+  async generate(prompt: string): Promise<TaskTemplate> {
+    return parseGeneratedTemplate(await this.ask(prompt, buildSystemInstruction(), buildResponseSchema()));
+  }
+
+  async refine(task: Task, instruction: string): Promise<TaskRefinement> {
+    const answer = await this.ask(buildRefinePrompt(task, instruction), buildRefineInstruction(), buildResponseSchema({ summary: true }));
+    return parseRefinement(answer, task, instruction);
+  }
+
+  private async ask(contents: string, systemInstruction: string, responseSchema: object): Promise<string> {
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents,
+        config: { systemInstruction, responseMimeType: "application/json", responseSchema }
+      });
+      return response.text ?? "";
+    } catch (error) {
+      console.error("Gemini Generation Error:", error);
+      throw error;
+    }
+  }
+}
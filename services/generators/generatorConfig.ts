@@ -0,0 +1,58 @@
+import { TaskGenerator } from './taskGenerator';
+import { GeminiTaskGenerator } from './geminiGenerator';
+import { OpenAiTaskGenerator } from './openAiGenerator';
+import { OfflineTaskGenerator } from './offlineGenerator';
+import { RecordedResponses, RecordedTaskGenerator } from './recordedGenerator';
+
+export type GeneratorProvider = 'gemini' | 'openai' | 'offline' | 'recorded';
+
+export const GENERATOR_PROVIDERS: GeneratorProvider[] = ['gemini', 'openai', 'offline', 'recorded'];
+
+export interface GeneratorConfig {
+  provider: GeneratorProvider;
+  model?: string; // gemini and openai. Gemini defaults to gemini-2.5-flash; openai has no default.
+  apiKey?: string; // Required for gemini, optional for openai
+  baseUrl?: string; // openai: the server's API root, defaults to a local Ollama
+  responses?: RecordedResponses; // recorded: the answers to replay
+}
+
+/**
+ * Creates the generator a config selects. Throws when the config is missing what its provider needs.
+ */
+export const createTaskGenerator = (config: GeneratorConfig): TaskGenerator => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) throw new Error('The gemini generator needs an API key (set GEMINI_API_KEY)');
+      return new GeminiTaskGenerator({ apiKey: config.apiKey, model: config.model });
+    case 'openai':
+      if (!config.model) throw new Error('The openai generator needs a model (set QUESTENGINE_MODEL)');
+      return new OpenAiTaskGenerator({ model: config.model, baseUrl: config.baseUrl, apiKey: config.apiKey });
+    case 'offline':
+      return new OfflineTaskGenerator();
+    case 'recorded':
+      if (!config.responses) throw new Error('The recorded generator needs responses to replay');
+      return new RecordedTaskGenerator({ responses: config.responses });
+    default:
+      throw new Error(`Unknown generator "${config.provider}". Use one of: ${GENERATOR_PROVIDERS.join(', ')}`);
+  }
+};
+
+/**
+ * Reads the generator config from the environment:
+ *   QUESTENGINE_GENERATOR  gemini, openai or offline. Defaults to gemini with an API key and offline without one.
+ *   QUESTENGINE_MODEL      Model name for gemini or openai
+ *   GEMINI_API_KEY         Gemini's API key (API_KEY also works)
+ *   OPENAI_BASE_URL        API root of an OpenAI-compatible server
+ *   OPENAI_API_KEY         Its key, if it needs one. Not available in the browser build.
+ * Every variable is spelled out, so Vite can substitute them in the browser build (see vite.config.ts).
+ * Empty values count as unset. A provider passed in wins over QUESTENGINE_GENERATOR.
+ */
+export const generatorConfigFromEnv = (provider?: GeneratorProvider): GeneratorConfig => {
+  const geminiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || undefined;
+  provider = provider || (process.env.QUESTENGINE_GENERATOR || (geminiKey ? 'gemini' : 'offline')) as GeneratorProvider;
+  const model = process.env.QUESTENGINE_MODEL || undefined;
+  if (provider === 'openai') {
+    return { provider, model, baseUrl: process.env.OPENAI_BASE_URL || undefined, apiKey: process.env.OPENAI_API_KEY || undefined };
+  }
+  return { provider, model, apiKey: provider === 'gemini' ? geminiKey : undefined };
+};
@@ -0,0 +1,268 @@
+import { Requirement, RequirementType, Task, TaskRefinement, TaskTemplate } from '../../types';
+import { normalizeTemplate } from '../taskValidation';
+import { createRefinement } from '../taskRefinement';
+import { removeRequirement, updateRequirementById } from '../requirementTree';
+import { TaskGenerator } from './taskGenerator';
+
+/**
+ * Builds tasks from prompts with a handful of patterns, without a model or a network. The same prompt always
+ * gives the same task, which makes it the fallback when no API key is configured and a stable generator in tests.
+ *
+ *   "Morning workout: 20 pushups, 30 situps and either run 2 km or swim 10 laps, optionally stretch, in 30 minutes"
+ *
+ * - "Title: steps" names the task; otherwise the prompt is the title
+ * - Steps are split on commas, semicolons, "and" and "then"
+ * - A number makes a counter: "20 pushups" counts to 20, "collect 5 herbs and 3 stones" to 5 and 3
+ * - "x or y" (with or without "either") makes an XOR choice
+ * - "optionally x", "bonus: x" or "x (optional)" makes an optional step
+ * - "don't x", "never x" or "avoid x" makes a fail condition
+ * - "in/within/under 30 minutes" sets the time limit
+ *
+ * Refinements understand "add <steps>", "remove <step>", "make <step> optional/required", "set <step> to <n>"
+ * and "add a 20 minute limit" / "remove the time limit", joined by "and", "then", commas or semicolons.
+ * Steps are found by title (or id). Anything else is an error rather than a guess.
+ */
+
+const DURATION = /(\d+(?:\.\d+)?)[\s-]*(seconds?|secs?|minutes?|mins?|hours?|hrs?|[smh])\b/i;
+const TIME_LIMIT = new RegExp(`\\b(?:in|within|under)\\s+${DURATION.source}`, 'i');
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+const STEP_SEPARATOR = /\s*(?:[,;\n]|\.(?!\d)|\bthen\b|\band\b)\s*/i;
+const FILLER = /^(?:and|then|also|finally|first|do|complete)\s+/i;
+const INTRO = /^(?:(?:an?|the|my)\s+[\w\s-]*?\s+to|i (?:want|need) to|please)\s+/i; // "A fetch quest to collect ..."
+const OPTIONAL = /^(?:an?\s+)?(?:optionally|optional:?|bonus:?)\s+|\s*\((?:optional|bonus)\)$/i;
+const FAIL = /^(?:don'?t|do not|never|avoid)\s+/i;
+const XOR = /^either\s+|\s+or\s+/i;
+const LEADING_NUMBER = /^(\d+(?:\.\d+)?)\s+(.+)$/;
+const NUMBER = /\b(\d+(?:\.\d+)?)\b/;
+const TITLE_LENGTH = 60;
+const XP_PER_STEP = 10;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const truncate = (text: string): string => {
+  if (text.length <= TITLE_LENGTH) return text;
+  const cut = text.slice(0, TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : TITLE_LENGTH)}…`;
+};
+
+const toSeconds = (match: RegExpExecArray): number => Math.round(Number(match[1]) * UNIT_SECONDS[match[2][0].toLowerCase()]);
+
+const parseTimeLimit = (text: string): { timeLimit?: number; rest: string } => {
+  const match = TIME_LIMIT.exec(text);
+  if (!match) return { rest: text };
+  return { timeLimit: toSeconds(match), rest: text.replace(match[0], '') };
+};
+
+const stripFillers = (text: string): string => {
+  let stripped = text.trim();
+  while (FILLER.test(stripped)) stripped = stripped.replace(FILLER, '');
+  return stripped;
+};
+
+/**
+ * Gives every requirement a short readable id, so conditions and the CLI can refer to it.
+ */
+class IdAllocator {
+  constructor(private used: Set<string> = new Set()) {}
+
+  next(title: string): string {
+    const base = title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').slice(0, 3).join('-') || 'step';
+    let id = base;
+    for (let n = 2; this.used.has(id); n++) id = `${base}-${n}`;
+    this.used.add(id);
+    return id;
+  }
+}
+
+interface StepContext {
+  ids: IdAllocator;
+  xorGroups: Set<string>; // Taken XOR group names
+  verb?: string; // "collect" in "collect 5 herbs and 3 stones", carried over to "3 stones"
+}
+
+const nextXorGroup = (context: StepContext): string => {
+  let n = 1;
+  while (context.xorGroups.has(`choice-${n}`)) n++;
+  context.xorGroups.add(`choice-${n}`);
+  return `choice-${n}`;
+};
+
+const toRequirement = (text: string, context: StepContext): Requirement => {
+  const leading = LEADING_NUMBER.exec(text);
+  if (leading && context.verb) text = `${context.verb} ${text}`;
+
+  const number = NUMBER.exec(text);
+  if (!number) {
+    context.verb = undefined;
+    const title = capitalize(text);
+    return { id: context.ids.next(title), title, type: RequirementType.BOOLEAN, isFulfilled: false };
+  }
+
+  // Only a leading number is dropped from the title; "Run 2 km" reads wrong without it
+  if (!leading) context.verb = text.slice(0, number.index).trim() || undefined;
+  const title = capitalize(leading && !context.verb ? leading[2] : text);
+  return {
+    id: context.ids.next(title),
+    title,
+    type: RequirementType.NUMERIC,
+    targetValue: Number(number[1]),
+    currentValue: 0,
+    isFulfilled: false
+  };
+};
+
+const toRequirements = (step: string, context: StepContext): Requirement[] => {
+  const isOptional = OPTIONAL.test(step);
+  const isFailCondition = FAIL.test(step);
+  const text = stripFillers(step.replace(INTRO, '').replace(OPTIONAL, '').replace(FAIL, ''));
+  if (!text) return [];
+
+  const options = text.split(XOR).map(stripFillers).filter(Boolean);
+  const flags = { ...(isOptional ? { isOptional } : {}), ...(isFailCondition ? { isFailCondition } : {}) };
+  if (options.length < 2) return [{ ...toRequirement(options[0] ?? text, context), ...flags }];
+
+  const xorGroup = nextXorGroup(context);
+  return options.map(option => ({ ...toRequirement(option, context), ...flags, xorGroup }));
+};
+
+export const generateOfflineTemplate = (prompt: string): TaskTemplate => {
+  const { timeLimit, rest } = parseTimeLimit(prompt.trim().replace(/\s+/g, ' '));
+  const colon = rest.indexOf(':');
+  const hasHeading = colon > 0 && rest.slice(0, colon).trim().split(' ').length <= 6;
+  const body = (hasHeading ? rest.slice(colon + 1) : rest).trim();
+  const title = truncate(capitalize((hasHeading ? rest.slice(0, colon) : body).trim())) || 'New Quest';
+
+  const context: StepContext = { ids: new IdAllocator(), xorGroups: new Set() };
+  const requirements = body.split(STEP_SEPARATOR).flatMap(step => toRequirements(step, context));
+  if (requirements.length === 0) {
+    requirements.push({ id: 'done', title, type: RequirementType.BOOLEAN, isFulfilled: false });
+  }
+
+  // An XOR choice counts once towards the reward, like a single step
+  const required = requirements.filter(r => !r.isOptional && !r.isFailCondition);
+  const steps = required.filter(r => !r.xorGroup).length + new Set(required.map(r => r.xorGroup).filter(Boolean)).size;
+
+  return normalizeTemplate({
+    title,
+    description: prompt.trim(),
+    requirements,
+    ...(timeLimit ? { timeLimit } : {}),
+    rewards: [{ id: 'completion', label: 'Quest complete', xp: XP_PER_STEP * Math.max(1, steps) }]
+  });
+};
+
+// --- Refinement ---
+
+const CLAUSE_SEPARATOR = /\s*(?:[;.]|,|\band\b|\bthen\b)\s*(?=(?:add|remove|drop|delete|make|set|no)\b)/i;
+const ADD = /^add\s+/i;
+const REMOVE = /^(?:remove|drop|delete)\s+(?:the\s+)?(.+)$/i;
+const MAKE = /^make\s+(?:the\s+)?(.+?)\s+(optional|required|mandatory)$/i;
+const SET = /^set\s+(?:the\s+)?(.+?)\s+to\s+(\d+(?:\.\d+)?)$/i;
+const LIMIT = /\blimit\b/i;
+const NO_LIMIT = /^(?:no|remove|drop|delete)\b/i;
+const UNDERSTOOD = 'add, remove, make ... optional or required, set ... to <number> and time limits';
+
+const flattenTree = (reqs: Requirement[]): Requirement[] => reqs.flatMap(req => [req, ...flattenTree(req.children ?? [])]);
+
+const findStep = (reqs: Requirement[], name: string): Requirement => {
+  const wanted = name.trim().toLowerCase();
+  const all = flattenTree(reqs);
+  const matches = [
+    all.filter(req => req.title.toLowerCase() === wanted || req.id === name.trim()),
+    all.filter(req => req.title.toLowerCase().includes(wanted))
+  ].find(found => found.length > 0) ?? [];
+  if (matches.length === 0) throw new Error(`No requirement matches "${name}"`);
+  if (matches.length > 1) throw new Error(`"${name}" matches several requirements: ${matches.map(r => r.title).join(', ')}`);
+  return matches[0];
+};
+
+// Removing one side of a two-way choice leaves a plain step
+const dropLoneXorGroups = (reqs: Requirement[]): Requirement[] => {
+  const counts = new Map<string, number>();
+  flattenTree(reqs).forEach(req => req.xorGroup && counts.set(req.xorGroup, (counts.get(req.xorGroup) ?? 0) + 1));
+  const clean = (list: Requirement[]): Requirement[] => list.map(req => {
+    const { xorGroup, ...rest } = req;
+    const next = xorGroup && counts.get(xorGroup) === 1 ? rest : req;
+    return next.children ? { ...next, children: clean(next.children) } : next;
+  });
+  return clean(reqs);
+};
+
+const formatMinutes = (seconds: number): string => seconds % 60 === 0 ? `${seconds / 60} minutes` : `${seconds} seconds`;
+
+// Sets or clears the time limit of a revised definition and describes what it did
+const setTimeLimit = (revised: { timeLimit?: number }, clause: string): string => {
+  if (NO_LIMIT.test(clause)) {
+    revised.timeLimit = undefined;
+    return 'Removed the time limit.';
+  }
+  const match = DURATION.exec(clause);
+  if (!match) throw new Error(`"${clause}" doesn't say how long the limit is`);
+  revised.timeLimit = toSeconds(match);
+  return `Set the time limit to ${formatMinutes(revised.timeLimit)}.`;
+};
+
+export const refineOffline = (task: Task, instruction: string): TaskRefinement => {
+  const { title, description, requirements, timeLimit, warningThresholds, failurePolicy, recurrence, rewards } = task;
+  const revised: TaskTemplate = { title, description, requirements, timeLimit, warningThresholds, failurePolicy, recurrence, rewards };
+  const all = flattenTree(task.requirements);
+  const context: StepContext = {
+    ids: new IdAllocator(new Set(all.map(req => req.id))),
+    xorGroups: new Set(all.map(req => req.xorGroup).filter((group): group is string => !!group))
+  };
+  const done: string[] = [];
+
+  for (const raw of instruction.trim().replace(/\s+/g, ' ').split(CLAUSE_SEPARATOR)) {
+    const clause = raw.trim().replace(/[.,;]+$/, '');
+    if (!clause) continue;
+    let match: RegExpExecArray | null;
+
+    if (ADD.test(clause)) {
+      // "add a stretch and a 20 minute limit" adds steps and sets the limit
+      const steps = clause.replace(ADD, '').split(STEP_SEPARATOR);
+      steps.filter(step => LIMIT.test(step)).forEach(step => done.push(setTimeLimit(revised, step)));
+      const added = steps.filter(step => !LIMIT.test(step)).flatMap(step => toRequirements(step, context));
+      if (added.length > 0) {
+        revised.requirements = [...revised.requirements, ...added];
+        done.push(`Added ${added.map(req => req.title).join(', ')}.`);
+      } else if (!steps.some(step => LIMIT.test(step))) {
+        throw new Error(`"${clause}" doesn't name anything to add`);
+      }
+    } else if (LIMIT.test(clause)) {
+      done.push(setTimeLimit(revised, clause));
+    } else if ((match = REMOVE.exec(clause))) {
+      const req = findStep(revised.requirements, match[1]);
+      revised.requirements = removeRequirement(revised.requirements, req.id);
+      done.push(`Removed ${req.title}.`);
+    } else if ((match = MAKE.exec(clause))) {
+      const req = findStep(revised.requirements, match[1]);
+      const isOptional = match[2].toLowerCase() === 'optional';
+      revised.requirements = updateRequirementById(revised.requirements, req.id, r => ({ ...r, isOptional }));
+      done.push(`Made ${req.title} ${isOptional ? 'optional' : 'required'}.`);
+    } else if ((match = SET.exec(clause))) {
+      const req = findStep(revised.requirements, match[1]);
+      if (req.type !== RequirementType.NUMERIC) throw new Error(`"${req.title}" is not a counter`);
+      const targetValue = Number(match[2]);
+      revised.requirements = updateRequirementById(revised.requirements, req.id, r => ({ ...r, targetValue }));
+      done.push(`Set ${req.title} to ${targetValue}.`);
+    } else {
+      throw new Error(`The offline generator doesn't understand "${clause}". It knows ${UNDERSTOOD}.`);
+    }
+  }
+
+  if (done.length === 0) throw new Error(`The offline generator found nothing to do. It knows ${UNDERSTOOD}.`);
+  revised.requirements = dropLoneXorGroups(revised.requirements);
+  return createRefinement(task, normalizeTemplate(revised), instruction, done.join(' '));
+};
+
+export class OfflineTaskGenerator implements TaskGenerator {
+  readonly name = 'offline';
+
+  async generate(prompt: string): Promise<TaskTemplate> {
+    return generateOfflineTemplate(prompt);
+  }
+
+  async refine(task: Task, instruction: string): Promise<TaskRefinement> {
+    return refineOffline(task, instruction);
+  }
+}
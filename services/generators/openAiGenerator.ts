@@ -0,0 +1,71 @@
+import { Task, TaskRefinement, TaskTemplate } from '../../types';
+import { TaskGenerator } from './taskGenerator';
+import {
+  buildRefineInstruction, buildRefinePrompt, buildResponseSchema, buildSystemInstruction, parseGeneratedTemplate, parseRefinement,
+  toJsonSchema
+} from './prompt';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp, LM Studio and vLLM serve the same API on their own ports
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export interface OpenAiTaskGeneratorOptions {
+  model: string;
+  baseUrl?: string; // Up to and including the version, e.g. "http://localhost:8080/v1". Defaults to DEFAULT_OPENAI_BASE_URL.
+  apiKey?: string; // Local servers usually don't need one
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+
+/**
+ * Generates tasks through any server that speaks the OpenAI chat completions API, such as a local model.
+ * The answer is constrained with a JSON schema response format where the server supports it.
+ */
+export class OpenAiTaskGenerator implements TaskGenerator {
+  readonly name: string;
+  private baseUrl: string;
+  private fetch: typeof fetch;
+
+  constructor(private options: OpenAiTaskGeneratorOptions) {
+    if (!options.model) throw new Error('A model is required for an OpenAI-compatible generator');
+    this.baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.name = options.model;
+  }
+
+  async generate(prompt: string): Promise<TaskTemplate> {
+    return parseGeneratedTemplate(await this.ask(prompt, buildSystemInstruction(), buildResponseSchema()));
+  }
+
+  async refine(task: Task, instruction: string): Promise<TaskRefinement> {
+    const answer = await this.ask(buildRefinePrompt(task, instruction), buildRefineInstruction(), buildResponseSchema({ summary: true }));
+    return parseRefinement(answer, task, instruction);
+  }
+
+  private async ask(prompt: string, systemInstruction: string, schema: object): Promise<string> {
+    const response = await this.fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'task_template', schema: toJsonSchema(schema) }
+        }
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`${this.baseUrl} answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error(`${this.baseUrl} sent no message content`);
+    return content;
+  }
+}
@@ -0,0 +1,328 @@
+import { Type } from "@google/genai";
+import { Requirement, RequirementType, Reward, Task, TaskRefinement, TaskTemplate } from "../../types";
+import { listRequirementTypes } from "../requirementRegistry";
+import { TaskValidationError, ValidationIssue, normalizeTemplate } from "../taskValidation";
+import { REFINABLE_FIELDS, createRefinement, isStateField } from "../taskRefinement";
+
+const SYSTEM_INSTRUCTION = `
+You are an expert Quest Designer for a Task Management System.
+Your goal is to convert user requests into structured Task JSON objects.
+The system supports:
+- Numeric requirements (count target), optionally with a valueLimit that fails them when exceeded
+- Boolean requirements (checklist)
+- Grouped requirements, nested as deep as needed
+- XOR logic (mutually exclusive options)
+- Optional requirements
+- N-of-M groups (minFulfilled: "any 2 of these 4")
+- Fail conditions (isFailCondition: the quest fails when it is fulfilled, e.g. "take damage 3 times")
+- Progress weights (weight: a step that takes three times as long as its siblings gets weight 3)
+- Time limits in seconds for the quest and for single steps, and a failure policy (fail the task, fail the parent, or retry)
+- Input rules for counters (min, max, step) and counters fed by named outside counters (binding)
+- Recurrence (daily, weekly, cron or a number of repeats)
+- Rewards (xp, items) for the quest and for single steps, optionally with a condition ("when"):
+  "cooldown" for a bonus if an optional step was done, "swim" for the branch chosen, "$elapsed < 600" for a time bonus.
+- Conditions referencing other requirements by id, anywhere in the tree:
+  "a && b.value >= 3", "!a || b", "atLeast(2, a, b, c)".
+  Use fulfillWhen for extra fulfillment conditions and visibleWhen to reveal a requirement later.
+
+Requirements are a flat list. Give every requirement a short unique id. A requirement inside a group names the
+group's id in parentId; top-level requirements have no parentId. Groups come before their children.
+
+Strictly return JSON conforming to the requested schema.
+`;
+
+const REFINE_INSTRUCTION = `
+You will receive an existing quest as JSON and an instruction for changing it.
+Return the complete revised quest in the same format, not only the parts that changed:
+- Change only what the instruction asks for. Copy everything else exactly.
+- Keep the id of every requirement and reward you keep or modify, so their progress is kept.
+- Give new requirements new ids. Leave out the requirements you remove.
+- Put one or two sentences describing your changes in summary.
+`;
+
+const BUILTIN_TYPES: string[] = [RequirementType.BOOLEAN, RequirementType.NUMERIC, RequirementType.GROUP];
+
+/**
+ * Extends the system instruction with the plugin requirement types registered at call time.
+ */
+export const buildSystemInstruction = (): string => {
+  const pluginTypes = listRequirementTypes().filter(d => !BUILTIN_TYPES.includes(d.type));
+  if (pluginTypes.length === 0) return SYSTEM_INSTRUCTION;
+
+  const lines = pluginTypes.map(d => `- ${d.type}: ${d.description ?? d.label}`);
+  return `${SYSTEM_INSTRUCTION}
+Additional requirement types are available. Put their settings in customData as a JSON-encoded string:
+${lines.join("\n")}
+`;
+};
+
+export const buildRefineInstruction = (): string => `${buildSystemInstruction()}${REFINE_INSTRUCTION}`;
+
+const REWARD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, description: "Keep the id of an existing reward" },
+    label: { type: Type.STRING },
+    xp: { type: Type.NUMBER },
+    items: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Item ids" },
+    currency: { type: Type.STRING, description: "JSON-encoded map of currency name to amount, e.g. {\"gold\": 50}" },
+    when: { type: Type.STRING, description: "Condition for bonus rewards (optional)" },
+    on: { type: Type.STRING, enum: ["COMPLETED", "FAILED"], description: "Task rewards only: the outcome that grants it" }
+  }
+};
+
+/**
+ * The shape of a generated template, in Gemini's schema dialect. The schema dialect has no recursion, so
+ * requirements are a flat list linked by parentId (see assembleRequirements). Requirement types are listed
+ * at call time, so registered plugin types can be generated too.
+ */
+export const buildResponseSchema = (options: { summary?: boolean } = {}) => {
+  const requirementTypes = listRequirementTypes().map(d => d.type);
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      ...(options.summary ? { summary: { type: Type.STRING, description: "What was changed, in one or two sentences" } } : {}),
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      timeLimit: { type: Type.NUMBER, description: "Time limit in seconds (optional)" },
+      warningThresholds: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Fractions of the time limit that warn, e.g. [0.5, 0.8]" },
+      failurePolicy: {
+        type: Type.OBJECT,
+        properties: {
+          mode: { type: Type.STRING, enum: ["FAIL_TASK", "FAIL_PARENT", "RETRY"] },
+          maxAttempts: { type: Type.NUMBER, description: "RETRY only" }
+        },
+        required: ["mode"]
+      },
+      recurrence: {
+        type: Type.OBJECT,
+        properties: {
+          mode: { type: Type.STRING, enum: ["RESET", "SPAWN"] },
+          rule: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: ["DAILY", "WEEKLY", "CRON", "COUNT"] },
+              at: { type: Type.STRING, description: "DAILY and WEEKLY: local time HH:MM" },
+              days: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "WEEKLY: 0 = Sunday" },
+              expression: { type: Type.STRING, description: "CRON: minute hour day-of-month month day-of-week" },
+              times: { type: Type.NUMBER, description: "COUNT: how many times to complete it" }
+            },
+            required: ["type"]
+          }
+        },
+        required: ["mode", "rule"]
+      },
+      rewards: { type: Type.ARRAY, items: REWARD_SCHEMA },
+      requirements: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING, description: "Short unique id, used to reference this requirement from conditions and children" },
+            parentId: { type: Type.STRING, description: "Id of the GROUP this requirement belongs to; omit at the top level" },
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            type: { type: Type.STRING, enum: requirementTypes },
+            isOptional: { type: Type.BOOLEAN },
+            isFailCondition: { type: Type.BOOLEAN, description: "Fails the quest when fulfilled instead of completing it" },
+            weight: { type: Type.NUMBER, description: "How much this step counts towards progress relative to its siblings (default 1)" },
+            xorGroup: { type: Type.STRING, description: "Group ID for mutually exclusive items" },
+            xorScope: { type: Type.STRING, enum: ["SHARED", "PARTICIPANT"], description: "Group quests: one choice for the team or one per participant" },
+            fulfillWhen: { type: Type.STRING, description: "Condition expression that must also hold for fulfillment" },
+            visibleWhen: { type: Type.STRING, description: "Condition expression; hidden until it holds" },
+            targetValue: { type: Type.NUMBER, description: "Required for NUMERIC type" },
+            valueLimit: { type: Type.NUMBER, description: "NUMERIC only: fails the requirement once the value goes above it" },
+            timeLimit: { type: Type.NUMBER, description: "Seconds of task time after which this requirement fails (optional)" },
+            deadline: { type: Type.NUMBER, description: "Epoch milliseconds after which this requirement fails; keep existing values" },
+            minFulfilled: { type: Type.NUMBER, description: "GROUP only: number of children that must be fulfilled (N-of-M)" },
+            aggregation: { type: Type.STRING, enum: ["SUM", "ALL", "ANY"], description: "Group quests: how participants' progress combines" },
+            input: {
+              type: Type.OBJECT,
+              description: "NUMERIC only: rules for entering values",
+              properties: {
+                min: { type: Type.NUMBER },
+                max: { type: Type.NUMBER },
+                step: { type: Type.NUMBER, description: "Amount one click adds" },
+                revertible: { type: Type.BOOLEAN, description: "Whether fulfillment can be taken back (default true)" }
+              }
+            },
+            binding: {
+              type: Type.OBJECT,
+              description: "NUMERIC only: takes the value from outside instead of from input",
+              properties: {
+                type: { type: Type.STRING, enum: ["COUNTER", "REQUIREMENT"] },
+                counter: { type: Type.STRING, description: "COUNTER: name of the outside counter" },
+                taskId: { type: Type.STRING, description: "REQUIREMENT: the other task" },
+                requirementId: { type: Type.STRING, description: "REQUIREMENT: the requirement in the other task" }
+              },
+              required: ["type"]
+            },
+            rewards: { type: Type.ARRAY, items: REWARD_SCHEMA },
+            customData: { type: Type.STRING, description: "JSON-encoded settings for plugin requirement types" }
+          },
+          required: ["id", "title", "type"]
+        }
+      }
+    },
+    required: ["title", "description", "requirements"]
+  };
+};
+
+/**
+ * Gemini spells schema types in upper case ("OBJECT"); standard JSON Schema, which OpenAI-style servers expect,
+ * uses lower case. Everything else in the schema carries over as is.
+ */
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (typeof schema !== "object" || schema === null) return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === "type" && typeof value === "string" ? value.toLowerCase() : toJsonSchema(value)
+  ]));
+};
+
+// --- Reading answers ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// Models fill fields they have nothing for with null; the engine expects them to be absent
+const dropNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null).map(([k, v]) => [k, dropNulls(v)]));
+};
+
+// The schema cannot describe free-form objects, so customData and currencies travel as JSON strings
+const decodeJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const decodeRewards = (rewards: unknown): unknown => {
+  if (!Array.isArray(rewards)) return rewards;
+  return rewards.map(r => isObject(r) && r.currency !== undefined ? { ...r, currency: decodeJson(r.currency) } : r);
+};
+
+const decodeRequirement = (r: unknown): unknown => {
+  if (!isObject(r)) return r;
+  const decoded = { ...r };
+  if (r.customData !== undefined) decoded.customData = decodeJson(r.customData);
+  if (decoded.customData === undefined) delete decoded.customData;
+  if (r.rewards !== undefined) decoded.rewards = decodeRewards(r.rewards);
+  if (Array.isArray(r.children)) decoded.children = r.children.map(decodeRequirement);
+  return decoded;
+};
+
+/**
+ * Builds the requirement tree from a flat list linked by parentId. Lists without parentIds, including
+ * answers that nest children directly, pass through unchanged.
+ */
+export const assembleRequirements = (list: unknown[]): unknown[] => {
+  if (!list.some(r => isObject(r) && r.parentId !== undefined)) return list;
+
+  const issues: ValidationIssue[] = [];
+  const entries = list.map((req, i): Record<string, unknown> => {
+    if (isObject(req)) return req;
+    issues.push({ path: `requirements[${i}]`, message: "must be an object" });
+    return {};
+  });
+  const nodes = entries.map(({ parentId, ...req }): Record<string, unknown> => ({ ...req, children: req.children ?? (req.type === RequirementType.GROUP ? [] : undefined) }));
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const roots: Record<string, unknown>[] = [];
+  entries.forEach((req, i) => {
+    const node = nodes[i];
+    if (req.parentId === undefined || req.parentId === "") {
+      roots.push(node);
+      return;
+    }
+    const parent = byId.get(req.parentId);
+    if (!parent || parent === node || !Array.isArray(parent.children)) {
+      issues.push({ path: `requirements[${i}].parentId`, message: `must be the id of a GROUP in the list, not "${req.parentId}"` });
+      return;
+    }
+    parent.children.push(node);
+  });
+
+  // A parent chain that loops never reaches the top level
+  const reachable = new Set<unknown>();
+  const visit = (node: unknown) => {
+    reachable.add(node);
+    if (isObject(node) && Array.isArray(node.children)) node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  list.forEach((req, i) => {
+    if (!reachable.has(nodes[i]) && !issues.some(issue => issue.path === `requirements[${i}].parentId`)) {
+      issues.push({ path: `requirements[${i}].parentId`, message: "is part of a cycle" });
+    }
+  });
+
+  if (issues.length > 0) throw new TaskValidationError("template", issues);
+  return roots.map(({ children, ...node }) => children === undefined ? node : { ...node, children });
+};
+
+const parseAnswer = (text: string): unknown => {
+  try {
+    return dropNulls(JSON.parse(text));
+  } catch {
+    throw new Error(`The generator did not answer with JSON: ${text.slice(0, 200)}`);
+  }
+};
+
+const toTemplate = (answer: unknown): TaskTemplate => {
+  if (!isObject(answer) || !Array.isArray(answer.requirements)) return normalizeTemplate(answer);
+  const { summary, ...template } = answer;
+  return normalizeTemplate({
+    ...template,
+    rewards: decodeRewards(template.rewards),
+    requirements: assembleRequirements(answer.requirements).map(decodeRequirement)
+  });
+};
+
+/**
+ * Turns a model's answer into a validated template. Shared by every model backend and by recorded responses,
+ * so replays go through the same decoding and validation as live answers.
+ */
+export const parseGeneratedTemplate = (text: string): TaskTemplate => toTemplate(parseAnswer(text));
+
+/**
+ * Turns a model's revised version of a task into a refinement of it.
+ */
+export const parseRefinement = (text: string, task: Task, instruction: string): TaskRefinement => {
+  const answer = parseAnswer(text);
+  const summary = isObject(answer) && typeof answer.summary === "string" && answer.summary.trim() ? answer.summary.trim() : undefined;
+  return createRefinement(task, toTemplate(answer), instruction, summary);
+};
+
+// --- Describing tasks ---
+
+const encodeRewards = (rewards: Reward[] | undefined): unknown[] | undefined => {
+  return rewards?.map(r => r.currency === undefined ? r : { ...r, currency: JSON.stringify(r.currency) });
+};
+
+const flattenForPrompt = (reqs: Requirement[], parentId?: string): Record<string, unknown>[] => reqs.flatMap(req => {
+  const { children, customData, rewards, ...rest } = req;
+  const entry: Record<string, unknown> = Object.fromEntries(Object.entries(rest).filter(([key]) => !isStateField(key)));
+  if (parentId !== undefined) entry.parentId = parentId;
+  if (customData !== undefined) entry.customData = JSON.stringify(customData);
+  if (rewards !== undefined) entry.rewards = encodeRewards(rewards);
+  return [entry, ...flattenForPrompt(children ?? [], req.id)];
+});
+
+/**
+ * The prompt for refining a task: its definition in the answer format, without progress, followed by the instruction.
+ */
+export const buildRefinePrompt = (task: Task, instruction: string): string => {
+  const definition: Record<string, unknown> = Object.fromEntries(REFINABLE_FIELDS
+    .filter(field => task[field] !== undefined)
+    .map(field => [field, task[field]]));
+  definition.rewards = encodeRewards(task.rewards);
+  definition.requirements = flattenForPrompt(task.requirements);
+  return `Quest:\n${JSON.stringify(definition, null, 2)}\n\nInstruction: ${instruction}`;
+};
@@ -0,0 +1,78 @@
+import { Task, TaskRefinement, TaskTemplate } from '../../types';
+import { TaskGenerator } from './taskGenerator';
+import { parseGeneratedTemplate, parseRefinement } from './prompt';
+
+/**
+ * Answers by prompt: either the model's raw JSON text or the template object itself.
+ * Kept as plain JSON, so recordings can be checked in next to the code that uses them.
+ */
+export type RecordedResponses = Record<string, string | object>;
+
+// Prompts match regardless of case and spacing, so a recording survives small edits to a fixture
+export const recordingKey = (prompt: string): string => prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Refinements are recorded under the task's title and the instruction
+export const refinementPrompt = (task: Task, instruction: string): string => `Refine "${task.title}": ${instruction}`;
+
+const findResponse = (responses: RecordedResponses, prompt: string): string | object | undefined => {
+  const key = recordingKey(prompt);
+  const match = Object.keys(responses).find(recorded => recordingKey(recorded) === key);
+  return match === undefined ? undefined : responses[match];
+};
+
+export interface RecordedTaskGeneratorOptions {
+  responses: RecordedResponses;
+  fallback?: TaskGenerator; // Asked for prompts without a recording. Without one, they fail.
+}
+
+/**
+ * Replays recorded answers instead of calling a model, so the generator flow can be developed and tested offline.
+ * Answers go through the same decoding and validation as live ones.
+ */
+export class RecordedTaskGenerator implements TaskGenerator {
+  readonly name = 'recorded';
+
+  constructor(private options: RecordedTaskGeneratorOptions) {}
+
+  async generate(prompt: string): Promise<TaskTemplate> {
+    const response = findResponse(this.options.responses, prompt);
+    if (response !== undefined) return parseGeneratedTemplate(typeof response === 'string' ? response : JSON.stringify(response));
+    if (this.options.fallback) return this.options.fallback.generate(prompt);
+    throw new Error(`No recorded response for "${prompt}"`);
+  }
+
+  async refine(task: Task, instruction: string): Promise<TaskRefinement> {
+    const prompt = refinementPrompt(task, instruction);
+    const response = findResponse(this.options.responses, prompt);
+    if (response !== undefined) {
+      return parseRefinement(typeof response === 'string' ? response : JSON.stringify(response), task, instruction);
+    }
+    if (this.options.fallback) return this.options.fallback.refine(task, instruction);
+    throw new Error(`No recorded response for "${prompt}"`);
+  }
+}
+
+/**
+ * Passes prompts through to another generator and keeps what it answered, for replaying later with RecordedTaskGenerator.
+ */
+export class RecordingTaskGenerator implements TaskGenerator {
+  readonly responses: RecordedResponses = {};
+
+  constructor(private generator: TaskGenerator) {}
+
+  get name(): string {
+    return this.generator.name;
+  }
+
+  async generate(prompt: string): Promise<TaskTemplate> {
+    const template = await this.generator.generate(prompt);
+    this.responses[prompt.trim()] = template;
+    return template;
+  }
+
+  async refine(task: Task, instruction: string): Promise<TaskRefinement> {
+    const refinement = await this.generator.refine(task, instruction);
+    this.responses[refinementPrompt(task, instruction.trim())] = { summary: refinement.summary, ...refinement.changes };
+    return refinement;
+  }
+}
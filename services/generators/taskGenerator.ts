@@ -0,0 +1,12 @@
+import { Task, TaskRefinement, TaskTemplate } from '../../types';
+
+/**
+ * Turns a free-text prompt into a task template, or an instruction into a refinement of an existing task.
+ * Implementations return templates that already passed normalizeTemplate, so a malformed answer surfaces as a
+ * TaskValidationError rather than a broken task. Refinements are only proposals; nothing is applied.
+ */
+export interface TaskGenerator {
+  readonly name: string; // Shown next to the generator, e.g. "gemini-2.5-flash" or "offline"
+  generate(prompt: string): Promise<TaskTemplate>;
+  refine(task: Task, instruction: string): Promise<TaskRefinement>; // See services/taskRefinement.ts
+}
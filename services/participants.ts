@@ -0,0 +1,185 @@
+import { Task, Requirement, RequirementType, Participant, ParticipantAggregation, Contribution } from '../types';
+
+/**
+ * Group quests. A task with `participants` records everyone's input on its BOOLEAN and NUMERIC requirements
+ * separately, in `contributions`, and derives the requirement's own value from them by its `aggregation`:
+ *
+ *   SUM  currentValue is the total ("the team collects 100 herbs"). NUMERIC only, and their default.
+ *   ALL  every participant has to meet the requirement on their own ("each member does 20 pushups").
+ *        currentValue is the lowest contribution.
+ *   ANY  one participant meeting it is enough. currentValue is the highest contribution. The BOOLEAN default.
+ *
+ * Conditions, limits, rewards and events then work on the derived value as usual. Requirements whose
+ * value comes from elsewhere (fulfillWhen checkboxes, bound counters, plugin types, groups) stay shared.
+ *
+ * An XOR group with xorScope PARTICIPANT lets everyone choose for themselves: a member is locked for a
+ * participant once they fulfilled another one, and the group counts as done once every participant
+ * fulfilled a member. Such members must be BOOLEAN or NUMERIC requirements without children.
+ */
+
+const clamp = (n: number): number => Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+
+/**
+ * Whether a requirement records contributions per participant on this task.
+ */
+export const isParticipantRequirement = (req: Requirement, task: Task): boolean => {
+  if (!task.participants?.length || req.children || req.binding) return false;
+  return req.type === RequirementType.NUMERIC || (req.type === RequirementType.BOOLEAN && !req.fulfillWhen);
+};
+
+export const getAggregation = (req: Requirement): ParticipantAggregation => {
+  return req.aggregation ?? (req.type === RequirementType.NUMERIC ? 'SUM' : 'ANY');
+};
+
+export const isPerParticipantXor = (req: Requirement, task: Task): boolean => {
+  return !!req.xorGroup && req.xorScope === 'PARTICIPANT' && isParticipantRequirement(req, task);
+};
+
+export const getContribution = (req: Requirement, participantId: string): Contribution => {
+  return req.contributions?.[participantId] ?? {};
+};
+
+/**
+ * Whether a participant meets the requirement on their own, regardless of how it aggregates.
+ */
+export const isFulfilledBy = (req: Requirement, participantId: string): boolean => {
+  const contribution = getContribution(req, participantId);
+  return req.type === RequirementType.NUMERIC
+    ? (contribution.value ?? 0) >= (req.targetValue ?? 1)
+    : !!contribution.isFulfilled;
+};
+
+export const getContributionProgress = (req: Requirement, participantId: string): number => {
+  const contribution = getContribution(req, participantId);
+  return req.type === RequirementType.NUMERIC
+    ? clamp((contribution.value ?? 0) / (req.targetValue ?? 1))
+    : contribution.isFulfilled ? 1 : 0;
+};
+
+const collectPerParticipantXor = (reqs: Requirement[], task: Task, into: Map<string, Requirement[]> = new Map()) => {
+  reqs.forEach(req => {
+    if (isPerParticipantXor(req, task)) {
+      if (!into.has(req.xorGroup!)) into.set(req.xorGroup!, []);
+      into.get(req.xorGroup!)!.push(req);
+    }
+    if (req.children) collectPerParticipantXor(req.children, task, into);
+  });
+  return into;
+};
+
+/**
+ * Every participant's choice in each participant-scoped XOR group: group -> participant id -> requirement id.
+ * A participant has chosen once they fulfilled a member. Should data hold several, the first in the tree counts.
+ */
+export const getXorChoices = (task: Task): Map<string, Map<string, string>> => {
+  const choices = new Map<string, Map<string, string>>();
+  collectPerParticipantXor(task.requirements, task).forEach((members, group) => {
+    const chosen = new Map<string, string>();
+    (task.participants ?? []).forEach(({ id }) => {
+      const member = members.find(m => isFulfilledBy(m, id));
+      if (member) chosen.set(id, member.id);
+    });
+    choices.set(group, chosen);
+  });
+  return choices;
+};
+
+/**
+ * Derives a participant requirement's shared currentValue (NUMERIC) or isFulfilled (BOOLEAN, and members
+ * of participant-scoped XOR groups) from the contributions. The engine applies this before evaluating the type.
+ */
+export const aggregateContributions = (
+  req: Requirement,
+  task: Task,
+  xorChoices: Map<string, Map<string, string>>
+): Partial<Requirement> => {
+  const participants = task.participants ?? [];
+  const values = participants.map(p => getContribution(req, p.id).value ?? 0);
+  const total = values.reduce((sum, v) => sum + v, 0);
+
+  if (isPerParticipantXor(req, task)) {
+    const chosen = xorChoices.get(req.xorGroup!) ?? new Map<string, string>();
+    const everyoneChose = participants.every(p => chosen.has(p.id));
+    const isChosen = participants.some(p => chosen.get(p.id) === req.id);
+    return {
+      ...(req.type === RequirementType.NUMERIC ? { currentValue: total } : {}),
+      isFulfilled: everyoneChose && isChosen
+    };
+  }
+
+  const aggregation = getAggregation(req);
+  if (req.type === RequirementType.NUMERIC) {
+    const currentValue = aggregation === 'SUM' ? total
+      : aggregation === 'ALL' ? Math.min(...values)
+      : Math.max(...values);
+    return { currentValue };
+  }
+  const fulfilledBy = participants.filter(p => isFulfilledBy(req, p.id));
+  return { isFulfilled: aggregation === 'ALL' ? fulfilledBy.length === participants.length : fulfilledBy.length > 0 };
+};
+
+/**
+ * Records an update as a participant's contribution. The shared value is derived from the contributions,
+ * so currentValue and isFulfilled are ignored without a (known) participant, as is input on an XOR
+ * member the participant is locked out of.
+ */
+export const applyContribution = (
+  req: Requirement,
+  task: Task,
+  updates: Partial<Requirement>,
+  participantId?: string
+): Requirement => {
+  const { currentValue, isFulfilled, ...rest } = updates;
+  if (participantId === undefined || !task.participants?.some(p => p.id === participantId)) {
+    return { ...req, ...rest };
+  }
+  if (isPerParticipantXor(req, task)) {
+    const choice = getXorChoices(task).get(req.xorGroup!)?.get(participantId);
+    if (choice !== undefined && choice !== req.id) return req;
+  }
+
+  const contribution: Contribution = { ...getContribution(req, participantId) };
+  if (currentValue !== undefined) contribution.value = currentValue;
+  if (isFulfilled !== undefined) contribution.isFulfilled = isFulfilled;
+  return { ...req, ...rest, contributions: { ...req.contributions, [participantId]: contribution } };
+};
+
+/**
+ * Drops the contributions of anyone not among `participants`, e.g. after someone left the group.
+ */
+export const pruneContributions = (reqs: Requirement[], participants: Participant[] = []): Requirement[] => {
+  const ids = new Set(participants.map(p => p.id));
+  return reqs.map(req => {
+    const contributions = req.contributions
+      ? Object.fromEntries(Object.entries(req.contributions).filter(([id]) => ids.has(id)))
+      : undefined;
+    return {
+      ...req,
+      ...(contributions ? { contributions } : {}),
+      ...(req.children ? { children: pruneContributions(req.children, participants) } : {})
+    };
+  });
+};
+
+/**
+ * Progress of a participant requirement, or undefined for shared ones. ALL averages everyone's own
+ * progress, ANY takes the furthest. A participant-scoped XOR member reports its group: everyone's
+ * furthest progress on any member, averaged.
+ */
+export const getParticipantProgress = (req: Requirement, task: Task): number | undefined => {
+  if (!isParticipantRequirement(req, task)) return undefined;
+  const participants = task.participants!;
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  if (isPerParticipantXor(req, task)) {
+    const members = collectPerParticipantXor(task.requirements, task).get(req.xorGroup!) ?? [req];
+    return average(participants.map(p => Math.max(...members.map(m => getContributionProgress(m, p.id)))));
+  }
+
+  const individual = participants.map(p => getContributionProgress(req, p.id));
+  switch (getAggregation(req)) {
+    case 'SUM': return clamp((req.currentValue ?? 0) / (req.targetValue ?? 1));
+    case 'ALL': return average(individual);
+    case 'ANY': return Math.max(...individual);
+  }
+};
@@ -0,0 +1,141 @@
+import { Task, Requirement, TaskStatus } from '../types';
+import { getRequirementType } from './requirementRegistry';
+import { getParticipantProgress } from './participants';
+
+/**
+ * Progress is a fraction between 0 and 1 that follows the same rules as completion (see areChildrenSatisfied
+ * in taskEngine.ts): optional requirements and fail conditions don't count, an XOR group counts once with
+ * its furthest member, and an N-of-M group counts its N furthest children. Weights let a requirement
+ * count more or less than its siblings. Group quests measure their participant requirements by how they aggregate.
+ */
+
+export interface TaskProgress {
+  progress: number;
+  requirements: Record<string, number>; // Requirement id -> progress, for every requirement in the tree
+  rate?: number; // Progress per second of running time so far
+  estimatedTimeLeft?: number; // Seconds of running time until completion at the current rate
+  onTimeProbability?: number; // Chance (0-1) of completing within timeLimit. Only for tasks with a time limit.
+}
+
+// Spread of the estimated total time, on a log scale, at 50% progress. Shrinks as the task nears completion.
+const ESTIMATE_UNCERTAINTY = 0.5;
+
+interface Unit {
+  progress: number;
+  weight: number;
+}
+
+const clamp = (n: number): number => Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+
+const weightOf = (req: Requirement): number => req.weight ?? 1;
+
+const weightedAverage = (units: Unit[]): number => {
+  const total = units.reduce((sum, u) => sum + u.weight, 0);
+  return total === 0 ? 1 : units.reduce((sum, u) => sum + u.progress * u.weight, 0) / total;
+};
+
+const aggregateChildren = (
+  children: Requirement[],
+  minFulfilled: number | undefined,
+  task: Task,
+  into: Record<string, number>
+): number => {
+  const candidates = children
+    .map(child => ({ child, progress: requirementProgress(child, task, into) }))
+    .filter(({ child }) => !child.isFailCondition);
+
+  if (minFulfilled !== undefined) {
+    if (minFulfilled <= 0) return 1;
+    const best: Unit[] = candidates
+      .filter(({ child }) => !child.isDisabled)
+      .sort((a, b) => b.progress - a.progress)
+      .slice(0, minFulfilled)
+      .map(({ child, progress }) => ({ progress, weight: weightOf(child) }));
+    // Too few enabled children left: the missing ones count as not started
+    while (best.length < minFulfilled) best.push({ progress: 0, weight: 1 });
+    return weightedAverage(best);
+  }
+
+  const units: Unit[] = [];
+  const xorSlots = new Map<string, Unit>();
+  candidates.forEach(({ child, progress }) => {
+    if (child.isOptional) return;
+    if (child.xorGroup) {
+      // Members locked out by a winner elsewhere leave no local slot, as in areChildrenSatisfied
+      if (child.isDisabled) return;
+      const slot = xorSlots.get(child.xorGroup);
+      if (!slot || progress > slot.progress) xorSlots.set(child.xorGroup, { progress, weight: weightOf(child) });
+      return;
+    }
+    units.push({ progress, weight: weightOf(child) });
+  });
+  return weightedAverage([...units, ...xorSlots.values()]);
+};
+
+const requirementProgress = (req: Requirement, task: Task, into: Record<string, number>): number => {
+  const partial = req.children
+    ? aggregateChildren(req.children, req.minFulfilled, task, into)
+    : getParticipantProgress(req, task) ?? getRequirementType(req.type)?.progress?.(req) ?? 0;
+  const progress = req.isFulfilled ? 1 : clamp(partial);
+  into[req.id] = progress;
+  return progress;
+};
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, accurate to about 1e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Extrapolates the progress made so far. The total running time is modelled as log-normal around
+ * elapsed / progress, so the odds of beating the time limit sharpen as the task advances.
+ */
+export const estimateCompletion = (task: Task, progress: number): Omit<TaskProgress, 'progress' | 'requirements'> => {
+  const limit = task.timeLimit || undefined;
+  const elapsed = task.elapsedTime;
+
+  if (task.status === TaskStatus.COMPLETED) {
+    return { estimatedTimeLeft: 0, onTimeProbability: limit === undefined ? undefined : 1 };
+  }
+  if (task.status === TaskStatus.FAILED) {
+    return { onTimeProbability: limit === undefined ? undefined : 0 };
+  }
+  if (progress <= 0 || elapsed <= 0) return {};
+
+  const rate = progress / elapsed;
+  const estimatedTimeLeft = (1 - progress) / rate;
+  if (limit === undefined) return { rate, estimatedTimeLeft };
+  if (elapsed >= limit) return { rate, estimatedTimeLeft, onTimeProbability: 0 };
+
+  const expectedTotal = elapsed / progress;
+  const sigma = ESTIMATE_UNCERTAINTY * Math.sqrt((1 - progress) / progress);
+  const onTimeProbability = sigma === 0
+    ? (expectedTotal <= limit ? 1 : 0)
+    : normalCdf((Math.log(limit) - Math.log(expectedTotal)) / sigma);
+  return { rate, estimatedTimeLeft, onTimeProbability };
+};
+
+const cache = new WeakMap<Task, TaskProgress>();
+
+/**
+ * Computes progress for a task and every requirement in it. Task snapshots are immutable,
+ * so results are cached per snapshot and repeated calls during a render are free.
+ */
+export const getTaskProgress = (task: Task): TaskProgress => {
+  const cached = cache.get(task);
+  if (cached) return cached;
+
+  const requirements: Record<string, number> = {};
+  const aggregate = aggregateChildren(task.requirements, undefined, task, requirements);
+  const progress = task.status === TaskStatus.COMPLETED ? 1 : clamp(aggregate);
+  const result: TaskProgress = { progress, requirements, ...estimateCompletion(task, progress) };
+  cache.set(task, result);
+  return result;
+};
+
+export const getRequirementProgress = (task: Task, requirementId: string): number => {
+  return getTaskProgress(task).requirements[requirementId] ?? 0;
+};
@@ -0,0 +1,324 @@
+import { Task, TaskStatus, RecurrenceRule, OccurrenceRecord } from '../types';
+import { pauseTask, resetTask } from './taskEngine';
+
+/**
+ * Recurring tasks run in periods. When the next period begins, the period that just ended is
+ * recorded in Task.occurrences and the task starts over (RESET) or is archived as a separate
+ * task first (SPAWN).
+ *
+ *   { type: 'DAILY', at: '06:30' }                 -> every day at 06:30
+ *   { type: 'WEEKLY', days: [1, 3, 5], at: '18:00' } -> Monday, Wednesday and Friday at 18:00
+ *   { type: 'CRON', expression: '0 9 1 * *' }       -> 09:00 on the first of every month
+ *   { type: 'COUNT', times: 5 }                     -> again right after each run, until completed 5 times
+ *
+ * Schedules use local time.
+ */
+
+// --- Cron ---
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+];
+
+// Upper bound on search steps, so schedules that never match (e.g. February 30th) end.
+const MAX_CRON_STEPS = 100000;
+
+/**
+ * Parses a five-field cron expression. Fields accept *, numbers, ranges (1-5), lists (1,3) and steps (*\/15).
+ * Throws on invalid expressions.
+ */
+export const parseCron = (expr: string): CronSchedule => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid cron expression "${expr}": ${message}`);
+  };
+
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) fail(`expected ${CRON_FIELDS.length} fields, got ${fields.length}`);
+
+  const parsed = fields.map((field, i) => {
+    const { name, min, max } = CRON_FIELDS[i];
+    const toNumber = (value: string): number => {
+      const n = /^\d+$/.test(value) ? Number(value) : NaN;
+      if (Number.isNaN(n) || n < min || n > max) fail(`invalid ${name} "${value}"`);
+      return n;
+    };
+
+    const values = new Set<number>();
+    field.split(',').forEach(part => {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) fail(`invalid step "${stepText}" in ${name}`);
+
+      let [from, to] = [min, max];
+      if (range !== '*') {
+        const [start, end] = range.split('-');
+        from = toNumber(start);
+        // "5/10" means from 5 to the end of the range, every 10
+        to = end !== undefined ? toNumber(end) : stepText !== undefined ? max : from;
+        if (to < from) fail(`invalid range "${range}" in ${name}`);
+      }
+      for (let v = from; v <= to; v += step) values.add(v);
+    });
+    return { values, isAny: field === '*' };
+  });
+
+  const daysOfWeek = new Set([...parsed[4].values].map(d => d % 7));
+  return {
+    minutes: parsed[0].values,
+    hours: parsed[1].values,
+    daysOfMonth: parsed[2].values,
+    months: parsed[3].values,
+    daysOfWeek,
+    anyDayOfMonth: parsed[2].isAny,
+    anyDayOfWeek: parsed[4].isAny
+  };
+};
+
+/**
+ * Like classic cron, when both day fields are restricted a day matches if either does.
+ */
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+};
+
+/**
+ * Finds the first minute strictly after `after` that matches the schedule, or undefined if there is none.
+ */
+export const nextCronOccurrence = (schedule: CronSchedule, after: number): number | undefined => {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_CRON_STEPS; step++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return undefined;
+};
+
+const cronCache = new Map<string, CronSchedule>();
+
+const parseCronCached = (expr: string): CronSchedule => {
+  if (!cronCache.has(expr)) cronCache.set(expr, parseCron(expr));
+  return cronCache.get(expr)!;
+};
+
+// --- Rules ---
+
+const parseTimeOfDay = (at: string = '00:00'): { hour: number; minute: number } => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(at);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day "${at}", expected HH:MM`);
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+};
+
+/**
+ * Expresses a time-based rule as a cron expression. COUNT rules have no schedule.
+ */
+export const toCronExpression = (rule: RecurrenceRule): string | undefined => {
+  switch (rule.type) {
+    case 'DAILY': {
+      const { hour, minute } = parseTimeOfDay(rule.at);
+      return `${minute} ${hour} * * *`;
+    }
+    case 'WEEKLY': {
+      if (rule.days.length === 0) throw new Error('WEEKLY recurrence needs at least one day');
+      const { hour, minute } = parseTimeOfDay(rule.at);
+      return `${minute} ${hour} * * ${rule.days.join(',')}`;
+    }
+    case 'CRON':
+      return rule.expression;
+    case 'COUNT':
+      return undefined;
+  }
+};
+
+/**
+ * When the first period after `after` begins. Undefined for COUNT rules and schedules that never match.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, after: number): number | undefined => {
+  const expression = toCronExpression(rule);
+  return expression === undefined ? undefined : nextCronOccurrence(parseCronCached(expression), after);
+};
+
+// --- Periods ---
+
+// Periods missed while nothing was running are recorded individually up to this many.
+const MAX_BACKFILLED_PERIODS = 366;
+
+const isFinished = (task: Task): boolean => task.status === TaskStatus.COMPLETED || task.status === TaskStatus.FAILED;
+
+const outcomeOf = (task: Task): OccurrenceRecord['outcome'] => {
+  if (task.status === TaskStatus.COMPLETED) return 'COMPLETED';
+  if (task.status === TaskStatus.FAILED) return 'FAILED';
+  return 'MISSED';
+};
+
+export const getCompletedCount = (task: Task): number => {
+  return (task.occurrences ?? []).filter(o => o.outcome === 'COMPLETED').length;
+};
+
+/**
+ * Whether the task's current period is over and it should start over.
+ */
+export const isPeriodOver = (task: Task, now: number): boolean => {
+  const rule = task.recurrence?.rule;
+  if (!rule || task.periodStart === undefined) return false;
+  if (rule.type === 'COUNT') {
+    const completed = getCompletedCount(task) + (task.status === TaskStatus.COMPLETED ? 1 : 0);
+    return isFinished(task) && completed < rule.times;
+  }
+  return task.nextOccurrenceAt !== undefined && now >= task.nextOccurrenceAt;
+};
+
+/**
+ * Moves a recurring task into its current period. Returns the task itself when nothing changed,
+ * otherwise the task for the new period, followed by the archived instance for SPAWN recurrences.
+ * Throws if the rule is invalid.
+ */
+export const advanceRecurrence = (task: Task, now: number): Task[] => {
+  const recurrence = task.recurrence;
+  if (!recurrence) return [task];
+
+  if (task.periodStart === undefined) {
+    return [{ ...task, periodStart: now, nextOccurrenceAt: getNextOccurrence(recurrence.rule, now) }];
+  }
+  if (!isPeriodOver(task, now)) return [task];
+
+  // The period ended at the scheduled time, even if we only notice later (e.g. after a reload).
+  const periodEnd = task.nextOccurrenceAt ?? now;
+  const settled = task.status === TaskStatus.RUNNING ? pauseTask(task, periodEnd) : task;
+  const records: OccurrenceRecord[] = [{
+    periodStart: task.periodStart,
+    periodEnd,
+    outcome: outcomeOf(settled),
+    elapsedTime: settled.elapsedTime
+  }];
+
+  let periodStart = periodEnd;
+  let nextOccurrenceAt = getNextOccurrence(recurrence.rule, periodStart);
+  while (nextOccurrenceAt !== undefined && nextOccurrenceAt <= now) {
+    if (records.length >= MAX_BACKFILLED_PERIODS) {
+      // Too far behind to list every period; pick the schedule up from now.
+      periodStart = now;
+      nextOccurrenceAt = getNextOccurrence(recurrence.rule, now);
+      break;
+    }
+    records.push({ periodStart, periodEnd: nextOccurrenceAt, outcome: 'MISSED', elapsedTime: 0 });
+    periodStart = nextOccurrenceAt;
+    nextOccurrenceAt = getNextOccurrence(recurrence.rule, periodStart);
+  }
+
+  // The new period starts with a clean action log; undo does not reach into past periods.
+  const fresh: Task = {
+    ...resetTask(task, now),
+    history: undefined,
+    unlockedAt: undefined,
+    periodStart,
+    nextOccurrenceAt,
+    occurrences: [...(task.occurrences ?? []), ...records]
+  };
+
+  const wasStarted = task.status !== TaskStatus.IDLE && task.status !== TaskStatus.LOCKED;
+  if (recurrence.mode !== 'SPAWN' || !wasStarted) return [fresh];
+
+  const archived: Task = {
+    ...settled,
+    id: `${task.id}@${task.periodStart}`,
+    status: isFinished(settled) ? settled.status : TaskStatus.CANCELLED,
+    prerequisites: undefined,
+    recurrence: undefined,
+    periodStart: undefined,
+    nextOccurrenceAt: undefined,
+    occurrences: undefined,
+    recurrenceSourceId: task.id,
+    updatedAt: now
+  };
+  return [fresh, archived];
+};
+
+/**
+ * Advances every recurring task in a list. Archived SPAWN instances are inserted after their task.
+ */
+export const advanceRecurrences = (tasks: Task[], now: number): Task[] => {
+  let changed = false;
+  const next = tasks.flatMap(task => {
+    const advanced = advanceRecurrence(task, now);
+    if (advanced.length !== 1 || advanced[0] !== task) changed = true;
+    return advanced;
+  });
+  return changed ? next : tasks;
+};
+
+// --- Statistics ---
+
+export interface RecurrenceStats {
+  periods: number; // Finished periods, including the current one once it is finished
+  completed: number;
+  completionRate: number; // 0..1, 0 when no period has finished yet
+  currentStreak: number; // Consecutive completed periods up to now
+  bestStreak: number;
+  bestTime?: number; // Fastest completion in seconds
+}
+
+/**
+ * Summarizes a recurring task's occurrence history. The current period counts once it is finished,
+ * so an unfinished period doesn't break the streak.
+ */
+export const getRecurrenceStats = (task: Task): RecurrenceStats => {
+  const outcomes = (task.occurrences ?? []).map(o => ({ outcome: o.outcome, elapsedTime: o.elapsedTime }));
+  if (isFinished(task)) outcomes.push({ outcome: outcomeOf(task), elapsedTime: task.elapsedTime });
+
+  let currentStreak = 0;
+  let bestStreak = 0;
+  let bestTime: number | undefined;
+  outcomes.forEach(({ outcome, elapsedTime }) => {
+    if (outcome === 'COMPLETED') {
+      currentStreak++;
+      bestStreak = Math.max(bestStreak, currentStreak);
+      bestTime = bestTime === undefined ? elapsedTime : Math.min(bestTime, elapsedTime);
+    } else {
+      currentStreak = 0;
+    }
+  });
+
+  const completed = outcomes.filter(o => o.outcome === 'COMPLETED').length;
+  return {
+    periods: outcomes.length,
+    completed,
+    completionRate: outcomes.length > 0 ? completed / outcomes.length : 0,
+    currentStreak,
+    bestStreak,
+    bestTime
+  };
+};
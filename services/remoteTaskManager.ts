@@ -0,0 +1,348 @@
+import {
+  Task, Requirement, TaskDefinitionChanges, TaskEngineEvent, TaskEngineEventMap, TaskEngineEventRecord,
+  TaskStreamChange, TaskStreamSnapshot
+} from '../types';
+import { TaskStore } from './taskStore';
+import { ConflictResolution, ImportPlan, planImport } from './taskBundle';
+import { TaskConflictError, TaskValidationError, normalizeTask } from './taskValidation';
+
+type EventHandler<E extends TaskEngineEvent> = (payload: TaskEngineEventMap[E]) => void;
+type EventHandlers = { [E in TaskEngineEvent]?: Set<EventHandler<E>> };
+
+export interface RemoteTaskManagerOptions {
+  baseUrl: string; // e.g. "http://localhost:8787", see server/taskServer.ts
+  reconnectDelay?: number; // Milliseconds before a dropped event stream is reopened. Defaults to two seconds.
+  fetch?: typeof fetch;
+}
+
+const requirementPath = (id: string, reqId: string, suffix: string, participantId?: string): string => {
+  const query = participantId === undefined ? '' : `?participant=${encodeURIComponent(participantId)}`;
+  return `/tasks/${encodeURIComponent(id)}/requirements/${encodeURIComponent(reqId)}${suffix}${query}`;
+};
+
+/**
+ * Mirrors the tasks of a task server and sends commands to it, so the UI can run as a client.
+ * Commands are validated locally first, so invalid input throws right away as with a TaskManager.
+ * Everything else happens on the server: state and events arrive over its event stream, and
+ * time is driven by the server's clock.
+ */
+export class RemoteTaskManager implements TaskStore {
+  private tasks: Task[] = [];
+  private listeners = new Set<() => void>();
+  private handlers: EventHandlers = {};
+  private baseUrl: string;
+  private reconnectDelay: number;
+  private fetch: typeof fetch;
+  private streamRevision = -1;
+  private acknowledgedRevision = 0;
+  private pendingRequests = new Set<Promise<void>>();
+  private revisionWaiters: { revision: number; resolve: () => void }[] = [];
+  private stream: AbortController | null = null;
+  private connection: Promise<Task[]> | null = null;
+
+  constructor(options: RemoteTaskManagerOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.reconnectDelay = options.reconnectDelay ?? 2000;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // --- Queries ---
+
+  getTasks(): Task[] {
+    return this.tasks;
+  }
+
+  getTask(id: string): Task | undefined {
+    return this.tasks.find(t => t.id === id);
+  }
+
+  // --- Subscriptions ---
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  on<E extends TaskEngineEvent>(event: E, handler: EventHandler<E>): () => void {
+    const byEvent: { [K in E]?: Set<EventHandler<K>> } = this.handlers;
+    const handlers = byEvent[event] ?? new Set<EventHandler<E>>();
+    byEvent[event] = handlers;
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // --- Connection ---
+
+  /**
+   * Opens the event stream and resolves with the server's tasks once the first snapshot arrives.
+   * A stream that drops later is reopened automatically until dispose().
+   */
+  load(): Promise<Task[]> {
+    if (!this.connection) {
+      this.connection = new Promise((resolve, reject) => this.connect(resolve, error => {
+        this.connection = null;
+        reject(error);
+      }));
+    }
+    return this.connection;
+  }
+
+  /**
+   * Resolves once every command still in flight has been answered and its effect has arrived over the
+   * event stream. Rejects if one of them fails.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingRequests);
+    const revision = this.acknowledgedRevision;
+    if (this.streamRevision >= revision) return;
+    await new Promise<void>(resolve => this.revisionWaiters.push({ revision, resolve }));
+  }
+
+  dispose(): void {
+    this.stream?.abort();
+    this.stream = null;
+    this.connection = null;
+    this.listeners.clear();
+    this.handlers = {};
+  }
+
+  // --- Commands ---
+
+  addTask(task: Task): Task {
+    const normalized = normalizeTask(task);
+    if (this.getTask(normalized.id)) {
+      throw new TaskConflictError(`Task with id "${normalized.id}" already exists`);
+    }
+    this.send('POST', '/tasks', normalized);
+    return normalized;
+  }
+
+  /**
+   * Resolves conflicts against the mirrored tasks, then sends the result with resolved ids,
+   * so the returned plan is exactly what the server applies.
+   */
+  importTasks(tasks: Task[], resolution: ConflictResolution | Record<string, ConflictResolution> = 'SKIP'): ImportPlan {
+    const plan = planImport(tasks.map(task => normalizeTask(task)), this.tasks, resolution);
+    this.send('POST', '/tasks/import', { tasks: plan.tasks, resolution: 'OVERWRITE' });
+    return plan;
+  }
+
+  editTask(id: string, changes: TaskDefinitionChanges): void {
+    const task = this.getTask(id);
+    if (!task) return;
+    const { history, ...current } = task;
+    normalizeTask({ ...current, ...changes }); // Throws for invalid edits before anything is sent
+    this.send('PATCH', `/tasks/${encodeURIComponent(id)}`, changes);
+  }
+
+  removeTask(id: string): void {
+    if (!this.getTask(id)) return;
+    this.send('DELETE', `/tasks/${encodeURIComponent(id)}`);
+  }
+
+  start(id: string): void {
+    this.command(id, 'start');
+  }
+
+  pause(id: string): void {
+    this.command(id, 'pause');
+  }
+
+  reset(id: string): void {
+    this.command(id, 'reset');
+  }
+
+  updateRequirement(id: string, reqId: string, updates: Partial<Requirement>, participantId?: string): void {
+    if (!this.getTask(id)) return;
+    this.send('PATCH', requirementPath(id, reqId, '', participantId), updates);
+  }
+
+  increment(id: string, reqId: string, amount?: number, participantId?: string): void {
+    this.requirementCommand(id, reqId, 'increment', participantId, { amount });
+  }
+
+  decrement(id: string, reqId: string, amount?: number, participantId?: string): void {
+    this.requirementCommand(id, reqId, 'decrement', participantId, { amount });
+  }
+
+  setValue(id: string, reqId: string, value: number, participantId?: string): void {
+    this.requirementCommand(id, reqId, 'set', participantId, { value });
+  }
+
+  toggle(id: string, reqId: string, participantId?: string): void {
+    this.requirementCommand(id, reqId, 'toggle', participantId);
+  }
+
+  unfulfill(id: string, reqId: string, participantId?: string): void {
+    this.requirementCommand(id, reqId, 'unfulfill', participantId);
+  }
+
+  undo(id: string): void {
+    this.command(id, 'undo');
+  }
+
+  redo(id: string): void {
+    this.command(id, 'redo');
+  }
+
+  // --- Clock ---
+
+  // The server runs the clock; its ticks arrive over the event stream
+  startClock(): void {}
+
+  stopClock(): void {}
+
+  // --- Internals ---
+
+  private command(id: string, command: 'start' | 'pause' | 'reset' | 'undo' | 'redo'): void {
+    if (!this.getTask(id)) return;
+    this.send('POST', `/tasks/${encodeURIComponent(id)}/${command}`);
+  }
+
+  private requirementCommand(
+    id: string,
+    reqId: string,
+    command: 'increment' | 'decrement' | 'set' | 'toggle' | 'unfulfill',
+    participantId?: string,
+    body?: Record<string, number | undefined>
+  ): void {
+    if (!this.getTask(id)) return;
+    this.send('POST', requirementPath(id, reqId, `/${command}`, participantId), body);
+  }
+
+  /**
+   * Sends a command in the background. Failures are logged, and flush() reports them to callers.
+   */
+  private send(method: string, path: string, body?: unknown): void {
+    const request = this.request(method, path, body);
+    this.pendingRequests.add(request);
+    request
+      .catch(error => {
+        console.error("Remote command failed:", error);
+      })
+      .finally(() => this.pendingRequests.delete(request));
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<void> {
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method,
+      // The server reads a JSON body on every other method, even an empty one
+      headers: method === 'GET' || method === 'DELETE' ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const revision = Number(response.headers.get('X-Task-Revision'));
+    if (Number.isFinite(revision)) this.acknowledgedRevision = Math.max(this.acknowledgedRevision, revision);
+    if (response.ok) return;
+
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    if (Array.isArray(error.issues)) throw new TaskValidationError('request', error.issues);
+    throw new Error(error.error ?? `Request failed with status ${response.status}`);
+  }
+
+  /**
+   * Opens the event stream. `onFailure` is only set for the first connection; later ones keep retrying.
+   */
+  private connect(onSnapshot?: (tasks: Task[]) => void, onFailure?: (error: unknown) => void): void {
+    const controller = new AbortController();
+    this.stream = controller;
+    let connected = false;
+
+    const retry = () => {
+      setTimeout(() => {
+        if (this.stream === controller) this.connect();
+      }, this.reconnectDelay);
+    };
+
+    this.readStream(controller.signal, (event, data) => {
+      if (event === 'snapshot') {
+        this.applySnapshot(data as TaskStreamSnapshot);
+        if (!connected) onSnapshot?.(this.tasks);
+        connected = true;
+      } else if (event === 'change') {
+        this.applyChange(data as TaskStreamChange);
+      }
+    }).then(
+      () => {
+        if (this.stream === controller) retry();
+      },
+      error => {
+        if (controller.signal.aborted || this.stream !== controller) return;
+        if (!connected && onFailure) {
+          this.stream = null;
+          onFailure(error);
+          return;
+        }
+        console.error("Task stream dropped:", error);
+        retry();
+      }
+    );
+  }
+
+  /**
+   * Reads server-sent events from a fetch response, which unlike EventSource also works in Node.
+   */
+  private async readStream(signal: AbortSignal, onMessage: (event: string, data: unknown) => void): Promise<void> {
+    const response = await this.fetch(`${this.baseUrl}/events`, { headers: { Accept: 'text/event-stream' }, signal });
+    if (!response.ok || !response.body) throw new Error(`Event stream failed with status ${response.status}`);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        let event = 'message';
+        const data: string[] = [];
+        block.split('\n').forEach(line => {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data.push(line.slice(6));
+        });
+        if (data.length > 0) onMessage(event, JSON.parse(data.join('\n')));
+      }
+    }
+  }
+
+  private applySnapshot({ revision, tasks }: TaskStreamSnapshot): void {
+    this.tasks = tasks;
+    // A snapshot holds everything, including the effects of earlier commands (even if the server restarted since)
+    this.acknowledgedRevision = Math.min(this.acknowledgedRevision, revision);
+    this.setStreamRevision(revision);
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Applies a change in the same order a TaskManager does: state first, then events, then subscribers.
+   */
+  private applyChange({ revision, tasks, removed, events }: TaskStreamChange): void {
+    const previous = new Set(this.tasks.map(t => t.id));
+    const changed = new Map(tasks.map(t => [t.id, t]));
+    const removedIds = new Set(removed);
+    this.tasks = [
+      ...this.tasks.filter(t => !removedIds.has(t.id)).map(t => changed.get(t.id) ?? t),
+      ...tasks.filter(t => !previous.has(t.id))
+    ];
+    this.setStreamRevision(revision);
+    events.forEach(({ type, payload }: TaskEngineEventRecord) => this.emit(type, payload));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private emit<E extends TaskEngineEvent>(event: E, payload: TaskEngineEventMap[E]): void {
+    this.handlers[event]?.forEach(handler => handler(payload));
+  }
+
+  private setStreamRevision(revision: number): void {
+    this.streamRevision = revision;
+    const ready = this.revisionWaiters.filter(w => w.revision <= revision);
+    this.revisionWaiters = this.revisionWaiters.filter(w => w.revision > revision);
+    ready.forEach(w => w.resolve());
+  }
+}
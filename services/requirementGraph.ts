@@ -0,0 +1,79 @@
+import { Requirement, RequirementType } from '../types';
+import { getConditionRefs } from './conditions';
+
+/**
+ * What each requirement's evaluation depends on besides its own data and its children, so the engine can
+ * re-evaluate only what a change can reach (see evaluateTaskState). Progress never changes the structure a
+ * graph describes, so one graph serves every state of a task until its definition is edited.
+ */
+
+export interface RequirementGraph {
+  paths: Map<string, number[]>; // Child indexes from the top level down to each requirement
+  parents: Map<string, string | null>; // null for top-level requirements
+  xorMembers: Map<string, string[]>; // Every requirement per xorGroup, anywhere in the tree
+  dependents: Map<string, string[]>; // Requirements that read this one: its XOR peers and conditions referring to it
+  volatile: string[]; // Evaluated on every pass: plugin types (they may read anything), time limits and deadlines
+  timed: string[]; // Requirements with a time limit or deadline
+}
+
+// Fields whose change invalidates a graph
+export const STRUCTURAL_FIELDS: (keyof Requirement)[] = [
+  'id', 'type', 'children', 'xorGroup', 'fulfillWhen', 'visibleWhen', 'timeLimit', 'deadline'
+];
+
+const BUILT_IN_TYPES: string[] = [RequirementType.BOOLEAN, RequirementType.NUMERIC, RequirementType.GROUP];
+
+export const buildRequirementGraph = (reqs: Requirement[]): RequirementGraph => {
+  const graph: RequirementGraph = { paths: new Map(), parents: new Map(), xorMembers: new Map(), dependents: new Map(), volatile: [], timed: [] };
+  const addDependent = (id: string, dependent: string) => {
+    if (!graph.dependents.has(id)) graph.dependents.set(id, []);
+    graph.dependents.get(id)!.push(dependent);
+  };
+
+  const visit = (list: Requirement[], parentId: string | null, parentPath: number[]) => list.forEach((req, i) => {
+    const path = [...parentPath, i];
+    graph.paths.set(req.id, path);
+    graph.parents.set(req.id, parentId);
+    if (req.xorGroup) {
+      if (!graph.xorMembers.has(req.xorGroup)) graph.xorMembers.set(req.xorGroup, []);
+      graph.xorMembers.get(req.xorGroup)!.push(req.id);
+    }
+
+    let isVolatile = !BUILT_IN_TYPES.includes(req.type);
+    [req.fulfillWhen, req.visibleWhen].forEach(expr => {
+      if (expr) getConditionRefs(expr).forEach(ref => addDependent(ref, req.id));
+    });
+    if (req.timeLimit !== undefined || req.deadline !== undefined) {
+      graph.timed.push(req.id);
+      isVolatile = true;
+    }
+    if (isVolatile) graph.volatile.push(req.id);
+
+    if (req.children) visit(req.children, req.id, path);
+  });
+  visit(reqs, null, []);
+
+  graph.xorMembers.forEach(members => members.forEach(id => {
+    members.forEach(peer => peer !== id && addDependent(id, peer));
+  }));
+  return graph;
+};
+
+/**
+ * The given requirements together with everything that has to be evaluated after them: whatever reads them,
+ * and the groups containing any of those.
+ */
+export const collectAffected = (graph: RequirementGraph, ids: Iterable<string>): Set<string> => {
+  const affected = new Set<string>();
+  const addWithAncestors = (id: string) => {
+    for (let current: string | null | undefined = id; current && !affected.has(current); current = graph.parents.get(current)) {
+      affected.add(current);
+    }
+  };
+  for (const id of ids) {
+    addWithAncestors(id);
+    graph.dependents.get(id)?.forEach(addWithAncestors);
+  }
+  graph.volatile.forEach(addWithAncestors);
+  return affected;
+};
@@ -0,0 +1,90 @@
+import { Task, Requirement, RequirementType, RequirementCommand, TaskStatus } from '../types';
+import { findRequirement } from './requirementTree';
+import { updateRequirementValue } from './taskEngine';
+import { getContribution, getXorChoices, isFulfilledBy, isParticipantRequirement, isPerParticipantXor } from './participants';
+
+/**
+ * Input commands: increment, decrement, setValue, toggle and unfulfill. Unlike raw updates, they are
+ * resolved against the state they are applied to, so replays after an undo stay correct, and they follow
+ * the requirement's `input` rules:
+ *
+ *   min / max   counters stay within them. min defaults to 0.
+ *   step        increment and decrement move by it unless given an amount, and values snap to its multiples
+ *   revertible  false keeps a fulfilled requirement fulfilled: no unchecking, no counting back below the target
+ *
+ * Commands apply to checkboxes (BOOLEAN without fulfillWhen) and counters (NUMERIC). On group quests they
+ * change the participant's own contribution. Bound requirements (see services/counters.ts) ignore them.
+ */
+
+export const acceptsCommands = (req: Requirement): boolean => {
+  if (req.binding) return false;
+  return req.type === RequirementType.NUMERIC || (req.type === RequirementType.BOOLEAN && !req.fulfillWhen);
+};
+
+export const isRevertible = (req: Requirement): boolean => req.input?.revertible !== false;
+
+const snap = (value: number, step?: number): number => step ? Math.round(value / step) * step : value;
+
+/**
+ * Turns a command into the updates it makes. Undefined when the command changes nothing or isn't allowed.
+ */
+export const resolveCommand = (
+  req: Requirement,
+  task: Task,
+  command: RequirementCommand,
+  participantId?: string
+): Partial<Requirement> | undefined => {
+  if (!acceptsCommands(req) || req.isDisabled || req.isFailed || req.isHidden) return undefined;
+
+  const isPersonal = isParticipantRequirement(req, task);
+  if (isPersonal) {
+    if (participantId === undefined || !task.participants!.some(p => p.id === participantId)) return undefined;
+    const choice = isPerParticipantXor(req, task) ? getXorChoices(task).get(req.xorGroup!)?.get(participantId) : undefined;
+    if (choice !== undefined && choice !== req.id) return undefined;
+  }
+  const isDone = isPersonal ? isFulfilledBy(req, participantId!) : req.isFulfilled;
+  const isKept = isDone && !isRevertible(req);
+
+  if (req.type === RequirementType.BOOLEAN) {
+    const isFulfilled = command.type === 'TOGGLE' ? !isDone : command.type === 'UNFULFILL' ? false : undefined;
+    if (isFulfilled === undefined || isFulfilled === isDone || (isKept && !isFulfilled)) return undefined;
+    return { isFulfilled };
+  }
+
+  const rules = req.input ?? {};
+  const min = rules.min ?? 0;
+  const target = req.targetValue ?? 1;
+  const current = (isPersonal ? getContribution(req, participantId!).value : req.currentValue) ?? 0;
+  let value: number;
+  switch (command.type) {
+    case 'INCREMENT': value = current + (command.amount ?? rules.step ?? 1); break;
+    case 'DECREMENT': value = current - (command.amount ?? rules.step ?? 1); break;
+    case 'SET_VALUE': value = command.value; break;
+    case 'TOGGLE': value = isDone ? min : target; break;
+    case 'UNFULFILL':
+      if (!isDone) return undefined;
+      value = min;
+      break;
+  }
+  if (!Number.isFinite(value)) return undefined;
+
+  value = Math.min(rules.max ?? Infinity, Math.max(min, snap(value, rules.step)));
+  if (isKept) value = Math.max(value, target);
+  return value === current ? undefined : { currentValue: value };
+};
+
+/**
+ * Applies a command to a requirement of a running or paused task. Returns the task unchanged if the command has no effect.
+ */
+export const applyRequirementCommand = (
+  task: Task,
+  reqId: string,
+  command: RequirementCommand,
+  now: number = Date.now(),
+  participantId?: string
+): Task => {
+  if (task.status !== TaskStatus.RUNNING && task.status !== TaskStatus.PAUSED) return task;
+  const req = findRequirement(task.requirements, reqId);
+  const updates = req && resolveCommand(req, task, command, participantId);
+  return updates ? updateRequirementValue(task, reqId, updates, now, participantId) : task;
+};
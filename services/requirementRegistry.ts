@@ -0,0 +1,82 @@
+import { Task, Requirement, RequirementType } from '../types';
+import { RequirementLookup } from './conditions';
+
+export interface RequirementEvaluationContext {
+  task: Task;
+  lookup: RequirementLookup;
+}
+
+/**
+ * Describes how the engine handles one requirement type.
+ * GROUP is structural (the engine aggregates children), every other type computes its own fulfillment.
+ */
+export interface RequirementTypeDefinition {
+  type: string;
+  label: string;
+  description?: string; // Shown to the AI generator so it knows when to use the type
+
+  // Computes fulfillment from the requirement's own data. Runs on every evaluation pass.
+  evaluate?: (req: Requirement, ctx: RequirementEvaluationContext) => boolean;
+
+  // Clears type-specific runtime state. Receives the requirement with the generic fields already reset.
+  reset?: (req: Requirement) => Requirement;
+
+  // Returns human-readable problems with the requirement's configuration. Empty when valid.
+  validate?: (req: Requirement) => string[];
+
+  // Fraction between 0 and 1 done so far, for types that can be partly complete. Without it, progress is 0 until fulfilled.
+  progress?: (req: Requirement) => number;
+}
+
+const registry = new Map<string, RequirementTypeDefinition>();
+
+/**
+ * Registers (or replaces) a requirement type.
+ */
+export const registerRequirementType = (definition: RequirementTypeDefinition): void => {
+  registry.set(definition.type, definition);
+};
+
+export const getRequirementType = (type: string): RequirementTypeDefinition | undefined => {
+  return registry.get(type);
+};
+
+export const listRequirementTypes = (): RequirementTypeDefinition[] => {
+  return [...registry.values()];
+};
+
+/**
+ * Validates a requirement against its type definition. Unknown types are reported as a problem.
+ */
+export const validateRequirementType = (req: Requirement): string[] => {
+  const definition = registry.get(req.type);
+  if (!definition) return [`Unknown requirement type "${req.type}"`];
+  return definition.validate?.(req) ?? [];
+};
+
+// --- Built-in Types ---
+
+registerRequirementType({
+  type: RequirementType.BOOLEAN,
+  label: 'Checkbox',
+  description: 'Checklist item that is manually marked complete',
+  // Boolean is manually toggled, so the stored flag is the source of truth.
+  evaluate: (req) => req.isFulfilled
+});
+
+registerRequirementType({
+  type: RequirementType.NUMERIC,
+  label: 'Counter',
+  description: 'Counts up to targetValue',
+  evaluate: (req) => (req.currentValue ?? 0) >= (req.targetValue ?? 1),
+  reset: (req) => ({ ...req, currentValue: 0 }),
+  progress: (req) => (req.currentValue ?? 0) / (req.targetValue ?? 1),
+  validate: (req) => req.targetValue === undefined ? ['NUMERIC requirement needs a targetValue'] : []
+});
+
+registerRequirementType({
+  type: RequirementType.GROUP,
+  label: 'Group',
+  description: 'Nested requirements, fulfilled when its children are',
+  validate: (req) => !req.children || req.children.length === 0 ? ['GROUP requirement needs children'] : []
+});
@@ -0,0 +1,169 @@
+import { Requirement, RequirementType } from '../types';
+import { getRequirementType } from './requirementRegistry';
+
+/**
+ * Immutable edits on a requirement tree, for editors. Every function returns a new list and leaves
+ * the input untouched. A `parentId` of null means the top level.
+ */
+
+export const findRequirement = (reqs: Requirement[], id: string): Requirement | undefined => {
+  for (const req of reqs) {
+    if (req.id === id) return req;
+    const inner = req.children && findRequirement(req.children, id);
+    if (inner) return inner;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the id of the group containing a requirement, null for top-level ones, undefined if not found.
+ */
+export const findParentId = (reqs: Requirement[], id: string, parentId: string | null = null): string | null | undefined => {
+  for (const req of reqs) {
+    if (req.id === id) return parentId;
+    const inner = req.children && findParentId(req.children, id, req.id);
+    if (inner !== undefined) return inner;
+  }
+  return undefined;
+};
+
+export const updateRequirementById = (
+  reqs: Requirement[],
+  id: string,
+  update: (req: Requirement) => Requirement
+): Requirement[] => {
+  return reqs.map(req => {
+    if (req.id === id) return update(req);
+    return req.children ? { ...req, children: updateRequirementById(req.children, id, update) } : req;
+  });
+};
+
+/**
+ * Child indexes from the top level down to a requirement, or undefined if not found.
+ */
+export const findRequirementPath = (reqs: Requirement[], id: string): number[] | undefined => {
+  for (let i = 0; i < reqs.length; i++) {
+    if (reqs[i].id === id) return [i];
+    const inner = reqs[i].children && findRequirementPath(reqs[i].children!, id);
+    if (inner) return [i, ...inner];
+  }
+  return undefined;
+};
+
+export const getRequirementAt = (reqs: Requirement[], path: number[]): Requirement | undefined => {
+  let node: Requirement | undefined = reqs[path[0]];
+  for (let depth = 1; node && depth < path.length; depth++) node = node.children?.[path[depth]];
+  return node;
+};
+
+/**
+ * Like updateRequirementById, but only the requirement's ancestors are copied; every other requirement
+ * keeps its identity. Returns the list itself when the update returns the requirement unchanged.
+ */
+export const updateRequirementAt = (
+  reqs: Requirement[],
+  path: number[],
+  update: (req: Requirement) => Requirement
+): Requirement[] => {
+  const [index, ...rest] = path;
+  const req = reqs[index];
+  if (!req) return reqs;
+  const next = rest.length === 0 ? update(req) : { ...req, children: updateRequirementAt(req.children ?? [], rest, update) };
+  if (rest.length > 0 ? next.children === req.children : next === req) return reqs;
+  return [...reqs.slice(0, index), next, ...reqs.slice(index + 1)];
+};
+
+export const removeRequirement = (reqs: Requirement[], id: string): Requirement[] => {
+  return reqs
+    .filter(req => req.id !== id)
+    .map(req => req.children ? { ...req, children: removeRequirement(req.children, id) } : req);
+};
+
+/**
+ * Inserts a requirement into a group (or the top level) at the given position. Indexes past the end append.
+ */
+export const insertRequirement = (
+  reqs: Requirement[],
+  parentId: string | null,
+  index: number,
+  requirement: Requirement
+): Requirement[] => {
+  if (parentId === null) {
+    return [...reqs.slice(0, index), requirement, ...reqs.slice(index)];
+  }
+  return updateRequirementById(reqs, parentId, parent => ({
+    ...parent,
+    children: insertRequirement(parent.children ?? [], null, index, requirement)
+  }));
+};
+
+/**
+ * Moves a requirement to a new position, possibly into or out of a group. The index refers to the
+ * target list after the requirement has been taken out. Moving a group into itself or one of its
+ * descendants is ignored.
+ */
+export const moveRequirement = (
+  reqs: Requirement[],
+  id: string,
+  parentId: string | null,
+  index: number
+): Requirement[] => {
+  const requirement = findRequirement(reqs, id);
+  if (!requirement) return reqs;
+  if (parentId !== null && (parentId === id || findRequirement(requirement.children ?? [], parentId))) return reqs;
+  return insertRequirement(removeRequirement(reqs, id), parentId, index, requirement);
+};
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+/**
+ * Moves a requirement next to another one, or to the end of a group (`inside`), as a drag-and-drop
+ * editor needs it. Drops onto the requirement itself or one of its descendants are ignored.
+ */
+export const dropRequirement = (
+  reqs: Requirement[],
+  id: string,
+  targetId: string,
+  position: DropPosition
+): Requirement[] => {
+  if (id === targetId) return reqs;
+  if (position === 'inside') return moveRequirement(reqs, id, targetId, Infinity);
+
+  const parentId = findParentId(reqs, targetId);
+  if (parentId === undefined) return reqs;
+
+  const remaining = removeRequirement(reqs, id);
+  const siblings = parentId === null ? remaining : findRequirement(remaining, parentId)?.children ?? [];
+  const index = siblings.findIndex(r => r.id === targetId) + (position === 'after' ? 1 : 0);
+  return moveRequirement(reqs, id, parentId, index);
+};
+
+/**
+ * Creates a blank requirement of the given type with the fields that type needs.
+ */
+export const createRequirement = (type: string, title: string = 'New requirement'): Requirement => {
+  return changeRequirementType({ id: crypto.randomUUID(), type, title, isFulfilled: false }, type);
+};
+
+/**
+ * Switches a requirement to another type, dropping fields the new type doesn't use and
+ * adding the ones it needs. Runtime state starts over.
+ */
+export const changeRequirementType = (req: Requirement, type: string): Requirement => {
+  const { children, minFulfilled, currentValue, targetValue, valueLimit, customData, ...rest } = req;
+  const next: Requirement = { ...rest, type, isFulfilled: false };
+
+  if (type === RequirementType.GROUP) {
+    next.children = children ?? [];
+    if (minFulfilled !== undefined) next.minFulfilled = minFulfilled;
+  } else if (type === RequirementType.NUMERIC) {
+    next.targetValue = targetValue ?? 1;
+    next.currentValue = 0;
+    if (valueLimit !== undefined) next.valueLimit = valueLimit;
+  } else if (type !== RequirementType.BOOLEAN && req.type === type) {
+    next.customData = customData;
+  }
+
+  const definition = getRequirementType(type);
+  return definition?.reset ? definition.reset(next) : next;
+};
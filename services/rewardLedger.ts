@@ -0,0 +1,197 @@
+import { Task, Requirement, Achievement, RewardGrant, RewardLedgerState, RewardTotals, RewardEvent, RewardEventMap } from '../types';
+import { evaluateCondition } from './conditions';
+import {
+  PendingGrant, RewardOutcome, collectRequirementRewards, collectTaskRewards, getAchievementVariables, sumRewards
+} from './rewards';
+import { validateAchievements } from './taskValidation';
+import { RewardRepository } from './storage/rewardRepository';
+import { TaskStore } from './taskStore';
+import { Clock, systemClock } from './clock';
+
+type EventHandler<E extends RewardEvent> = (payload: RewardEventMap[E]) => void;
+type EventHandlers = { [E in RewardEvent]?: Set<EventHandler<E>> };
+
+export interface RewardLedgerOptions {
+  achievements?: Achievement[];
+  repository?: RewardRepository; // When set, the ledger is saved after every grant
+  clock?: Clock;
+}
+
+/**
+ * Records every reward handed out, so each one is granted exactly once no matter how often an
+ * outcome is observed (undo and redo, reloads, repeated events). Games hook into rewardGranted
+ * and achievementUnlocked to hand out the actual XP, currency and items.
+ */
+export class RewardLedger {
+  private state: RewardLedgerState = { grants: [], unlocked: {} };
+  private totals: RewardTotals = { xp: 0, currency: {}, items: [] };
+  private granted = new Set<string>();
+  private achievements: Achievement[];
+  private listeners = new Set<() => void>();
+  private handlers: EventHandlers = {};
+  private lastCheckedTasks: Task[] | null = null;
+  private repository?: RewardRepository;
+  private clock: Clock;
+
+  constructor(options: RewardLedgerOptions = {}) {
+    this.achievements = options.achievements ?? [];
+    validateAchievements(this.achievements);
+    this.repository = options.repository;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  // --- Queries ---
+
+  /**
+   * Returns the ledger. The object identity only changes when something is granted or unlocked.
+   */
+  getState(): RewardLedgerState {
+    return this.state;
+  }
+
+  getTotals(): RewardTotals {
+    return this.totals;
+  }
+
+  getAchievements(): Achievement[] {
+    return this.achievements;
+  }
+
+  isGranted(key: string): boolean {
+    return this.granted.has(key);
+  }
+
+  // --- Subscriptions ---
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  on<E extends RewardEvent>(event: E, handler: EventHandler<E>): () => void {
+    const byEvent: { [K in E]?: Set<EventHandler<K>> } = this.handlers;
+    const handlers = byEvent[event] ?? new Set<EventHandler<E>>();
+    byEvent[event] = handlers;
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // --- Persistence ---
+
+  /**
+   * Loads the stored ledger and merges it with anything granted in the meantime.
+   */
+  async load(): Promise<RewardLedgerState> {
+    if (!this.repository) return this.state;
+    const stored = await this.repository.load();
+    if (!stored) return this.state;
+
+    const grants = [...stored.grants, ...this.state.grants.filter(g => !stored.grants.some(s => s.key === g.key))];
+    this.setState({ grants, unlocked: { ...stored.unlocked, ...this.state.unlocked } }, false);
+    return this.state;
+  }
+
+  // --- Granting ---
+
+  /**
+   * Grants rewards as a TaskManager (or a RemoteTaskManager) reports outcomes, and checks achievements whenever its tasks change.
+   * Outcomes seen while `isGranting` returns false are left alone, e.g. in tabs that mirror another tab's tasks.
+   * Returns a function that detaches the ledger again.
+   */
+  attach(manager: TaskStore, isGranting: () => boolean = () => true): () => void {
+    const check = () => {
+      if (isGranting()) this.checkAchievements(manager.getTasks());
+    };
+    const detach = [
+      manager.on('requirementFulfilled', ({ task, requirement }) => {
+        if (isGranting()) this.grantRequirement(task, requirement);
+      }),
+      manager.on('taskCompleted', ({ task }) => {
+        if (isGranting()) this.grantTaskOutcome(task, 'COMPLETED');
+      }),
+      manager.on('taskFailed', ({ task }) => {
+        if (isGranting()) this.grantTaskOutcome(task, 'FAILED');
+      }),
+      manager.subscribe(check)
+    ];
+    check();
+    return () => detach.forEach(unsubscribe => unsubscribe());
+  }
+
+  grantTaskOutcome(task: Task, outcome: RewardOutcome): RewardGrant[] {
+    return this.grant(collectTaskRewards(task, outcome), task);
+  }
+
+  grantRequirement(task: Task, requirement: Requirement): RewardGrant[] {
+    return this.grant(collectRequirementRewards(task, requirement), task);
+  }
+
+  /**
+   * Unlocks every achievement whose condition now holds. Unlocks can raise totals and unlock
+   * further achievements, so this repeats until nothing changes.
+   */
+  checkAchievements(tasks: Task[]): Achievement[] {
+    if (tasks === this.lastCheckedTasks) return [];
+    this.lastCheckedTasks = tasks;
+
+    const unlocked: Achievement[] = [];
+    let pending = this.achievements.filter(a => this.state.unlocked[a.id] === undefined);
+    while (pending.length > 0) {
+      const variables = getAchievementVariables(tasks, this.state, this.totals);
+      const reached = pending.filter(a => evaluateCondition(a.when, () => undefined, variables));
+      if (reached.length === 0) break;
+
+      const now = this.clock.now();
+      this.setState({
+        ...this.state,
+        unlocked: { ...this.state.unlocked, ...Object.fromEntries(reached.map(a => [a.id, now])) }
+      });
+      reached.forEach(achievement => {
+        this.emit('achievementUnlocked', { achievement, unlockedAt: now });
+        this.grant((achievement.rewards ?? []).map((reward, i) => ({
+          key: `achievement:${achievement.id}:${reward.id ?? i}`,
+          reward,
+          achievementId: achievement.id
+        })));
+      });
+      unlocked.push(...reached);
+      pending = pending.filter(a => !reached.includes(a));
+    }
+    return unlocked;
+  }
+
+  // --- Internals ---
+
+  private grant(pending: PendingGrant[], task?: Task): RewardGrant[] {
+    const now = this.clock.now();
+    const grants: RewardGrant[] = pending
+      .filter(p => !this.granted.has(p.key))
+      .map(p => ({ ...p, grantedAt: now }));
+    if (grants.length === 0) return [];
+
+    this.setState({ ...this.state, grants: [...this.state.grants, ...grants] });
+    grants.forEach(grant => this.emit('rewardGranted', { grant, task }));
+    return grants;
+  }
+
+  private setState(state: RewardLedgerState, persist: boolean = true): void {
+    this.state = state;
+    this.totals = sumRewards(state.grants);
+    this.granted = new Set(state.grants.map(g => g.key));
+    this.lastCheckedTasks = null; // Totals changed, so achievements need another look
+    if (persist) {
+      this.repository?.save(state).catch(error => {
+        console.error("Reward ledger save failed:", error);
+      });
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private emit<E extends RewardEvent>(event: E, payload: RewardEventMap[E]): void {
+    this.handlers[event]?.forEach(handler => handler(payload));
+  }
+}
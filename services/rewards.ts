@@ -0,0 +1,147 @@
+import { Task, Requirement, Reward, RewardGrant, RewardLedgerState, RewardTotals, TaskStatus } from '../types';
+import { ConditionVariables, evaluateCondition } from './conditions';
+import { getRecurrenceStats } from './recurrence';
+
+/**
+ * Rewards are granted on outcomes: a requirement's when it is fulfilled, a task's when it completes
+ * (or fails, with `on: 'FAILED'`). A reward's `when` condition is checked at that moment and can refer
+ * to requirements ("cooldown" for a bonus if the optional cool down was done, "swim" for the XOR branch
+ * that was chosen) and to the task's variables:
+ *
+ *   $elapsed      running time in seconds
+ *   $timeLimit    the task's time limit in seconds (0 without one)
+ *   $timeLeft     seconds left of the time limit (0 without one)
+ *   $streak       consecutive completed periods, including this one (see services/recurrence.ts)
+ *   $completions  completed periods, including this one
+ *
+ * Achievements are checked against the whole board instead:
+ *
+ *   $completed, $failed   outcomes across all tasks and their past periods
+ *   $bestStreak           longest streak of any task
+ *   $xp, $items           reward totals so far
+ *   $achievements         achievements unlocked so far
+ *   $currency_<name>      e.g. $currency_gold
+ */
+
+export const TASK_REWARD_VARIABLES = ['elapsed', 'timeLimit', 'timeLeft', 'streak', 'completions'];
+export const ACHIEVEMENT_VARIABLES = ['completed', 'failed', 'bestStreak', 'xp', 'items', 'achievements'];
+export const CURRENCY_VARIABLE_PREFIX = 'currency_';
+
+export type RewardOutcome = 'COMPLETED' | 'FAILED';
+
+export interface PendingGrant {
+  key: string;
+  reward: Reward;
+  taskId?: string;
+  requirementId?: string;
+  achievementId?: string;
+}
+
+const flattenRequirements = (reqs: Requirement[], into: Map<string, Requirement> = new Map()) => {
+  reqs.forEach(req => {
+    into.set(req.id, req);
+    if (req.children) flattenRequirements(req.children, into);
+  });
+  return into;
+};
+
+export const getTaskRewardVariables = (task: Task): ConditionVariables => {
+  const stats = getRecurrenceStats(task);
+  return {
+    elapsed: task.elapsedTime,
+    timeLimit: task.timeLimit ?? 0,
+    timeLeft: task.timeLimit ? Math.max(0, task.timeLimit - task.elapsedTime) : 0,
+    streak: stats.currentStreak,
+    completions: stats.completed
+  };
+};
+
+/**
+ * Identifies one grant. Recurring tasks earn their rewards once per period, and instances archived
+ * by a SPAWN recurrence share their source's keys, so nothing is granted twice.
+ */
+const grantKey = (task: Task, reward: Reward, index: number, requirementId?: string): string => {
+  const owner = requirementId === undefined ? 'task' : `req:${requirementId}`;
+  return `${task.recurrenceSourceId ?? task.id}@${task.periodStart ?? 0}:${owner}:${reward.id ?? index}`;
+};
+
+const eligible = (rewards: Reward[], task: Task, variables: ConditionVariables) => {
+  const lookup = flattenRequirements(task.requirements);
+  return rewards
+    .map((reward, index) => ({ reward, index }))
+    .filter(({ reward }) => !reward.when || evaluateCondition(reward.when, id => lookup.get(id), variables));
+};
+
+/**
+ * Lists the task rewards an outcome earns, with their grant keys. Already granted ones are the ledger's concern.
+ */
+export const collectTaskRewards = (task: Task, outcome: RewardOutcome): PendingGrant[] => {
+  const rewards = (task.rewards ?? []).filter(r => (r.on ?? 'COMPLETED') === outcome);
+  return eligible(rewards, task, getTaskRewardVariables(task)).map(({ reward, index }) => ({
+    key: grantKey(task, reward, index),
+    reward,
+    taskId: task.id
+  }));
+};
+
+/**
+ * Lists the rewards a requirement earns now that it is fulfilled.
+ */
+export const collectRequirementRewards = (task: Task, requirement: Requirement): PendingGrant[] => {
+  if (!requirement.isFulfilled || requirement.isFailCondition) return [];
+  return eligible(requirement.rewards ?? [], task, getTaskRewardVariables(task)).map(({ reward, index }) => ({
+    key: grantKey(task, reward, index, requirement.id),
+    reward,
+    taskId: task.id,
+    requirementId: requirement.id
+  }));
+};
+
+export const sumRewards = (grants: RewardGrant[]): RewardTotals => {
+  const totals: RewardTotals = { xp: 0, currency: {}, items: [] };
+  grants.forEach(({ reward }) => {
+    totals.xp += reward.xp ?? 0;
+    Object.entries(reward.currency ?? {}).forEach(([name, amount]) => {
+      totals.currency[name] = (totals.currency[name] ?? 0) + amount;
+    });
+    totals.items.push(...(reward.items ?? []));
+  });
+  return totals;
+};
+
+/**
+ * Aggregates the board for achievement conditions. Archived SPAWN instances are left out,
+ * since their outcomes are already part of their source's occurrence history.
+ */
+export const getAchievementVariables = (tasks: Task[], state: RewardLedgerState, totals: RewardTotals): ConditionVariables => {
+  const variables: ConditionVariables = {
+    completed: 0,
+    failed: 0,
+    bestStreak: 0,
+    xp: totals.xp,
+    items: totals.items.length,
+    achievements: Object.keys(state.unlocked).length
+  };
+  tasks.filter(task => task.recurrenceSourceId === undefined).forEach(task => {
+    const stats = getRecurrenceStats(task);
+    variables.completed += stats.completed;
+    variables.failed += (task.occurrences ?? []).filter(o => o.outcome === 'FAILED').length
+      + (task.status === TaskStatus.FAILED ? 1 : 0);
+    variables.bestStreak = Math.max(variables.bestStreak, stats.bestStreak);
+  });
+  Object.entries(totals.currency).forEach(([name, amount]) => {
+    variables[`${CURRENCY_VARIABLE_PREFIX}${name}`] = amount;
+  });
+  return variables;
+};
+
+export const describeReward = (reward: Reward): string => {
+  const parts = [
+    reward.xp ? `${reward.xp} XP` : '',
+    ...Object.entries(reward.currency ?? {}).map(([name, amount]) => `${amount} ${name}`),
+    ...(reward.items ?? [])
+  ].filter(Boolean);
+  const summary = parts.join(', ');
+  if (!reward.label) return summary || 'Reward';
+  return summary ? `${reward.label}: ${summary}` : reward.label;
+};
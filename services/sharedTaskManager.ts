@@ -0,0 +1,651 @@
+import {
+  Task, Requirement, TaskDefinitionChanges, TaskEngineEvent, TaskEngineEventMap, TaskEngineEventRecord
+} from '../types';
+import { TaskStore } from './taskStore';
+import { ENGINE_EVENTS, TaskManager, TaskManagerOptions } from './taskManager';
+import { ConflictResolution, ImportPlan, planImport } from './taskBundle';
+import { TaskConflictError, TaskValidationError, ValidationIssue, normalizeTask } from './taskValidation';
+import { Clock, systemClock } from './clock';
+
+type EventHandler<E extends TaskEngineEvent> = (payload: TaskEngineEventMap[E]) => void;
+type EventHandlers = { [E in TaskEngineEvent]?: Set<EventHandler<E>> };
+
+export interface SharedTaskManagerOptions extends Omit<TaskManagerOptions, 'tasks'> {
+  channelName?: string; // Tabs share tasks with every tab on the same channel. Defaults to "questengine".
+  heartbeatInterval?: number; // How often the leading tab reports in, in milliseconds. Defaults to one second.
+  leaderTimeout?: number; // Silence after which another tab takes over. Defaults to three heartbeats.
+  tabId?: string; // Random by default. The lowest id wins when several tabs claim the lead at once.
+}
+
+type SharedCommand =
+  | 'addTask' | 'importTasks' | 'editTask' | 'removeTask' | 'start' | 'pause' | 'reset' | 'updateRequirement'
+  | 'increment' | 'decrement' | 'setValue' | 'toggle' | 'unfulfill' | 'undo' | 'redo';
+
+// A command with the arguments the leading tab calls it with
+type CommandCall = { [M in SharedCommand]: { method: M; args: Parameters<TaskStore[M]> } }[SharedCommand];
+type TaskCommandCall = Exclude<CommandCall, { method: 'addTask' | 'importTasks' }>;
+
+// Counting commands add to whatever the value is by the time they arrive, so concurrent ones all count
+const RELATIVE_COMMANDS: SharedCommand[] = ['increment', 'decrement'];
+
+// How long a claim to the lead stands before the tab takes over. Tabs answer a claim well within it.
+const CLAIM_WINDOW = 100;
+
+type CommandMessage = CommandCall & {
+  type: 'command';
+  from: string;
+  to: string;
+  id: number;
+  revision?: number; // The task's revision the sending tab expects, for commands on a task
+};
+
+// The task's revision right before and after a command on it was applied
+interface CommandRevisions {
+  before: number;
+  after: number;
+}
+
+interface CommandResult {
+  revisions?: CommandRevisions;
+  error?: { message: string; issues?: ValidationIssue[] };
+}
+
+type TabMessage =
+  | { type: 'hello' | 'claim' | 'heartbeat' | 'resign'; from: string }
+  | { type: 'snapshot'; from: string; to: string; tasks: Task[] }
+  | { type: 'change'; from: string; tasks: Task[]; removed: string[]; events: TaskEngineEventRecord[] }
+  | CommandMessage
+  | ({ type: 'result'; from: string; to: string; id: number } & CommandResult);
+
+interface PendingCommand {
+  message: CommandMessage;
+  sentTo?: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Shares one set of tasks between the tabs and windows of a browser, so they don't overwrite each other's saves.
+ * The tabs elect a leader over a BroadcastChannel. The leader runs the TaskManager: it owns the clock and the
+ * repository, and sends every change to the other tabs as it happens. Other tabs mirror its tasks and send their
+ * commands to it, so input from every tab is applied one command at a time.
+ *
+ * Every command raises the task's revision. Increments and decrements always apply; other commands are rejected
+ * when the task changed in another tab after the sending tab last saw it, since they were meant for that state.
+ * A tab sends its commands on a task one at a time, so each one expects the revision its previous one made.
+ * When the leader closes, the remaining tabs elect a new one, which loads the tasks from the repository.
+ */
+export class SharedTaskManager implements TaskStore {
+  private tasks: Task[] = [];
+  private listeners = new Set<() => void>();
+  private handlers: EventHandlers = {};
+  private options: SharedTaskManagerOptions;
+  private tabId: string;
+  private clock: Clock;
+  private heartbeatInterval: number;
+  private leaderTimeout: number;
+  private channel: BroadcastChannel | null = null;
+  private stopWatchdog: (() => void) | null = null;
+  private stopClaim: (() => void) | null = null;
+  private leaderId: string | null = null;
+  private lastHeard = -Infinity;
+  private leading = false; // From claiming the lead until giving it up, including while the tasks load
+  private leadership = 0; // Raised whenever this tab takes or gives up the lead, to drop stale takeovers
+  private manager: TaskManager | null = null; // Only while this tab leads
+  private detachManager: (() => void)[] = [];
+  private pendingEvents: TaskEngineEventRecord[] = [];
+  private clockRequested = false;
+  private nextCommandId = 0;
+  private pendingCommands = new Map<number, PendingCommand>();
+  private pendingRequests = new Set<Promise<void>>();
+  private loading: Promise<Task[]> | null = null;
+  private resolveLoad: (() => void) | null = null;
+  private rejectLoad: ((error: Error) => void) | null = null;
+
+  constructor(options: SharedTaskManagerOptions = {}) {
+    this.options = options;
+    this.tabId = options.tabId ?? crypto.randomUUID();
+    this.clock = options.clock ?? systemClock;
+    this.heartbeatInterval = options.heartbeatInterval ?? 1000;
+    this.leaderTimeout = options.leaderTimeout ?? this.heartbeatInterval * 3;
+  }
+
+  // --- Queries ---
+
+  getTasks(): Task[] {
+    return this.tasks;
+  }
+
+  getTask(id: string): Task | undefined {
+    return this.tasks.find(t => t.id === id);
+  }
+
+  /**
+   * Whether this tab currently runs the clock and saves the tasks.
+   */
+  isLeader(): boolean {
+    return this.manager !== null;
+  }
+
+  // --- Subscriptions ---
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  on<E extends TaskEngineEvent>(event: E, handler: EventHandler<E>): () => void {
+    const byEvent: { [K in E]?: Set<EventHandler<K>> } = this.handlers;
+    const handlers = byEvent[event] ?? new Set<EventHandler<E>>();
+    byEvent[event] = handlers;
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // --- Connection ---
+
+  /**
+   * Joins the other tabs and resolves with the tasks, once the leading tab has sent them or this tab
+   * has taken the lead and loaded them from the repository. Rejects if this tab fails to start leading first.
+   */
+  load(): Promise<Task[]> {
+    if (!this.loading) {
+      this.loading = new Promise((resolve, reject) => {
+        this.resolveLoad = () => resolve(this.tasks);
+        this.rejectLoad = reject;
+      });
+      this.channel = new BroadcastChannel(this.options.channelName ?? 'questengine');
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.receive(event.data);
+      this.stopWatchdog = this.clock.setInterval(() => this.watch(), this.heartbeatInterval);
+      this.post({ type: 'hello', from: this.tabId });
+      this.claim();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Resolves once every command sent to the leading tab has been applied, and its autosaves when this
+   * tab leads. Rejects if one of them fails.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingRequests);
+    await this.manager?.flush();
+  }
+
+  /**
+   * Leaves the other tabs, handing the lead over right away if this tab has it. Call it when the page is hidden for good.
+   */
+  dispose(): void {
+    if (this.manager) this.post({ type: 'resign', from: this.tabId });
+    this.stepDown();
+    this.stopWatchdog?.();
+    this.stopWatchdog = null;
+    this.stopClaim?.();
+    this.stopClaim = null;
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+    this.handlers = {};
+  }
+
+  // --- Commands ---
+
+  addTask(task: Task): Task {
+    if (this.manager) return this.manager.addTask(task);
+    const normalized = normalizeTask(task);
+    if (this.getTask(normalized.id)) {
+      throw new TaskConflictError(`Task with id "${normalized.id}" already exists`);
+    }
+    this.send({ method: 'addTask', args: [normalized] });
+    return normalized;
+  }
+
+  /**
+   * Resolves conflicts against the mirrored tasks, then sends the result with resolved ids,
+   * so the returned plan is exactly what the leading tab applies.
+   */
+  importTasks(tasks: Task[], resolution: ConflictResolution | Record<string, ConflictResolution> = 'SKIP'): ImportPlan {
+    if (this.manager) return this.manager.importTasks(tasks, resolution);
+    const plan = planImport(tasks.map(task => normalizeTask(task)), this.tasks, resolution);
+    this.send({ method: 'importTasks', args: [plan.tasks, 'OVERWRITE'] });
+    return plan;
+  }
+
+  editTask(id: string, changes: TaskDefinitionChanges): void {
+    if (this.manager) {
+      this.manager.editTask(id, changes);
+      return;
+    }
+    const task = this.getTask(id);
+    if (!task) return;
+    const { history, ...current } = task;
+    normalizeTask({ ...current, ...changes }); // Throws for invalid edits before anything is sent
+    this.send({ method: 'editTask', args: [id, changes] });
+  }
+
+  removeTask(id: string): void {
+    this.command({ method: 'removeTask', args: [id] });
+  }
+
+  start(id: string): void {
+    this.command({ method: 'start', args: [id] });
+  }
+
+  pause(id: string): void {
+    this.command({ method: 'pause', args: [id] });
+  }
+
+  reset(id: string): void {
+    this.command({ method: 'reset', args: [id] });
+  }
+
+  updateRequirement(id: string, reqId: string, updates: Partial<Requirement>, participantId?: string): void {
+    this.command({ method: 'updateRequirement', args: [id, reqId, updates, participantId] });
+  }
+
+  increment(id: string, reqId: string, amount?: number, participantId?: string): void {
+    this.command({ method: 'increment', args: [id, reqId, amount, participantId] });
+  }
+
+  decrement(id: string, reqId: string, amount?: number, participantId?: string): void {
+    this.command({ method: 'decrement', args: [id, reqId, amount, participantId] });
+  }
+
+  setValue(id: string, reqId: string, value: number, participantId?: string): void {
+    this.command({ method: 'setValue', args: [id, reqId, value, participantId] });
+  }
+
+  toggle(id: string, reqId: string, participantId?: string): void {
+    this.command({ method: 'toggle', args: [id, reqId, participantId] });
+  }
+
+  unfulfill(id: string, reqId: string, participantId?: string): void {
+    this.command({ method: 'unfulfill', args: [id, reqId, participantId] });
+  }
+
+  undo(id: string): void {
+    this.command({ method: 'undo', args: [id] });
+  }
+
+  redo(id: string): void {
+    this.command({ method: 'redo', args: [id] });
+  }
+
+  // --- Clock ---
+
+  // Only the leading tab ticks; the others see time pass through its changes
+  startClock(): void {
+    this.clockRequested = true;
+    this.manager?.startClock();
+  }
+
+  stopClock(): void {
+    this.clockRequested = false;
+    this.manager?.stopClock();
+  }
+
+  // --- Commands, internals ---
+
+  private command(call: TaskCommandCall): void {
+    if (this.manager) {
+      invoke(this.manager, call);
+      return;
+    }
+    if (!this.getTask(call.args[0])) return;
+    this.send(call);
+  }
+
+  /**
+   * Queues a command for the leading tab and sends it as soon as there is one. Failures are logged,
+   * and flush() reports them to callers.
+   */
+  private send(call: CommandCall): void {
+    const taskId = commandTaskId(call);
+    const message: CommandMessage = {
+      ...call,
+      type: 'command',
+      from: this.tabId,
+      to: '',
+      id: ++this.nextCommandId,
+      revision: taskId === undefined ? undefined : this.getTask(taskId)?.revision ?? 0
+    };
+    const request = new Promise<void>((resolve, reject) => this.pendingCommands.set(message.id, { message, resolve, reject }));
+    this.pendingRequests.add(request);
+    request
+      .catch(error => {
+        console.error("Command failed in the leading tab:", error);
+      })
+      .finally(() => this.pendingRequests.delete(request));
+    this.dispatchPending();
+  }
+
+  /**
+   * Applies queued commands when this tab leads, and otherwise sends the ones not sent yet to the leading tab.
+   * A command on a task waits for the result of the previous one, which tells the revision it made.
+   */
+  private dispatchPending(): void {
+    const busy = new Set<string>();
+    this.pendingCommands.forEach((pending, id) => {
+      if (this.manager) {
+        this.pendingCommands.delete(id);
+        try {
+          this.rebase(pending, this.execute(pending.message));
+          pending.resolve();
+        } catch (error) {
+          pending.reject(error as Error);
+        }
+        return;
+      }
+      const taskId = commandTaskId(pending.message);
+      const waiting = taskId !== undefined && busy.has(taskId);
+      if (taskId !== undefined) busy.add(taskId);
+      if (this.leaderId && pending.sentTo === undefined && !waiting) {
+        pending.sentTo = this.leaderId;
+        this.post({ ...pending.message, to: this.leaderId });
+      }
+    });
+  }
+
+  /**
+   * Applies another tab's command to the leading manager, unless it was meant for an older state of the task.
+   */
+  private execute(message: CommandMessage): CommandRevisions | undefined {
+    const manager = this.manager!;
+    const taskId = commandTaskId(message);
+    const task = taskId === undefined ? undefined : manager.getTask(taskId);
+    if (!task) {
+      invoke(manager, message);
+      return undefined;
+    }
+    const before = task.revision ?? 0;
+    if (before !== message.revision && !RELATIVE_COMMANDS.includes(message.method)) {
+      throw new Error(`"${task.title}" was changed in another tab in the meantime, so ${message.method} was not applied`);
+    }
+    invoke(manager, message);
+    return { before, after: manager.getTask(task.id)?.revision ?? before };
+  }
+
+  private settle(id: number, { revisions, error }: CommandResult): void {
+    const pending = this.pendingCommands.get(id);
+    if (!pending) return;
+    this.pendingCommands.delete(id);
+    if (!error) {
+      this.rebase(pending, revisions);
+      pending.resolve();
+    } else {
+      pending.reject(error.issues ? new TaskValidationError('request', error.issues) : new Error(error.message));
+    }
+    this.dispatchPending();
+  }
+
+  /**
+   * Moves this tab's queued commands on a task past the revision its own command made, unless another
+   * tab changed the task first, so that the tab's commands don't conflict with each other.
+   */
+  private rebase({ message }: PendingCommand, revisions?: CommandRevisions): void {
+    if (!revisions || revisions.before !== message.revision) return;
+    const taskId = commandTaskId(message);
+    this.pendingCommands.forEach(pending => {
+      if (pending.sentTo !== undefined || commandTaskId(pending.message) !== taskId) return;
+      if (pending.message.revision === revisions.before) pending.message = { ...pending.message, revision: revisions.after };
+    });
+  }
+
+  // --- Election ---
+
+  /**
+   * Heartbeats while leading. Otherwise takes over once the leading tab has gone quiet.
+   */
+  private watch(): void {
+    if (this.manager) {
+      this.post({ type: 'heartbeat', from: this.tabId });
+    } else if (this.clock.now() - this.lastHeard >= this.leaderTimeout) {
+      this.claim();
+    }
+  }
+
+  /**
+   * Asks for the lead and takes it unless a leader or a tab with a lower id answers within the claim window.
+   */
+  private claim(): void {
+    if (this.stopClaim || this.leading) return;
+    this.leaderId = null;
+    this.post({ type: 'claim', from: this.tabId });
+    const cancel = this.clock.setInterval(() => {
+      this.cancelClaim();
+      this.lead().catch(error => this.abandonLead(error));
+    }, CLAIM_WINDOW);
+    this.stopClaim = cancel;
+  }
+
+  private cancelClaim(): void {
+    this.stopClaim?.();
+    this.stopClaim = null;
+  }
+
+  /**
+   * Starts the leading manager from the mirrored tasks and whatever the repository has saved since.
+   * Events from catching up (e.g. tasks that expired while no tab was open) go out with the first change.
+   */
+  private async lead(): Promise<void> {
+    const leadership = ++this.leadership;
+    this.leading = true;
+    this.leaderId = this.tabId;
+    this.rejectSentTo(() => true);
+
+    const manager = new TaskManager({ ...this.options, tasks: this.tasks });
+    const detach = (Object.keys(ENGINE_EVENTS) as TaskEngineEvent[]).map(type =>
+      manager.on(type, payload => this.pendingEvents.push({ type, payload } as TaskEngineEventRecord))
+    );
+    detach.push(manager.subscribe(() => {
+      if (this.manager === manager) this.publishChange();
+    }));
+    try {
+      await manager.load();
+    } catch (error) {
+      console.error("Failed to load tasks:", error);
+    }
+    if (this.leadership !== leadership) {
+      // Another tab took the lead while the tasks were loading
+      detach.forEach(unsubscribe => unsubscribe());
+      manager.dispose();
+      return;
+    }
+
+    this.manager = manager;
+    this.detachManager = detach;
+    this.publishChange();
+    this.post({ type: 'heartbeat', from: this.tabId });
+    if (this.clockRequested) manager.startClock();
+    this.dispatchPending();
+    this.resolveLoad?.();
+  }
+
+  /**
+   * Gives up the lead when this tab could not start its manager, and fails the commands and load that
+   * waited for it. The tab claims the lead again if no other tab has taken it within the leader timeout.
+   */
+  private abandonLead(error: Error): void {
+    console.error("Failed to take the lead:", error);
+    this.stepDown();
+    this.leaderId = null;
+    this.lastHeard = this.clock.now();
+    this.pendingCommands.forEach((pending, id) => {
+      if (pending.sentTo !== undefined) return;
+      this.pendingCommands.delete(id);
+      pending.reject(error);
+    });
+    this.rejectLoad?.(error);
+  }
+
+  private stepDown(): void {
+    if (!this.leading) return;
+    this.leading = false;
+    this.leadership++;
+    const manager = this.manager;
+    if (!manager) return;
+    this.manager = null;
+    this.detachManager.forEach(unsubscribe => unsubscribe());
+    this.detachManager = [];
+    this.pendingEvents = [];
+    manager.dispose();
+  }
+
+  /**
+   * Follows a tab that sent a leader's message, unless this tab or a tab with a lower id leads.
+   * Returns whether the message should be applied.
+   */
+  private heardFromLeader(from: string, isSnapshot = false): boolean {
+    if (this.leading) {
+      if (from > this.tabId) return false; // It gives up the lead once it hears from this tab
+      this.stepDown();
+    }
+    const timedOut = this.clock.now() - this.lastHeard >= this.leaderTimeout;
+    if (this.leaderId !== null && from !== this.leaderId && from > this.leaderId && !timedOut) return false;
+
+    this.cancelClaim();
+    if (from !== this.leaderId) {
+      this.leaderId = from;
+      // Commands sent to the previous leader may never be applied, and its tasks may be behind the new leader's
+      this.rejectSentTo(sentTo => sentTo !== from);
+      if (!isSnapshot) this.post({ type: 'hello', from: this.tabId });
+    }
+    this.lastHeard = this.clock.now();
+    this.dispatchPending();
+    return true;
+  }
+
+  private rejectSentTo(isGone: (sentTo: string) => boolean): void {
+    this.pendingCommands.forEach((pending, id) => {
+      if (pending.sentTo === undefined || !isGone(pending.sentTo)) return;
+      this.pendingCommands.delete(id);
+      pending.reject(new Error(`The leading tab closed before it applied ${pending.message.method}`));
+    });
+  }
+
+  // --- Messages ---
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private receive(message: TabMessage): void {
+    switch (message.type) {
+      case 'hello':
+        if (this.manager) this.post({ type: 'snapshot', from: this.tabId, to: message.from, tasks: this.tasks });
+        break;
+      case 'claim':
+        if (this.manager) {
+          this.post({ type: 'heartbeat', from: this.tabId });
+        } else if (this.stopClaim && message.from < this.tabId) {
+          // Leave it to the lower id, but take over if it never does
+          this.cancelClaim();
+          this.lastHeard = this.clock.now();
+        }
+        break;
+      case 'heartbeat':
+        this.heardFromLeader(message.from);
+        break;
+      case 'resign':
+        if (message.from !== this.leaderId) break;
+        this.leaderId = null;
+        this.rejectSentTo(sentTo => sentTo === message.from);
+        this.claim();
+        break;
+      case 'snapshot':
+        if (message.to !== this.tabId || !this.heardFromLeader(message.from, true)) break;
+        this.tasks = message.tasks;
+        this.listeners.forEach(listener => listener());
+        this.resolveLoad?.();
+        break;
+      case 'change':
+        if (this.heardFromLeader(message.from)) this.applyChange(message);
+        break;
+      case 'command':
+        if (message.to !== this.tabId) break;
+        if (!this.manager) {
+          this.post({ type: 'result', from: this.tabId, to: message.from, id: message.id, error: { message: 'This tab no longer leads' } });
+          break;
+        }
+        try {
+          const revisions = this.execute(message);
+          this.post({ type: 'result', from: this.tabId, to: message.from, id: message.id, revisions });
+        } catch (error) {
+          const issues = error instanceof TaskValidationError ? error.issues : undefined;
+          this.post({ type: 'result', from: this.tabId, to: message.from, id: message.id, error: { message: (error as Error).message, issues } });
+        }
+        break;
+      case 'result':
+        if (message.to === this.tabId) this.settle(message.id, message);
+        break;
+    }
+  }
+
+  /**
+   * Sends the leading manager's latest change to the other tabs and applies it here.
+   */
+  private publishChange(): void {
+    const tasks = this.manager!.getTasks();
+    const previous = new Map(this.tasks.map(t => [t.id, t]));
+    const ids = new Set(tasks.map(t => t.id));
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    this.post({
+      type: 'change',
+      from: this.tabId,
+      tasks: tasks.filter(t => previous.get(t.id) !== t),
+      removed: this.tasks.filter(t => !ids.has(t.id)).map(t => t.id),
+      events
+    });
+    this.tasks = tasks;
+    this.emit(events);
+  }
+
+  /**
+   * Applies a change from the leading tab in the same order a TaskManager does: state first, then events, then subscribers.
+   */
+  private applyChange({ tasks, removed, events }: { tasks: Task[]; removed: string[]; events: TaskEngineEventRecord[] }): void {
+    const previous = new Set(this.tasks.map(t => t.id));
+    const changed = new Map(tasks.map(t => [t.id, t]));
+    const removedIds = new Set(removed);
+    this.tasks = [
+      ...this.tasks.filter(t => !removedIds.has(t.id)).map(t => changed.get(t.id) ?? t),
+      ...tasks.filter(t => !previous.has(t.id))
+    ];
+    this.emit(events);
+  }
+
+  private emit(events: TaskEngineEventRecord[]): void {
+    events.forEach(({ type, payload }) => {
+      this.handlers[type]?.forEach(handler => handler(payload));
+    });
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const commandTaskId = (call: CommandCall): string | undefined =>
+  call.method === 'addTask' || call.method === 'importTasks' ? undefined : call.args[0];
+
+const invoke = (manager: TaskManager, call: CommandCall): void => {
+  switch (call.method) {
+    case 'addTask': manager.addTask(...call.args); break;
+    case 'importTasks': manager.importTasks(...call.args); break;
+    case 'editTask': manager.editTask(...call.args); break;
+    case 'removeTask': manager.removeTask(...call.args); break;
+    case 'start': manager.start(...call.args); break;
+    case 'pause': manager.pause(...call.args); break;
+    case 'reset': manager.reset(...call.args); break;
+    case 'updateRequirement': manager.updateRequirement(...call.args); break;
+    case 'increment': manager.increment(...call.args); break;
+    case 'decrement': manager.decrement(...call.args); break;
+    case 'setValue': manager.setValue(...call.args); break;
+    case 'toggle': manager.toggle(...call.args); break;
+    case 'unfulfill': manager.unfulfill(...call.args); break;
+    case 'undo': manager.undo(...call.args); break;
+    case 'redo': manager.redo(...call.args); break;
+  }
+};
@@ -0,0 +1,77 @@
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { Task } from '../../types';
+import { TaskRepository } from './taskRepository';
+import { StoredTaskDocument, migrateDocument, toDocument } from './migrations';
+
+/**
+ * Stores all task documents in a single JSON file. Node only, for headless use.
+ * Writes are serialized and go through a temporary file, so a crash never leaves a half-written store.
+ * Unreadable documents are skipped on load and written back unchanged; a file that is not a JSON list fails the load.
+ */
+export class FileTaskRepository implements TaskRepository {
+  private documents: Promise<Map<string, StoredTaskDocument>> | null = null;
+  private unreadable: unknown[] = [];
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async loadAll(): Promise<Task[]> {
+    const documents = await this.read();
+    return [...documents.values()].map(doc => doc.task);
+  }
+
+  async save(task: Task): Promise<void> {
+    const documents = await this.read();
+    documents.set(task.id, toDocument(task));
+    return this.flush();
+  }
+
+  async remove(id: string): Promise<void> {
+    const documents = await this.read();
+    if (!documents.delete(id)) return;
+    return this.flush();
+  }
+
+  private read(): Promise<Map<string, StoredTaskDocument>> {
+    if (!this.documents) {
+      this.documents = (async () => {
+        let raw: unknown = [];
+        try {
+          raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+        } catch (e) {
+          if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+        }
+        if (!Array.isArray(raw)) throw new Error(`${this.filePath} does not hold a list of task documents`);
+
+        const documents = new Map<string, StoredTaskDocument>();
+        this.unreadable = [];
+        raw.forEach((entry, i) => {
+          try {
+            const doc = migrateDocument(entry);
+            documents.set(doc.task.id, doc);
+          } catch (error) {
+            console.error(`Skipping unreadable stored task at index ${i} of ${this.filePath}:`, error);
+            this.unreadable.push(entry);
+          }
+        });
+        return documents;
+      })();
+      // Read again next time rather than keep failing
+      this.documents.catch(() => {
+        this.documents = null;
+      });
+    }
+    return this.documents;
+  }
+
+  private flush(): Promise<void> {
+    // A failed write must not block the ones queued after it
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      const documents = await this.read();
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify([...documents.values(), ...this.unreadable], null, 2), 'utf8');
+      await rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
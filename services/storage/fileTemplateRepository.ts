@@ -0,0 +1,61 @@
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { TaskTemplate } from '../../types';
+import { TemplateRepository } from './templateRepository';
+
+/**
+ * Stores every template version in a single JSON file. Node only, the template counterpart of FileTaskRepository.
+ */
+export class FileTemplateRepository implements TemplateRepository {
+  private templates: Promise<TaskTemplate[]> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async loadAll(): Promise<TaskTemplate[]> {
+    return [...await this.read()];
+  }
+
+  async save(template: TaskTemplate): Promise<void> {
+    const templates = await this.read();
+    const index = templates.findIndex(t => t.id === template.id && t.version === template.version);
+    if (index === -1) templates.push(template);
+    else templates[index] = template;
+    return this.flush();
+  }
+
+  async remove(id: string): Promise<void> {
+    const templates = await this.read();
+    const kept = templates.filter(t => t.id !== id);
+    if (kept.length === templates.length) return;
+    templates.splice(0, templates.length, ...kept);
+    return this.flush();
+  }
+
+  private read(): Promise<TaskTemplate[]> {
+    if (!this.templates) {
+      this.templates = (async () => {
+        try {
+          return JSON.parse(await readFile(this.filePath, 'utf8'));
+        } catch (e) {
+          if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+          return [];
+        }
+      })();
+      // Read again next time rather than keep failing
+      this.templates.catch(() => {
+        this.templates = null;
+      });
+    }
+    return this.templates;
+  }
+
+  private flush(): Promise<void> {
+    // A failed write must not block the ones queued after it
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(await this.read(), null, 2), 'utf8');
+      await rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
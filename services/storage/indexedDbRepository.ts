@@ -0,0 +1,63 @@
+import { Task } from '../../types';
+import { TaskRepository } from './taskRepository';
+import { migrateDocument, toDocument } from './migrations';
+
+const STORE_NAME = 'tasks';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Stores task documents in an IndexedDB object store keyed by task id.
+ * Suited for large boards that outgrow localStorage quotas. Unreadable documents are skipped on load and left in place.
+ */
+export class IndexedDbTaskRepository implements TaskRepository {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'questengine') {}
+
+  async loadAll(): Promise<Task[]> {
+    const store = await this.store('readonly');
+    const [keys, docs] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+    const tasks: Task[] = [];
+    docs.forEach((doc, i) => {
+      try {
+        tasks.push(migrateDocument(doc).task);
+      } catch (error) {
+        console.error(`Skipping unreadable stored task "${String(keys[i])}":`, error);
+      }
+    });
+    return tasks;
+  }
+
+  async save(task: Task): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.put(toDocument(task), task.id));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisify(store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        // Documents carry their own schema version, so the object store itself never needs to change.
+        request.result.createObjectStore(STORE_NAME);
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
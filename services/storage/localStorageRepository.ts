@@ -0,0 +1,35 @@
+import { Task } from '../../types';
+import { TaskRepository } from './taskRepository';
+import { migrateDocument, toDocument } from './migrations';
+
+const DEFAULT_PREFIX = 'questengine:task:';
+
+/**
+ * Stores each task as one JSON document under `<prefix><taskId>` in window.localStorage.
+ * Unreadable documents are skipped on load and left in place.
+ */
+export class LocalStorageTaskRepository implements TaskRepository {
+  constructor(private prefix: string = DEFAULT_PREFIX, private storage: Storage = window.localStorage) {}
+
+  async loadAll(): Promise<Task[]> {
+    const tasks: Task[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key || !key.startsWith(this.prefix)) continue;
+      try {
+        tasks.push(migrateDocument(JSON.parse(this.storage.getItem(key)!)).task);
+      } catch (error) {
+        console.error(`Skipping unreadable stored task "${key}":`, error);
+      }
+    }
+    return tasks;
+  }
+
+  async save(task: Task): Promise<void> {
+    this.storage.setItem(this.prefix + task.id, JSON.stringify(toDocument(task)));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.storage.removeItem(this.prefix + id);
+  }
+}
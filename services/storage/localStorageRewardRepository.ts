@@ -0,0 +1,42 @@
+import { RewardLedgerState } from '../../types';
+import { RewardRepository } from './rewardRepository';
+
+const DEFAULT_KEY = 'questengine:rewards';
+
+/**
+ * Stores the reward ledger as one JSON document under `<key>` in window.localStorage.
+ * An unreadable document loads as an empty ledger and is replaced on the next save.
+ */
+export class LocalStorageRewardRepository implements RewardRepository {
+  constructor(private key: string = DEFAULT_KEY, private storage: Storage = window.localStorage) {}
+
+  async load(): Promise<RewardLedgerState | undefined> {
+    const stored = this.storage.getItem(this.key);
+    if (stored === null) return undefined;
+    try {
+      const state = JSON.parse(stored);
+      if (!Array.isArray(state?.grants) || typeof state.unlocked !== 'object' || state.unlocked === null) {
+        throw new Error('not a reward ledger');
+      }
+      return state;
+    } catch (error) {
+      console.warn(`Starting an empty reward ledger; "${this.key}" is unreadable:`, error);
+      return undefined;
+    }
+  }
+
+  async save(state: RewardLedgerState): Promise<void> {
+    this.storage.setItem(this.key, JSON.stringify(state));
+  }
+
+  /**
+   * Calls the listener whenever another tab saves the ledger.
+   */
+  subscribe(listener: () => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea === this.storage && event.key === this.key) listener();
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }
+}
@@ -0,0 +1,41 @@
+import { TaskTemplate } from '../../types';
+import { TemplateRepository } from './templateRepository';
+
+const DEFAULT_PREFIX = 'questengine:template:';
+
+/**
+ * Stores each template version as one JSON document under `<prefix><templateId>@<version>` in window.localStorage.
+ * Unreadable documents are skipped on load and left in place.
+ */
+export class LocalStorageTemplateRepository implements TemplateRepository {
+  constructor(private prefix: string = DEFAULT_PREFIX, private storage: Storage = window.localStorage) {}
+
+  async loadAll(): Promise<TaskTemplate[]> {
+    const templates: TaskTemplate[] = [];
+    this.keys().forEach(key => {
+      try {
+        templates.push(JSON.parse(this.storage.getItem(key)!));
+      } catch (error) {
+        console.error(`Skipping unreadable stored template "${key}":`, error);
+      }
+    });
+    return templates;
+  }
+
+  async save(template: TaskTemplate): Promise<void> {
+    this.storage.setItem(`${this.prefix}${template.id}@${template.version}`, JSON.stringify(template));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.keys().filter(key => key.startsWith(`${this.prefix}${id}@`)).forEach(key => this.storage.removeItem(key));
+  }
+
+  private keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.prefix)) keys.push(key);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,119 @@
+import { Task } from '../../types';
+
+/**
+ * Version of the stored document layout. Bump it together with a new entry in MIGRATIONS
+ * whenever Task/Requirement change in a way old saves can't be read as-is.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface StoredTaskDocument {
+  schemaVersion: number;
+  task: Task;
+}
+
+type StoredObject = Record<string, unknown>;
+type Migration = (doc: StoredObject) => StoredObject;
+
+const isObject = (value: unknown): value is StoredObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Old documents are checked as far as a migration reads them, so a broken one fails instead of loading half-upgraded
+const asObject = (value: unknown, what: string): StoredObject => {
+  if (!isObject(value)) throw new Error(`Stored ${what} is not an object`);
+  return value;
+};
+
+const asList = (value: unknown, what: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`Stored ${what} is not a list`);
+  return value;
+};
+
+const asNumber = (value: unknown): number => typeof value === 'number' ? value : 0;
+
+/**
+ * MIGRATIONS[n] upgrades a document from version n to n + 1.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: bare Task objects saved before documents were versioned
+  0: (task) => ({ schemaVersion: 1, task }),
+
+  // v1: elapsedTime was accumulated by ticks and TICK actions carried deltaSeconds.
+  // Time is now derived from segments, so seed one segment that covers the elapsed time.
+  1: (doc) => {
+    const task = asObject(doc.task, 'task');
+    const updatedAt = asNumber(task.updatedAt);
+    const elapsedTime = asNumber(task.elapsedTime);
+    const startedAt = updatedAt - elapsedTime * 1000;
+    const timeSegments = elapsedTime > 0
+      ? [task.status === 'RUNNING' ? { startedAt } : { startedAt, pausedAt: updatedAt }]
+      : [];
+    const stripTickPayload = (action: unknown) => {
+      return isObject(action) && action.type === 'TICK' ? { type: 'TICK', timestamp: action.timestamp } : action;
+    };
+    const history = isObject(task.history) ? {
+      ...task.history,
+      actions: asList(task.history.actions, 'history actions').map(stripTickPayload),
+      undone: asList(task.history.undone, 'history actions').map(stripTickPayload)
+    } : task.history;
+    return { schemaVersion: 2, task: { ...task, timeSegments, history } };
+  },
+
+  // v2: requirements had isExpired, and exceeding valueLimit only disabled them.
+  // Both are now failures with a reason.
+  2: (doc) => {
+    const migrateRequirement = (raw: unknown): StoredObject => {
+      const { isExpired, ...rest } = asObject(raw, 'requirement');
+      const children = rest.children === undefined ? undefined : asList(rest.children, 'requirement children').map(migrateRequirement);
+      if (isExpired) {
+        const failureReason = rest.deadline !== undefined ? 'DEADLINE' : rest.timeLimit !== undefined ? 'TIME_LIMIT' : 'CHILD_FAILED';
+        return { ...rest, children, isFailed: true, failureReason };
+      }
+      if (rest.type === 'NUMERIC' && typeof rest.valueLimit === 'number' && asNumber(rest.currentValue) > rest.valueLimit) {
+        return { ...rest, children, isFailed: true, failureReason: 'VALUE_LIMIT', isDisabled: !!rest.isOptional };
+      }
+      return { ...rest, children };
+    };
+    const migrateTask = (raw: unknown): StoredObject => {
+      const t = asObject(raw, 'task');
+      return { ...t, requirements: asList(t.requirements, 'requirements').map(migrateRequirement) };
+    };
+    const task = asObject(doc.task, 'task');
+    const history = isObject(task.history) ? { ...task.history, initial: migrateTask(task.history.initial) } : task.history;
+    return { schemaVersion: 3, task: { ...migrateTask(task), history } };
+  }
+};
+
+const getVersion = (raw: StoredObject): number => {
+  return typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+};
+
+export const toDocument = (task: Task): StoredTaskDocument => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  task
+});
+
+/**
+ * Upgrades a stored document of any known version to the current layout.
+ * Throws for documents written by a newer version of the app.
+ */
+export const migrateDocument = (raw: unknown): StoredTaskDocument => {
+  let doc = asObject(raw, 'task');
+  let version = getVersion(doc);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Stored task uses schema version ${version}, but this build only supports up to ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    doc = migrate(doc);
+    version = getVersion(doc);
+  }
+
+  // The task itself is validated when the manager normalizes it on load
+  return doc as unknown as StoredTaskDocument;
+};
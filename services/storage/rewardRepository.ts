@@ -0,0 +1,9 @@
+import { RewardLedgerState } from '../../types';
+
+/**
+ * Persistence boundary for the reward ledger. The ledger is small and append-only, so it is stored as one document.
+ */
+export interface RewardRepository {
+  load(): Promise<RewardLedgerState | undefined>; // Undefined when nothing was saved yet
+  save(state: RewardLedgerState): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { Task } from '../../types';
+
+/**
+ * Persistence boundary for tasks. Adapters store versioned documents (see migrations.ts)
+ * and hand back tasks already migrated to the current schema.
+ */
+export interface TaskRepository {
+  loadAll(): Promise<Task[]>;
+  save(task: Task): Promise<void>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { TaskTemplate } from '../../types';
+
+/**
+ * Persistence boundary for the template library. Every saved version is kept, so tasks can
+ * always be traced back to the exact template they came from.
+ */
+export interface TemplateRepository {
+  loadAll(): Promise<TaskTemplate[]>; // Every version of every template
+  save(template: TaskTemplate): Promise<void>; // Stores one version; id and version are set
+  remove(id: string): Promise<void>; // Removes all versions
+}
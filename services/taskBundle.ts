@@ -0,0 +1,267 @@
+import { Task, Prerequisite } from '../types';
+import { resetTask } from './taskEngine';
+import { CURRENT_SCHEMA_VERSION, migrateDocument } from './storage/migrations';
+import { normalizeTask, TaskValidationError, ValidationIssue } from './taskValidation';
+
+/**
+ * Bundles move tasks between boards as JSON: downloaded files, pasted text or compressed URL fragments.
+ * Tasks inside a bundle use the storage schema (see storage/migrations.ts), so bundles from older
+ * builds are upgraded on import just like stored tasks.
+ */
+
+export const BUNDLE_FORMAT = 'questengine-bundle';
+export const CURRENT_BUNDLE_VERSION = 1;
+
+const URL_FRAGMENT_KEY = 'bundle';
+
+// Deflate packs repetitive JSON very tightly, so a short link could otherwise inflate until memory runs out
+const MAX_INFLATED_BYTES = 5 * 1024 * 1024;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isVersion = (value: unknown): value is number => Number.isInteger(value);
+
+export interface TaskBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number; // Layout of the bundle itself
+  schemaVersion: number; // Layout of the tasks inside it
+  exportedAt: number;
+  tasks: Task[];
+}
+
+export interface BundleOptions {
+  stripRuntimeState?: boolean; // Export tasks as clean, never-started definitions
+  now?: number;
+}
+
+export type ConflictResolution = 'SKIP' | 'OVERWRITE' | 'CLONE';
+
+export interface ImportPlan {
+  tasks: Task[]; // Tasks to add or overwrite, with ids already resolved
+  overwritten: string[]; // Existing ids that get replaced
+  skipped: string[]; // Incoming ids that are left out
+  cloned: Record<string, string>; // Incoming id -> new id
+}
+
+/**
+ * Removes everything a task accumulated while being used, keeping its definition.
+ */
+export const stripRuntimeState = (task: Task, now: number = Date.now()): Task => {
+  const {
+    history, occurrences, periodStart, nextOccurrenceAt, unlockedAt, failure, firedWarnings, revision, ...rest
+  } = resetTask(task, now);
+  return { ...rest, timeSegments: [] };
+};
+
+export const createBundle = (tasks: Task[], options: BundleOptions = {}): TaskBundle => {
+  const now = options.now ?? Date.now();
+  return {
+    format: BUNDLE_FORMAT,
+    version: CURRENT_BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: now,
+    tasks: options.stripRuntimeState ? tasks.map(task => stripRuntimeState(task, now)) : tasks
+  };
+};
+
+export const serializeBundle = (bundle: TaskBundle): string => JSON.stringify(bundle, null, 2);
+
+/**
+ * Reads a bundle from parsed JSON. A bare task or an array of tasks is accepted as well.
+ * Every task is migrated and validated; validation issues are reported with the task's position.
+ */
+export const readBundle = (raw: unknown): TaskBundle => {
+  const bundle: Record<string, unknown> = isObject(raw) && raw.format === BUNDLE_FORMAT
+    ? raw
+    : { format: BUNDLE_FORMAT, version: CURRENT_BUNDLE_VERSION, tasks: Array.isArray(raw) ? raw : [raw] };
+  const { version, schemaVersion, exportedAt, tasks: rawTasks } = bundle;
+
+  const issues: ValidationIssue[] = [];
+  if (!isVersion(version)) issues.push({ path: 'version', message: 'must be a whole number' });
+  if (schemaVersion !== undefined && !isVersion(schemaVersion)) issues.push({ path: 'schemaVersion', message: 'must be a whole number' });
+  if (!Array.isArray(rawTasks)) issues.push({ path: 'tasks', message: 'must be an array' });
+  if (issues.length > 0 || !isVersion(version) || !Array.isArray(rawTasks)) throw new TaskValidationError('bundle', issues);
+
+  if (version > CURRENT_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${version} is newer than this build supports (${CURRENT_BUNDLE_VERSION})`);
+  }
+
+  // Bare tasks carry no schema version; treat them as current rather than as unversioned saves.
+  const taskSchemaVersion = schemaVersion ?? CURRENT_SCHEMA_VERSION;
+  const tasks = rawTasks.map((task: unknown, i: number) => {
+    try {
+      return normalizeTask(migrateDocument({ schemaVersion: taskSchemaVersion, task }).task);
+    } catch (e) {
+      if (!(e instanceof TaskValidationError)) throw e;
+      throw new TaskValidationError('bundle', e.issues.map(issue => ({
+        path: issue.path ? `tasks[${i}].${issue.path}` : `tasks[${i}]`,
+        message: issue.message
+      })));
+    }
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof exportedAt === 'number' ? exportedAt : Date.now(),
+    tasks
+  };
+};
+
+/**
+ * Parses bundle text (a file's contents or a paste). Throws with a readable message on malformed JSON.
+ */
+export const parseBundle = (text: string): TaskBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${(e as Error).message}`);
+  }
+  return readBundle(raw);
+};
+
+// --- URL Fragments ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_INFLATED_BYTES) {
+      await reader.cancel();
+      throw new TaskValidationError('bundle', [{ path: '', message: `must not be larger than ${MAX_INFLATED_BYTES} bytes` }]);
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+};
+
+/**
+ * Encodes a bundle as a compact, deflate-compressed URL fragment ("bundle=...", without the "#").
+ */
+export const encodeBundleFragment = async (bundle: TaskBundle): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(bundle));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  return `${URL_FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+};
+
+/**
+ * Whether a URL or fragment carries a bundle.
+ */
+export const hasBundleFragment = (urlOrFragment: string): boolean => {
+  return new URLSearchParams(urlOrFragment.slice(urlOrFragment.indexOf('#') + 1)).has(URL_FRAGMENT_KEY);
+};
+
+/**
+ * Decodes a bundle from a full URL, a "#bundle=..." fragment or the bare fragment value.
+ * Throws a TaskValidationError for bundles that inflate past MAX_INFLATED_BYTES.
+ */
+export const decodeBundleFragment = async (urlOrFragment: string): Promise<TaskBundle> => {
+  const fragment = urlOrFragment.slice(urlOrFragment.indexOf('#') + 1);
+  const encoded = new URLSearchParams(fragment).get(URL_FRAGMENT_KEY) ?? fragment;
+
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await inflate(fromBase64Url(encoded)));
+  } catch (e) {
+    if (e instanceof TaskValidationError) throw e;
+    throw new Error('The link does not contain a readable bundle');
+  }
+  return parseBundle(json);
+};
+
+// --- Import ---
+
+/**
+ * Lists the incoming task ids that already exist.
+ */
+export const findImportConflicts = (incoming: Task[], existing: Task[]): string[] => {
+  const existingIds = new Set(existing.map(t => t.id));
+  return incoming.filter(t => existingIds.has(t.id)).map(t => t.id);
+};
+
+/**
+ * Decides what happens to each incoming task. `resolution` applies to every conflict, or per id
+ * (conflicts without an entry are skipped). Clones get new ids, and prerequisites between tasks
+ * of the same bundle follow them.
+ */
+export const planImport = (
+  incoming: Task[],
+  existing: Task[],
+  resolution: ConflictResolution | Record<string, ConflictResolution>
+): ImportPlan => {
+  const conflicts = new Set(findImportConflicts(incoming, existing));
+  const resolve = (id: string): ConflictResolution =>
+    typeof resolution === 'string' ? resolution : resolution[id] ?? 'SKIP';
+
+  const plan: ImportPlan = { tasks: [], overwritten: [], skipped: [], cloned: {} };
+  incoming.forEach(task => {
+    if (!conflicts.has(task.id)) {
+      plan.tasks.push(task);
+      return;
+    }
+    switch (resolve(task.id)) {
+      case 'SKIP':
+        plan.skipped.push(task.id);
+        break;
+      case 'OVERWRITE':
+        plan.overwritten.push(task.id);
+        plan.tasks.push(task);
+        break;
+      case 'CLONE': {
+        const id = crypto.randomUUID();
+        plan.cloned[task.id] = id;
+        plan.tasks.push({ ...task, id });
+        break;
+      }
+    }
+  });
+
+  // Point prerequisites at the clones, so a cloned quest line stays linked to itself
+  const remap = (prereq: Prerequisite): Prerequisite => {
+    if (prereq.type === 'TASK_STATUS') return { ...prereq, taskId: plan.cloned[prereq.taskId] ?? prereq.taskId };
+    return { ...prereq, conditions: prereq.conditions.map(remap) };
+  };
+  // History replays start from the initial snapshot, so it has to follow the new ids as well
+  const relink = <T extends Omit<Task, 'history'>>(task: T, id: string): T => ({
+    ...task,
+    id,
+    prerequisites: task.prerequisites?.map(remap)
+  });
+  if (Object.keys(plan.cloned).length > 0) {
+    plan.tasks = plan.tasks.map(task => {
+      const history = task.history && { ...task.history, initial: relink(task.history.initial, task.id) };
+      return { ...relink(task, task.id), history };
+    });
+  }
+
+  return plan;
+};
@@ -1,96 +1,390 @@
-import { Task, Requirement, TaskStatus, RequirementType } from '../types';
+import { Task, Requirement, TaskStatus, RequirementType, RequirementFailureReason, TimeSegment } from '../types';
+import { evaluateCondition } from './conditions';
+import { getRequirementType } from './requirementRegistry';
+import { parseWarningKey, updateFiredWarnings } from './timeWarnings';
+import { findRequirementPath, getRequirementAt, updateRequirementAt } from './requirementTree';
+import { buildRequirementGraph, collectAffected, RequirementGraph, STRUCTURAL_FIELDS } from './requirementGraph';
+import { aggregateContributions, applyContribution, getXorChoices, isParticipantRequirement, isPerParticipantXor } from './participants';
+
+const MAX_EVALUATION_PASSES = 10;
+
+interface EvaluationContext {
+  task: Task;
+  now: number;
+  graph: RequirementGraph;
+  base: Requirement[]; // The tree as the pass began
+  pending?: Set<string>; // Requirements to evaluate this pass, including the groups around them. All when unset.
+  replaced: Map<string, Requirement>; // Requirements whose state changed this pass
+  reset: Set<string>; // Descendants a retry started over, which count as changed too
+  xorChoices: Map<string, Map<string, string>>; // Participant-scoped XOR groups, see services/participants.ts
+}
+
+// The requirement's current state within the pass, for cross-tree references
+const lookup = (ctx: EvaluationContext, id: string): Requirement | undefined => {
+  const path = ctx.graph.paths.get(id);
+  return ctx.replaced.get(id) ?? (path && getRequirementAt(ctx.base, path));
+};
+
+/**
+ * Requirement trees that evaluateTaskState settled, with the graph that describes them and the task settings the
+ * state depends on. Evaluating such a tree again only visits what changed since; everything else keeps its identity.
+ */
+interface SettledTree {
+  graph: RequirementGraph;
+  participants?: Task['participants'];
+  failurePolicy?: Task['failurePolicy'];
+}
+
+const settledTrees = new WeakMap<Requirement[], SettledTree>();
+
+// The graph of a tree the engine settled, unless settings it was settled under have changed since
+const getSettledGraph = (task: Task): RequirementGraph | undefined => {
+  const settled = settledTrees.get(task.requirements);
+  if (!settled || settled.participants !== task.participants || settled.failurePolicy !== task.failurePolicy) return undefined;
+  return settled.graph;
+};
+
+/**
+ * Decides whether a list of sibling requirements satisfies its parent.
+ * - With minFulfilled, at least that many enabled children must be fulfilled (N-of-M).
+ * - Otherwise every mandatory child must be fulfilled. Members of the same XOR group count as one slot
+ *   that is satisfied by any member; XOR-disabled members are ignored.
+ * Fail conditions never count towards satisfying a parent.
+ */
+const areChildrenSatisfied = (children: Requirement[], minFulfilled?: number): boolean => {
+  const candidates = children.filter(c => !c.isFailCondition);
+  if (minFulfilled !== undefined) {
+    return candidates.filter(c => c.isFulfilled && !c.isDisabled).length >= minFulfilled;
+  }
+
+  const xorSlots = new Map<string, boolean>();
+  for (const child of candidates) {
+    if (child.xorGroup) {
+      if (!child.isOptional && !child.isDisabled) {
+        xorSlots.set(child.xorGroup, xorSlots.get(child.xorGroup) || child.isFulfilled);
+      }
+      continue;
+    }
+    if (!child.isOptional && !child.isFulfilled) return false;
+  }
+
+  // A slot whose winner sits elsewhere in the tree has no enabled local members and is not listed.
+  return [...xorSlots.values()].every(Boolean);
+};
+
+/**
+ * Decides whether failed children make it impossible for their parent to be satisfied anymore.
+ * Mirrors areChildrenSatisfied: an XOR slot only fails once every enabled member has.
+ * A failed fail condition always fails its parent.
+ */
+const isBranchFailed = (children: Requirement[], minFulfilled?: number): boolean => {
+  if (children.some(c => c.isFailCondition && c.isFailed)) return true;
+
+  const candidates = children.filter(c => !c.isFailCondition);
+  if (minFulfilled !== undefined) {
+    return candidates.filter(c => c.isFulfilled || (!c.isFailed && !c.isDisabled)).length < minFulfilled;
+  }
+
+  const xorSlots = new Map<string, boolean>(); // Slot -> still achievable
+  for (const child of candidates) {
+    if (child.isOptional) continue;
+    if (child.xorGroup) {
+      if (!child.isDisabled) {
+        xorSlots.set(child.xorGroup, xorSlots.get(child.xorGroup) || !child.isFailed);
+      }
+      continue;
+    }
+    if (child.isFailed) return true;
+  }
+
+  return [...xorSlots.values()].some(achievable => !achievable);
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Returns why a requirement fails in its current state, if it does.
+ */
+const detectFailure = (req: Requirement, ctx: EvaluationContext): RequirementFailureReason | undefined => {
+  if (req.isFailCondition) return req.isFulfilled ? 'FAIL_CONDITION' : undefined;
+  if (req.type === RequirementType.NUMERIC && req.valueLimit !== undefined && (req.currentValue ?? 0) > req.valueLimit) {
+    return 'VALUE_LIMIT';
+  }
+
+  // Fulfilled requirements never run out of time
+  if (req.isFulfilled) return undefined;
+  if (req.timeLimit !== undefined && ctx.task.elapsedTime - (req.attemptStartedAt ?? 0) >= req.timeLimit) return 'TIME_LIMIT';
+  if (req.deadline !== undefined && ctx.now >= req.deadline) return 'DEADLINE';
+  if (req.type === RequirementType.GROUP && req.children?.length && isBranchFailed(req.children, req.minFulfilled)) {
+    return 'CHILD_FAILED';
+  }
+  return undefined;
+};
 
 /**
- * Deep clones a task to ensure immutability during state updates.
+ * Whether the task's policy grants another attempt. Deadlines don't move and failed children
+ * have used up their own attempts, so neither is retried.
  */
-export const cloneTask = (task: Task): Task => {
-  return JSON.parse(JSON.stringify(task));
+const canRetry = (req: Requirement, reason: RequirementFailureReason, task: Task): boolean => {
+  const policy = task.failurePolicy;
+  if (policy?.mode !== 'RETRY' || reason === 'DEADLINE' || reason === 'CHILD_FAILED') return false;
+  return (req.attempts ?? 1) < (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
 };
 
 /**
- * Evaluates a single requirement's fulfillment status.
- * Note: This is a pure function but expects the whole tree context if we were to support cross-tree dependencies fully.
- * For now, it handles local state and children.
+ * Clears a requirement's runtime state (and its children's) back to how it was before the task started.
  */
-const evaluateRequirement = (req: Requirement, allSiblings: Requirement[] = []): Requirement => {
+const resetRequirement = (req: Requirement): Requirement => {
+  const generic: Requirement = {
+    ...req,
+    isFulfilled: false,
+    isDisabled: false,
+    isHidden: !!req.visibleWhen, // Re-evaluated once the task starts
+    isFailed: false,
+    failureReason: undefined,
+    attempts: undefined,
+    attemptStartedAt: undefined,
+    currentValue: undefined,
+    contributions: undefined,
+    children: req.children ? req.children.map(resetRequirement) : undefined
+  };
+  // Types clear their own runtime state (e.g. counters back to 0, plugin data in customData)
+  const definition = getRequirementType(req.type);
+  return definition?.reset ? definition.reset(generic) : generic;
+};
+
+/**
+ * Resets a failed requirement in place for its next attempt. A time limit restarts when the previous
+ * attempt ran out, so catching up after a long gap can use up several attempts at once.
+ */
+const retryRequirement = (req: Requirement, reason: RequirementFailureReason, ctx: EvaluationContext): void => {
+  const attemptStartedAt = reason === 'TIME_LIMIT'
+    ? (req.attemptStartedAt ?? 0) + req.timeLimit!
+    : ctx.task.elapsedTime;
+  Object.assign(req, resetRequirement(req), { attempts: (req.attempts ?? 1) + 1, attemptStartedAt });
+  const retried = new Set([req.id]);
+  const markReset = (children: Requirement[] = []) => children.forEach(child => {
+    ctx.reset.add(child.id);
+    retried.add(child.id);
+    markReset(child.children);
+  });
+  markReset(req.children);
+  // The new attempt warns again as its time runs down
+  ctx.task.firedWarnings = ctx.task.firedWarnings?.filter(key => {
+    const { requirementId } = parseWarningKey(key);
+    return requirementId === undefined || !retried.has(requirementId);
+  });
+};
+
+/**
+ * Evaluates a single requirement's fulfillment status on a copy. Returns the requirement itself when nothing
+ * changed, so untouched subtrees keep their identity, and records the copy in the context otherwise.
+ * Requirements outside the pass's pending set are returned as they are.
+ */
+const evaluateRequirement = (req: Requirement, ctx: EvaluationContext): Requirement => {
+  if (ctx.pending && !ctx.pending.has(req.id)) return req;
+  const next = { ...req };
+  updateRequirementState(next, ctx);
+  if (isSameState(req, next)) return req;
+  ctx.replaced.set(req.id, next);
+  return next;
+};
+
+// Shallow comparison; a key holding undefined counts as absent
+const isSameState = (a: Requirement, b: Requirement): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Requirement>;
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+};
+
+const evaluateChildren = (children: Requirement[], ctx: EvaluationContext): Requirement[] => {
+  const evaluated = children.map(child => evaluateRequirement(child, ctx));
+  return evaluated.some((child, i) => child !== children[i]) ? evaluated : children;
+};
+
+/**
+ * Brings a requirement's state in line with its data, children and the rest of the tree. Mutates the copy it is given.
+ */
+const updateRequirementState = (req: Requirement, ctx: EvaluationContext): void => {
+  const find = (id: string) => lookup(ctx, id);
+
+  // 0. Visibility
+  req.isHidden = req.visibleWhen ? !evaluateCondition(req.visibleWhen, find) : false;
+
   // 1. Check XOR locks first
-  // If any sibling with the same XOR group is fulfilled AND it's not THIS requirement, then this requirement is disabled.
-  if (req.xorGroup) {
-    const xorWinner = allSiblings.find(
-      (s) => s.id !== req.id && s.xorGroup === req.xorGroup && s.isFulfilled
+  // If any other requirement with the same XOR group is fulfilled, then this requirement is disabled.
+  // Participant-scoped groups lock per participant instead, when their input is recorded.
+  if (req.xorGroup && !isPerParticipantXor(req, ctx.task)) {
+    const xorWinner = (ctx.graph.xorMembers.get(req.xorGroup) ?? []).find(
+      (id) => id !== req.id && find(id)?.isFulfilled
     );
     if (xorWinner) {
       req.isDisabled = true;
       req.isFulfilled = false; // Cannot be fulfilled if disabled
-      return req;
-    } else {
-      req.isDisabled = false;
+      return;
     }
   }
+  req.isDisabled = false;
 
   // 2. Check Logic based on type
-  if (req.type === RequirementType.BOOLEAN) {
-    // Boolean is manually toggled, logic mainly handles the 'isDisabled' part above.
-    // However, if it has children, it might act as a group. We assume strict types here.
-  } else if (req.type === RequirementType.NUMERIC) {
-    const current = req.currentValue ?? 0;
-    const target = req.targetValue ?? 1;
-    if (current >= target) {
-      req.isFulfilled = true;
-    } else {
-      req.isFulfilled = false;
-    }
-    
-    // Check limit
-    if (req.valueLimit !== undefined && current > req.valueLimit) {
-       // If logic dictates exceeding limit fails the requirement or resets. 
-       // For this engine, let's say it just prevents fulfillment or caps it?
-       // The prompt says "if x reaches x_limit, requirement cannot be fulfilled".
-       req.isFulfilled = false;
-       req.isDisabled = true; 
-    }
-  } else if (req.type === RequirementType.GROUP) {
+  if (req.type === RequirementType.GROUP) {
     if (req.children && req.children.length > 0) {
       // Recursively evaluate children first
-      req.children = req.children.map(child => evaluateRequirement(child, req.children));
-      
-      // Group is fulfilled if all MANDATORY (non-optional) children are fulfilled.
-      // And children that are disabled (due to XOR) count as ignored if they aren't the winner? 
-      // No, usually in XOR, the group waits for one to be fulfilled.
-      
-      // Simplified Logic: 
-      // 1. All non-optional, non-disabled children must be fulfilled.
-      // 2. If a child is XOR-locked (disabled), it is effectively excluded from the requirement check 
-      //    UNLESS all members of an XOR group are unfulfilled, then the requirement of "having that xor group satisfied" exists?
-      //    Let's stick to: Group is complete when all non-optional children are fulfilled.
-      
-      const relevantChildren = req.children.filter(c => !c.isOptional);
-      
-      if (relevantChildren.length === 0) {
-        req.isFulfilled = true; // Empty group or all optional
-      } else {
-        const allMet = relevantChildren.every(c => c.isFulfilled);
-        req.isFulfilled = allMet;
-      }
+      req.children = evaluateChildren(req.children, ctx);
+      req.isFulfilled = areChildrenSatisfied(req.children, req.minFulfilled);
     } else {
       req.isFulfilled = true; // Empty group
     }
+  } else if (req.type === RequirementType.BOOLEAN && req.fulfillWhen) {
+    // Boolean is manually toggled, unless it is derived from a condition.
+    req.isFulfilled = evaluateCondition(req.fulfillWhen, find);
+  } else if (isPerParticipantXor(req, ctx.task)) {
+    // Fulfilled once every participant has made their choice in the group
+    Object.assign(req, aggregateContributions(req, ctx.task, ctx.xorChoices));
+  } else {
+    // Group quests derive the shared value from everyone's contributions first
+    if (isParticipantRequirement(req, ctx.task)) Object.assign(req, aggregateContributions(req, ctx.task, ctx.xorChoices));
+    // Every other type (built-in or plugin) computes its own fulfillment. Unknown types never fulfill.
+    const definition = getRequirementType(req.type);
+    req.isFulfilled = definition?.evaluate ? definition.evaluate(req, { task: ctx.task, lookup: find }) : false;
+  }
+
+  // 3. Additional cross-tree condition
+  if (req.fulfillWhen && req.type !== RequirementType.BOOLEAN && req.isFulfilled) {
+    req.isFulfilled = evaluateCondition(req.fulfillWhen, find);
+  }
+
+  // 4. Failure. Under a RETRY policy the requirement starts over instead; otherwise it stays failed until reset.
+  if (!req.isFailed) {
+    const reason = detectFailure(req, ctx);
+    if (reason && canRetry(req, reason, ctx.task)) {
+      retryRequirement(req, reason, ctx);
+    } else if (reason) {
+      req.isFailed = true;
+      req.failureReason = reason;
+    }
+  }
+  if (req.isFailed) {
+    req.isFulfilled = false;
+    // An optional branch simply drops out; a mandatory one fails its parent through isBranchFailed.
+    if (req.isOptional && !req.isFailCondition) req.isDisabled = true;
+  }
+};
+
+/**
+ * Finds the requirement a failure originated from, following CHILD_FAILED groups down to the failed child.
+ * With `deep`, also finds mandatory failures that an optional group absorbed (FAIL_TASK policy).
+ * XOR members are alternatives, so only their slot failing (through the parent) counts.
+ */
+const findFailedRequirement = (reqs: Requirement[], deep: boolean): Requirement | undefined => {
+  for (const req of reqs) {
+    if (req.isFailed && (req.isFailCondition || (!req.isOptional && !req.xorGroup))) {
+      return req.failureReason === 'CHILD_FAILED' && req.children
+        ? findFailedRequirement(req.children, false) ?? req
+        : req;
+    }
+    if (deep && req.children) {
+      const inner = findFailedRequirement(req.children, true);
+      if (inner) return inner;
+    }
+  }
+  return undefined;
+};
+
+// --- Time Tracking ---
+
+/**
+ * Sums the running periods of a task in seconds. The open segment counts up to `now`.
+ */
+export const computeElapsedTime = (segments: TimeSegment[] = [], now: number): number => {
+  return segments.reduce((sum, s) => sum + Math.max(0, (s.pausedAt ?? now) - s.startedAt), 0) / 1000;
+};
+
+const hasOpenSegment = (segments: TimeSegment[] = []): boolean => {
+  return segments.length > 0 && segments[segments.length - 1].pausedAt === undefined;
+};
+
+const closeOpenSegment = (segments: TimeSegment[] = [], at: number): TimeSegment[] => {
+  if (!hasOpenSegment(segments)) return segments;
+  return [...segments.slice(0, -1), { ...segments[segments.length - 1], pausedAt: at }];
+};
+
+/**
+ * Brings elapsedTime in line with the segments. Closes the open segment once the task leaves RUNNING.
+ */
+const syncElapsedTime = (task: Task, now: number): void => {
+  // Tasks that were set to RUNNING without going through startTask (e.g. hand-written data)
+  // get an open segment that accounts for the time they already report.
+  if (task.status === TaskStatus.RUNNING && !hasOpenSegment(task.timeSegments)) {
+    task.timeSegments = [{ startedAt: now - task.elapsedTime * 1000 }];
+  }
+  if (task.status !== TaskStatus.RUNNING) {
+    task.timeSegments = closeOpenSegment(task.timeSegments, now);
+  }
+  if (task.timeSegments && task.timeSegments.length > 0) {
+    task.elapsedTime = computeElapsedTime(task.timeSegments, now);
   }
+};
 
-  return req;
+/**
+ * Evaluates requirements until their state settles. Conditions and XOR groups can point anywhere in the tree, so a
+ * requirement may depend on one evaluated after it; each pass after the first only visits what the previous pass
+ * changed and whatever reads it. `changed` lists requirements whose data changed since the tree was last settled;
+ * without it, the first pass visits every requirement.
+ */
+const settleRequirements = (task: Task, now: number, graph: RequirementGraph, changed?: Iterable<string>): boolean => {
+  let pending = changed && collectAffected(graph, changed);
+  for (let pass = 0; pass < MAX_EVALUATION_PASSES; pass++) {
+    const ctx: EvaluationContext = {
+      task,
+      now,
+      graph,
+      base: task.requirements,
+      pending,
+      replaced: new Map(),
+      reset: new Set(),
+      xorChoices: task.participants?.length ? getXorChoices(task) : new Map()
+    };
+    task.requirements = evaluateChildren(task.requirements, ctx);
+    if (ctx.replaced.size === 0 && ctx.reset.size === 0) return true;
+    pending = collectAffected(graph, [...ctx.replaced.keys(), ...ctx.reset]);
+  }
+  return false; // Conditions that contradict each other
 };
 
 /**
- * Runs the evaluation pass on the entire task.
- * Should be called after ANY state change (tick, toggle, increment).
+ * Runs the evaluation pass on the task. Should be called after ANY state change (tick, toggle, increment).
+ * The task is not modified. Requirements whose state stays the same keep their identity, and a tree this function
+ * settled before is only re-evaluated where time can change it (time limits, deadlines and plugin types).
  */
-export const evaluateTaskState = (task: Task): Task => {
-  const newTask = cloneTask(task);
+export const evaluateTaskState = (task: Task, now: number = Date.now()): Task => {
+  const graph = getSettledGraph(task);
+  return graph ? evaluateTask(task, now, graph, []) : evaluateTask(task, now);
+};
+
+const evaluateTask = (task: Task, now: number, graph?: RequirementGraph, changed?: Iterable<string>): Task => {
+  const newTask = { ...task };
+  syncElapsedTime(newTask, now);
   
   // 1. Check Limits (Time)
   if (newTask.timeLimit && newTask.elapsedTime >= newTask.timeLimit) {
     if (newTask.status === TaskStatus.RUNNING) {
       newTask.status = TaskStatus.FAILED;
+      // Stop the clock at the exact moment the limit ran out, even if we only noticed later (e.g. after a reload).
+      const expiredAt = now - (newTask.elapsedTime - newTask.timeLimit) * 1000;
+      newTask.timeSegments = closeOpenSegment(newTask.timeSegments, expiredAt);
+      newTask.elapsedTime = newTask.timeLimit;
+      newTask.failure = { reason: 'TIME_LIMIT' };
+    }
+  }
+  if (newTask.dueAt !== undefined && now >= newTask.dueAt) {
+    if (newTask.status === TaskStatus.RUNNING || newTask.status === TaskStatus.PAUSED) {
+      newTask.status = TaskStatus.FAILED;
+      newTask.timeSegments = closeOpenSegment(newTask.timeSegments, newTask.dueAt);
+      newTask.elapsedTime = computeElapsedTime(newTask.timeSegments, now);
+      newTask.failure = { reason: 'DUE_DATE' };
     }
   }
 
@@ -101,106 +395,129 @@ export const evaluateTaskState = (task: Task): Task => {
   }
 
   // 2. Evaluate Requirements Tree
-  // We need a helper that can handle the recursion and peer-awareness for XOR.
-  // We do top-level map, then deep dive.
-  newTask.requirements = newTask.requirements.map(req => 
-    evaluateRequirement(req, newTask.requirements)
-  );
+  const taskGraph = graph ?? buildRequirementGraph(newTask.requirements);
+  if (settleRequirements(newTask, now, taskGraph, graph && changed)) {
+    settledTrees.set(newTask.requirements, {
+      graph: taskGraph, participants: newTask.participants, failurePolicy: newTask.failurePolicy
+    });
+  }
   
   // 3. Check Task Completion
-  // Task is complete if all top-level non-optional requirements are fulfilled.
-  const relevantRequirements = newTask.requirements.filter(r => !r.isOptional);
-  const allFulfilled = relevantRequirements.every(r => r.isFulfilled);
+  // Task is complete when the top-level requirements satisfy the same rules as a group's children.
+  const allFulfilled = areChildrenSatisfied(newTask.requirements);
 
   if (allFulfilled && newTask.status === TaskStatus.RUNNING) {
     newTask.status = TaskStatus.COMPLETED;
+    newTask.timeSegments = closeOpenSegment(newTask.timeSegments, now);
+  } else if (newTask.status === TaskStatus.RUNNING) {
+    // A mandatory requirement failed, or (FAIL_TASK) any mandatory requirement anywhere did
+    const failed = findFailedRequirement(newTask.requirements, newTask.failurePolicy?.mode === 'FAIL_TASK');
+    if (failed || isBranchFailed(newTask.requirements)) {
+      newTask.status = TaskStatus.FAILED;
+      newTask.failure = { reason: 'REQUIREMENT_FAILED', requirementId: failed?.id };
+      newTask.timeSegments = closeOpenSegment(newTask.timeSegments, now);
+    }
   }
 
-  newTask.updatedAt = Date.now();
+  // 4. Time Warnings. Only requirements with a time budget can use any of it up.
+  const timed = taskGraph.timed.map(id => getRequirementAt(newTask.requirements, taskGraph.paths.get(id)!)!);
+  updateFiredWarnings(newTask, now, timed);
+
+  newTask.updatedAt = now;
   return newTask;
 };
 
 /**
- * Updates a specific requirement by ID.
- * Handles recursion to find the node.
+ * Updates a specific requirement by ID. Ignored for requirements that are disabled, failed or not yet visible.
+ * On tasks with participants, progress is recorded as `participantId`'s contribution.
  */
-export const updateRequirementValue = (task: Task, reqId: string, updates: Partial<Requirement>): Task => {
+export const updateRequirementValue = (
+  task: Task,
+  reqId: string,
+  updates: Partial<Requirement>,
+  now: number = Date.now(),
+  participantId?: string
+): Task => {
   // Usually only running tasks accept input, but we allow Paused for manual edits if designed so.
   if (task.status !== TaskStatus.RUNNING && task.status !== TaskStatus.PAUSED) {
      return task; 
   }
 
-  const recursiveUpdate = (reqs: Requirement[]): Requirement[] => {
-    return reqs.map(req => {
-      if (req.id === reqId) {
-        // Apply updates
-        let updatedReq = { ...req, ...updates };
-        
-        // Validation: Don't allow updates if disabled
-        if (req.isDisabled) {
-          return req; 
-        }
-        
-        // Validation: Numeric limits
-        if (updatedReq.type === RequirementType.NUMERIC && typeof updatedReq.currentValue === 'number') {
-             // Logic handled in evaluate
-        }
-        
-        return updatedReq;
-      }
-      
-      if (req.children) {
-        return { ...req, children: recursiveUpdate(req.children) };
-      }
-      return req;
-    });
-  };
+  const graph = getSettledGraph(task);
+  const path = graph ? graph.paths.get(reqId) : findRequirementPath(task.requirements, reqId);
+  const requirements = path ? updateRequirementAt(task.requirements, path, req => {
+    if (req.isDisabled || req.isFailed || req.isHidden) return req;
+    return isParticipantRequirement(req, task) ? applyContribution(req, task, updates, participantId) : { ...req, ...updates };
+  }) : task.requirements;
 
-  const newTask = cloneTask(task);
-  newTask.requirements = recursiveUpdate(newTask.requirements);
-  return evaluateTaskState(newTask);
+  // Edits to the structure itself need a fresh graph
+  const keepsStructure = !STRUCTURAL_FIELDS.some(field => field in updates);
+  return graph && keepsStructure
+    ? evaluateTask({ ...task, requirements }, now, graph, requirements === task.requirements ? [] : [reqId])
+    : evaluateTask({ ...task, requirements }, now);
+};
+
+/**
+ * Sets bound requirements to the values of their sources (see services/counters.ts). Only running tasks
+ * follow their bindings, and requirements that don't accept input (disabled, failed, hidden) keep their value.
+ */
+export const applyBoundValues = (task: Task, values: Record<string, number>, now: number = Date.now()): Task => {
+  if (task.status !== TaskStatus.RUNNING) return task;
+
+  const graph = getSettledGraph(task);
+  const changed: string[] = [];
+  const requirements = Object.entries(values).reduce((reqs, [id, currentValue]) => {
+    const path = graph ? graph.paths.get(id) : findRequirementPath(reqs, id);
+    if (!path) return reqs;
+    const next = updateRequirementAt(reqs, path, req =>
+      req.binding && !req.isDisabled && !req.isFailed && !req.isHidden && req.currentValue !== currentValue ? { ...req, currentValue } : req
+    );
+    if (next !== reqs) changed.push(id);
+    return next;
+  }, task.requirements);
+  return graph ? evaluateTask({ ...task, requirements }, now, graph, changed) : evaluateTask({ ...task, requirements }, now);
 };
 
 // --- Task Control Actions ---
 
-export const startTask = (task: Task): Task => {
+export const startTask = (task: Task, now: number = Date.now()): Task => {
   if (task.status === TaskStatus.IDLE || task.status === TaskStatus.PAUSED) {
-    return evaluateTaskState({ ...task, status: TaskStatus.RUNNING });
+    const timeSegments = [...(task.timeSegments ?? []), { startedAt: now }];
+    return evaluateTaskState({ ...task, status: TaskStatus.RUNNING, timeSegments }, now);
   }
   return task;
 };
 
-export const pauseTask = (task: Task): Task => {
+export const pauseTask = (task: Task, now: number = Date.now()): Task => {
   if (task.status === TaskStatus.RUNNING) {
-    return { ...task, status: TaskStatus.PAUSED };
+    // Evaluate first so the partial second and any limit that ran out are accounted for.
+    const synced = evaluateTaskState(task, now);
+    if (synced.status !== TaskStatus.RUNNING) return synced;
+    const timeSegments = closeOpenSegment(synced.timeSegments, now);
+    return { ...synced, status: TaskStatus.PAUSED, timeSegments };
   }
   return task;
 };
 
-export const resetTask = (task: Task): Task => {
-  // Resetting involves deep resetting all requirements
-  const recursiveReset = (reqs: Requirement[]): Requirement[] => {
-    return reqs.map(req => ({
-      ...req,
-      isFulfilled: false,
-      isDisabled: false,
-      currentValue: req.type === RequirementType.NUMERIC ? 0 : undefined,
-      children: req.children ? recursiveReset(req.children) : undefined
-    }));
-  };
-
+export const resetTask = (task: Task, now: number = Date.now()): Task => {
   return {
     ...task,
     status: TaskStatus.IDLE,
     elapsedTime: 0,
-    requirements: recursiveReset(task.requirements),
-    updatedAt: Date.now()
+    timeSegments: [],
+    firedWarnings: [],
+    failure: undefined,
+    requirements: task.requirements.map(resetRequirement),
+    updatedAt: now
   };
 };
 
-export const tickTask = (task: Task, deltaSeconds: number = 1): Task => {
-  if (task.status !== TaskStatus.RUNNING) return task;
-  
-  const newTask = { ...task, elapsedTime: task.elapsedTime + deltaSeconds };
-  return evaluateTaskState(newTask);
+/**
+ * Brings a running task's elapsed time up to `now` and re-evaluates it, so deadlines fire
+ * no matter how rarely this is called. Paused tasks are only touched once they are past their due date.
+ */
+export const syncTaskTime = (task: Task, now: number = Date.now()): Task => {
+  const isOverdue = task.status === TaskStatus.PAUSED && task.dueAt !== undefined && now >= task.dueAt;
+  if (task.status !== TaskStatus.RUNNING && !isOverdue) return task;
+  return evaluateTaskState(task, now);
 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Task, TaskAction, TaskHistory } from '../types';
+import { startTask, pauseTask, resetTask, syncTaskTime, updateRequirementValue, applyBoundValues } from './taskEngine';
+import { applyRequirementCommand } from './requirementInput';
+
+/**
+ * Applies a single action to a task without touching its history.
+ * This is the reducer both live commands and replays go through. The action's timestamp is the
+ * engine's notion of "now", so replays reproduce the same elapsed times.
+ */
+export const applyAction = (task: Task, action: TaskAction): Task => {
+  switch (action.type) {
+    case 'START':
+      return startTask(task, action.timestamp);
+    case 'PAUSE':
+      return pauseTask(task, action.timestamp);
+    case 'RESET':
+      return resetTask(task, action.timestamp);
+    case 'TICK':
+      return syncTaskTime(task, action.timestamp);
+    case 'REQUIREMENT_UPDATE':
+      return updateRequirementValue(task, action.payload.reqId, action.payload.updates, action.timestamp, action.payload.participantId);
+    case 'REQUIREMENT_COMMAND':
+      return applyRequirementCommand(task, action.payload.reqId, action.payload.command, action.timestamp, action.payload.participantId);
+    case 'COUNTER_SYNC':
+      return applyBoundValues(task, action.payload.values, action.timestamp);
+  }
+};
+
+type PassiveAction = Extract<TaskAction, { type: 'TICK' | 'COUNTER_SYNC' }>;
+
+// Ticks and counter syncs happen on their own rather than as user input
+const isPassive = (action: TaskAction): action is PassiveAction => action.type === 'TICK' || action.type === 'COUNTER_SYNC';
+
+/**
+ * Appends an action to the log. A run of passive actions collapses to one sync with the latest value of each
+ * bound requirement, followed by the latest tick: both only bring the task up to their timestamp, and a sync
+ * also syncs time, so the latest ones supersede those before them.
+ */
+const appendAction = (actions: TaskAction[], action: TaskAction): TaskAction[] => {
+  if (!isPassive(action)) return [...actions, action];
+
+  let start = actions.length;
+  while (start > 0 && isPassive(actions[start - 1])) start--;
+  const run = [...actions.slice(start), action] as PassiveAction[];
+
+  const syncs = run.filter((a): a is Extract<PassiveAction, { type: 'COUNTER_SYNC' }> => a.type === 'COUNTER_SYNC');
+  const tick = [...run].reverse().find(a => a.type === 'TICK');
+  const collapsed: TaskAction[] = [];
+  if (syncs.length > 0) {
+    const values = Object.assign({}, ...syncs.map(sync => sync.payload.values));
+    collapsed.push({ type: 'COUNTER_SYNC', timestamp: syncs[syncs.length - 1].timestamp, payload: { values } });
+  }
+  if (tick && (collapsed.length === 0 || tick.timestamp > collapsed[0].timestamp)) collapsed.push(tick);
+  return [...actions.slice(0, start), ...collapsed];
+};
+
+const withoutHistory = (task: Task): Omit<Task, 'history'> => {
+  const { history, ...rest } = task;
+  return rest;
+};
+
+/**
+ * Rebuilds a task's state by replaying its action log from the initial snapshot.
+ */
+export const replayHistory = (history: TaskHistory): Task => {
+  const replayed = history.actions.reduce<Task>(applyAction, { ...history.initial });
+  return { ...replayed, history };
+};
+
+/**
+ * Applies an action and appends it to the task's history. Actions that change nothing are not recorded.
+ * Recording a new action clears the redo stack, except for ticks and counter syncs, which are not user input.
+ */
+export const recordAction = (task: Task, action: TaskAction): Task => {
+  const updated = applyAction(task, action);
+  if (updated === task) return task;
+
+  const history: TaskHistory = task.history ?? { initial: withoutHistory(task), actions: [], undone: [] };
+  const actions = appendAction(history.actions, action);
+
+  return {
+    ...updated,
+    history: { ...history, actions, undone: isPassive(action) ? history.undone : [] }
+  };
+};
+
+const lastUndoableIndex = (history?: TaskHistory): number => {
+  if (!history) return -1;
+  for (let i = history.actions.length - 1; i >= 0; i--) {
+    if (!isPassive(history.actions[i])) return i;
+  }
+  return -1;
+};
+
+export const canUndo = (task: Task): boolean => lastUndoableIndex(task.history) !== -1;
+
+export const canRedo = (task: Task): boolean => (task.history?.undone.length ?? 0) > 0;
+
+/**
+ * Removes the most recent user action (ticks and syncs are kept, so elapsed time and outside values survive)
+ * and replays the rest.
+ */
+export const undoTask = (task: Task): Task => {
+  const index = lastUndoableIndex(task.history);
+  if (index === -1) return task;
+
+  const history = task.history!;
+  return replayHistory({
+    ...history,
+    actions: history.actions.filter((_, i) => i !== index),
+    undone: [...history.undone, history.actions[index]]
+  });
+};
+
+/**
+ * Re-applies the most recently undone action on top of the current state.
+ */
+export const redoTask = (task: Task): Task => {
+  if (!canRedo(task)) return task;
+
+  const history = task.history!;
+  const action = history.undone[history.undone.length - 1];
+  return replayHistory({
+    ...history,
+    actions: [...history.actions, action],
+    undone: history.undone.slice(0, -1)
+  });
+};
@@ -0,0 +1,485 @@
+import {
+  Task, Requirement, RequirementCommand, TaskStatus, TaskAction, TaskDefinitionChanges, TaskEngineEvent, TaskEngineEventMap, TaskEngineEventRecord
+} from '../types';
+import { evaluateTaskState } from './taskEngine';
+import { recordAction, undoTask, redoTask } from './taskHistory';
+import { findDependencyCycle, resolveTaskLocks } from './dependencyGraph';
+import { TaskRepository } from './storage/taskRepository';
+import { Clock, systemClock } from './clock';
+import { parseWarningKey } from './timeWarnings';
+import { advanceRecurrences } from './recurrence';
+import { TaskConflictError, TaskValidationError, ValidationIssue, normalizeTask } from './taskValidation';
+import { ConflictResolution, ImportPlan, planImport } from './taskBundle';
+import { TaskStore } from './taskStore';
+import { isFulfilledBy, pruneContributions } from './participants';
+import { CounterSource, syncBindings } from './counters';
+
+type EventHandler<E extends TaskEngineEvent> = (payload: TaskEngineEventMap[E]) => void;
+type EventHandlers = { [E in TaskEngineEvent]?: Set<EventHandler<E>> };
+
+export interface TaskManagerOptions {
+  tasks?: Task[];
+  tickInterval?: number; // How often startClock() syncs running tasks, in milliseconds. Defaults to one second.
+  repository?: TaskRepository; // When set, every state transition is saved automatically
+  clock?: Clock; // Defaults to the system clock. Inject a VirtualClock for tests and simulations.
+  counters?: CounterSource; // Outside values for requirements bound to a COUNTER, see services/counters.ts
+}
+
+// Every engine event, for hosts that forward all of them to another process or tab
+export const ENGINE_EVENTS: Record<TaskEngineEvent, true> = {
+  statusChanged: true,
+  requirementFulfilled: true,
+  taskCompleted: true,
+  taskFailed: true,
+  taskUnlocked: true,
+  requirementFailed: true,
+  requirementExpired: true,
+  requirementRetried: true,
+  timeWarning: true,
+  xorLocked: true,
+  taskRecurred: true,
+  participantFulfilled: true
+};
+
+const flattenRequirements = (reqs: Requirement[], into: Map<string, Requirement> = new Map()) => {
+  reqs.forEach(req => {
+    into.set(req.id, req);
+    if (req.children) flattenRequirements(req.children, into);
+  });
+  return into;
+};
+
+/**
+ * Compares two snapshots of the same task and lists the events the transition produced.
+ * A task without a previous snapshot (added, loaded or imported) made no transition, so it produces none,
+ * even if it arrives with requirements already fulfilled.
+ */
+const diffTaskEvents = (prev: Task | undefined, next: Task): TaskEngineEventRecord[] => {
+  if (!prev) return [];
+  const events: TaskEngineEventRecord[] = [];
+
+  const previousStatus = prev.status;
+  if (previousStatus !== next.status) {
+    events.push({ type: 'statusChanged', payload: { task: next, previousStatus, status: next.status } });
+    if (next.status === TaskStatus.COMPLETED) events.push({ type: 'taskCompleted', payload: { task: next } });
+    if (next.status === TaskStatus.FAILED) events.push({ type: 'taskFailed', payload: { task: next } });
+    if (previousStatus === TaskStatus.LOCKED) events.push({ type: 'taskUnlocked', payload: { task: next } });
+  }
+
+  const before = flattenRequirements(prev.requirements);
+  const after = flattenRequirements(next.requirements);
+  after.forEach((req, id) => {
+    const old = before.get(id);
+    if (req.isFulfilled && !old?.isFulfilled) {
+      events.push({ type: 'requirementFulfilled', payload: { task: next, requirement: req } });
+    }
+    Object.keys(req.contributions ?? {}).forEach(participantId => {
+      if (isFulfilledBy(req, participantId) && !(old && isFulfilledBy(old, participantId))) {
+        events.push({ type: 'participantFulfilled', payload: { task: next, requirement: req, participantId } });
+      }
+    });
+    if (req.xorGroup && req.isDisabled && !req.isFailed && !old?.isDisabled) {
+      events.push({ type: 'xorLocked', payload: { task: next, requirement: req, xorGroup: req.xorGroup } });
+    }
+    if (req.isFailed && req.failureReason && !old?.isFailed) {
+      events.push({ type: 'requirementFailed', payload: { task: next, requirement: req, reason: req.failureReason } });
+      if (req.failureReason === 'TIME_LIMIT' || req.failureReason === 'DEADLINE') {
+        events.push({ type: 'requirementExpired', payload: { task: next, requirement: req } });
+      }
+    }
+    if ((req.attempts ?? 1) > (old?.attempts ?? 1)) {
+      events.push({ type: 'requirementRetried', payload: { task: next, requirement: req, attempt: req.attempts! } });
+    }
+  });
+
+  const firedBefore = new Set(prev.firedWarnings ?? []);
+  (next.firedWarnings ?? []).filter(key => !firedBefore.has(key)).forEach(key => {
+    const { requirementId, threshold } = parseWarningKey(key);
+    const requirement = requirementId === undefined ? undefined : after.get(requirementId);
+    events.push({ type: 'timeWarning', payload: { task: next, threshold, requirement } });
+  });
+
+  (next.occurrences ?? []).slice(prev.occurrences?.length ?? 0).forEach(occurrence => {
+    events.push({ type: 'taskRecurred', payload: { task: next, occurrence } });
+  });
+
+  return events;
+};
+
+/**
+ * Headless owner of a set of tasks.
+ * Wraps the pure engine functions with commands, a clock and event subscriptions,
+ * so the same engine can run in Node, a worker, a game loop or behind React.
+ */
+export class TaskManager implements TaskStore {
+  private tasks: Task[] = [];
+  private listeners = new Set<() => void>();
+  private handlers: EventHandlers = {};
+  private stopTimer: (() => void) | null = null;
+  private tickInterval: number;
+  private repository?: TaskRepository;
+  private pendingWrites = new Set<Promise<unknown>>();
+  private clock: Clock;
+  private counters?: CounterSource;
+  private stopCounters: (() => void) | null = null;
+
+  constructor(options: TaskManagerOptions = {}) {
+    this.tickInterval = options.tickInterval ?? 1000;
+    this.repository = options.repository;
+    this.clock = options.clock ?? systemClock;
+    this.counters = options.counters;
+    // Committing the unchanged list syncs bound requirements, and does nothing if none are out of date
+    this.stopCounters = this.counters?.subscribe(() => this.commit(this.tasks)) ?? null;
+    (options.tasks ?? []).forEach(task => this.addTask(task));
+  }
+
+  // --- Queries ---
+
+  /**
+   * Returns the current task list. The array identity only changes when a task changes,
+   * which makes it safe to use as an external store snapshot.
+   */
+  getTasks(): Task[] {
+    return this.tasks;
+  }
+
+  getTask(id: string): Task | undefined {
+    return this.tasks.find(t => t.id === id);
+  }
+
+  // --- Subscriptions ---
+
+  /**
+   * Registers a listener called after every state change. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a handler for a specific engine event. Returns an unsubscribe function.
+   */
+  on<E extends TaskEngineEvent>(event: E, handler: EventHandler<E>): () => void {
+    const byEvent: { [K in E]?: Set<EventHandler<K>> } = this.handlers;
+    const handlers = byEvent[event] ?? new Set<EventHandler<E>>();
+    byEvent[event] = handlers;
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // --- Persistence ---
+
+  /**
+   * Loads every stored task, replacing in-memory tasks with the same id.
+   * Running tasks catch up on the time that passed while they were not loaded, including expired limits.
+   * Stored tasks that fail validation are skipped and logged.
+   */
+  async load(): Promise<Task[]> {
+    if (!this.repository) return this.tasks;
+
+    const stored = await this.repository.loadAll();
+    const now = this.clock.now();
+    const valid = stored.flatMap(task => {
+      try {
+        return [normalizeTask(task, now)];
+      } catch (error) {
+        console.error("Skipping invalid stored task:", error);
+        return [];
+      }
+    });
+    const reconciled = valid.map(task => this.reconcile(task, now));
+
+    const storedIds = new Set(reconciled.map(t => t.id));
+    const next = [...this.tasks.filter(t => !storedIds.has(t.id)), ...reconciled];
+    this.assertAcyclic(next);
+    this.commit(next);
+    return this.tasks;
+  }
+
+  /**
+   * Resolves once every autosave still in progress has finished, and rejects if one of them fails.
+   * Short-lived hosts such as the CLI await this before exiting.
+   */
+  flush(): Promise<void> {
+    return Promise.all(this.pendingWrites).then(() => undefined);
+  }
+
+  // --- Commands ---
+
+  /**
+   * Adds a task to the manager, filling in missing ids and defaults. Throws a TaskValidationError for
+   * invalid tasks, and a TaskConflictError if the id is taken or the task's prerequisites would form a cycle.
+   */
+  addTask(task: Task): Task {
+    const now = this.clock.now();
+    const normalized = normalizeTask(task, now);
+    if (this.getTask(normalized.id)) {
+      throw new TaskConflictError(`Task with id "${normalized.id}" already exists`);
+    }
+    const next = [...this.tasks, evaluateTaskState(normalized, now)];
+    this.assertAcyclic(next);
+    this.commit(next);
+    return this.getTask(normalized.id)!;
+  }
+
+  /**
+   * Adds tasks from a bundle. Ids that already exist are skipped, overwritten or cloned according to
+   * `resolution` (for all conflicts, or per id). Everything is validated before anything changes.
+   */
+  importTasks(tasks: Task[], resolution: ConflictResolution | Record<string, ConflictResolution> = 'SKIP'): ImportPlan {
+    const now = this.clock.now();
+    const normalized = tasks.map(task => normalizeTask(task, now));
+    const incomingIds = new Set<string>();
+    const repeated: ValidationIssue[] = [];
+    normalized.forEach((task, i) => {
+      if (incomingIds.has(task.id)) repeated.push({ path: `[${i}].id`, message: `"${task.id}" appears more than once in the import` });
+      incomingIds.add(task.id);
+    });
+    if (repeated.length > 0) throw new TaskValidationError('import', repeated);
+
+    const plan = planImport(normalized, this.tasks, resolution);
+    const imported = new Map(plan.tasks.map(task => [task.id, this.reconcile(this.nextRevision(task), now)]));
+    const next = [
+      ...this.tasks.map(t => imported.get(t.id) ?? t),
+      ...[...imported.values()].filter(t => !plan.overwritten.includes(t.id))
+    ];
+    this.assertAcyclic(next);
+    this.commit(next);
+    return plan;
+  }
+
+  /**
+   * Changes a task's definition, e.g. from the editor. Progress on requirements that are kept stays,
+   * but the action history starts over from the edited task, since replaying the old log would bring
+   * back the old definition. Throws a TaskValidationError if the edited task is invalid.
+   */
+  editTask(id: string, changes: TaskDefinitionChanges): Task | undefined {
+    const task = this.getTask(id);
+    if (!task) return undefined;
+
+    const now = this.clock.now();
+    const { history, ...current } = task;
+    const draft = { ...current, ...changes, updatedAt: now };
+    // Whoever left the group takes their contributions with them
+    if (changes.participants && Array.isArray(draft.requirements)) {
+      draft.requirements = pruneContributions(draft.requirements, changes.participants);
+    }
+    const edited = normalizeTask(this.nextRevision(draft), now);
+    this.commit(this.tasks.map(t => t.id === id ? this.reconcile(edited, now) : t));
+    return this.getTask(id);
+  }
+
+  removeTask(id: string): void {
+    if (!this.getTask(id)) return;
+    this.commit(this.tasks.filter(t => t.id !== id));
+  }
+
+  /**
+   * Sets or clears the manual lock. Locked tasks stay LOCKED until unlocked and their prerequisites are met.
+   */
+  setLocked(id: string, isLocked: boolean): Task | undefined {
+    return this.apply(id, task => task.isLocked === isLocked ? task : { ...task, isLocked, updatedAt: this.clock.now() });
+  }
+
+  start(id: string): Task | undefined {
+    return this.dispatch(id, { type: 'START', timestamp: this.clock.now() });
+  }
+
+  pause(id: string): Task | undefined {
+    return this.dispatch(id, { type: 'PAUSE', timestamp: this.clock.now() });
+  }
+
+  reset(id: string): Task | undefined {
+    return this.dispatch(id, { type: 'RESET', timestamp: this.clock.now() });
+  }
+
+  /**
+   * Applies input to a requirement. On tasks with participants, pass who it comes from; see services/participants.ts.
+   */
+  updateRequirement(id: string, reqId: string, updates: Partial<Requirement>, participantId?: string): Task | undefined {
+    const payload = participantId === undefined ? { reqId, updates } : { reqId, updates, participantId };
+    return this.dispatch(id, { type: 'REQUIREMENT_UPDATE', timestamp: this.clock.now(), payload });
+  }
+
+  /**
+   * Input commands, checked against the requirement's input rules; see services/requirementInput.ts.
+   * Without an amount, increment and decrement move by the requirement's step, or 1.
+   */
+  increment(id: string, reqId: string, amount?: number, participantId?: string): Task | undefined {
+    return this.command(id, reqId, { type: 'INCREMENT', amount }, participantId);
+  }
+
+  decrement(id: string, reqId: string, amount?: number, participantId?: string): Task | undefined {
+    return this.command(id, reqId, { type: 'DECREMENT', amount }, participantId);
+  }
+
+  setValue(id: string, reqId: string, value: number, participantId?: string): Task | undefined {
+    return this.command(id, reqId, { type: 'SET_VALUE', value }, participantId);
+  }
+
+  toggle(id: string, reqId: string, participantId?: string): Task | undefined {
+    return this.command(id, reqId, { type: 'TOGGLE' }, participantId);
+  }
+
+  unfulfill(id: string, reqId: string, participantId?: string): Task | undefined {
+    return this.command(id, reqId, { type: 'UNFULFILL' }, participantId);
+  }
+
+  undo(id: string): Task | undefined {
+    return this.apply(id, undoTask);
+  }
+
+  redo(id: string): Task | undefined {
+    return this.apply(id, redoTask);
+  }
+
+  /**
+   * Syncs every running task to the clock's current time. Elapsed time comes from the clock,
+   * so it does not matter how often or how regularly this is called.
+   */
+  tick(): void {
+    const action: TaskAction = { type: 'TICK', timestamp: this.clock.now() };
+    this.commit(this.tasks.map(task => recordAction(task, action)));
+  }
+
+  // --- Clock ---
+
+  /**
+   * Starts driving time internally. Hosts with their own loop can call tick() instead.
+   */
+  startClock(): void {
+    if (this.stopTimer !== null) return;
+    this.stopTimer = this.clock.setInterval(() => this.tick(), this.tickInterval);
+  }
+
+  stopClock(): void {
+    if (this.stopTimer === null) return;
+    this.stopTimer();
+    this.stopTimer = null;
+  }
+
+  dispose(): void {
+    this.stopClock();
+    this.stopCounters?.();
+    this.stopCounters = null;
+    this.listeners.clear();
+    this.handlers = {};
+  }
+
+  // --- Internals ---
+
+  /**
+   * Brings a task that comes from outside (storage, an import) up to the current time.
+   * Running tasks catch up through a recorded tick, so the time shows up in their history.
+   */
+  private reconcile(task: Task, now: number): Task {
+    return task.status === TaskStatus.RUNNING
+      ? recordAction(task, { type: 'TICK', timestamp: now })
+      : evaluateTaskState(task, now);
+  }
+
+  /**
+   * Raises the revision past the stored task's with the same id. Commands and edits do; ticks and
+   * other changes that only follow the clock don't.
+   */
+  private nextRevision<T extends Pick<Task, 'id' | 'revision'>>(task: T): T {
+    return { ...task, revision: (this.getTask(task.id)?.revision ?? 0) + 1 };
+  }
+
+  private assertAcyclic(tasks: Task[]): void {
+    const cycle = findDependencyCycle(tasks);
+    if (cycle) {
+      throw new TaskConflictError(`Dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  private command(id: string, reqId: string, command: RequirementCommand, participantId?: string): Task | undefined {
+    const payload = participantId === undefined ? { reqId, command } : { reqId, command, participantId };
+    return this.dispatch(id, { type: 'REQUIREMENT_COMMAND', timestamp: this.clock.now(), payload });
+  }
+
+  /**
+   * Applies an action to one task and records it in the task's history.
+   */
+  private dispatch(id: string, action: TaskAction): Task | undefined {
+    return this.apply(id, task => recordAction(task, action));
+  }
+
+  private apply(id: string, transition: (task: Task) => Task): Task | undefined {
+    const task = this.getTask(id);
+    if (!task) return undefined;
+
+    const transitioned = transition(task);
+    if (transitioned === task) return task;
+
+    const updated = this.nextRevision(transitioned);
+    this.commit(this.tasks.map(t => t.id === id ? updated : t));
+    return this.getTask(id);
+  }
+
+  /**
+   * Replaces the task list, syncing bound requirements, propagating lock changes to dependents,
+   * starting recurring tasks' new periods and emitting the resulting events.
+   */
+  private commit(next: Task[]): void {
+    const now = this.clock.now();
+    const settled = resolveTaskLocks(syncBindings(next, now, this.counters), now);
+    const resolved = resolveTaskLocks(advanceRecurrences(settled, now), now);
+    const previous = new Map(this.tasks.map(t => [t.id, t]));
+
+    const changed = resolved.length !== this.tasks.length || resolved.some(t => previous.get(t.id) !== t);
+    if (!changed) return;
+
+    // A recurring task can finish and start over in one commit, so it is diffed in two steps
+    // to still report e.g. taskCompleted before the reset.
+    const settledById = new Map(settled.map(t => [t.id, t]));
+    const events = resolved
+      .filter(t => previous.get(t.id) !== t)
+      .flatMap(t => {
+        const before = previous.get(t.id);
+        const mid = settledById.get(t.id);
+        if (!mid || mid === t || mid === before) return diffTaskEvents(before, t);
+        return [...diffTaskEvents(before, mid), ...diffTaskEvents(mid, t)];
+      });
+
+    this.tasks = resolved;
+    this.persist(previous, resolved);
+    this.notify(events);
+  }
+
+  /**
+   * Saves changed tasks and deletes removed ones. Runs in the background; failures are logged.
+   */
+  private persist(previous: Map<string, Task>, next: Task[]): void {
+    if (!this.repository) return;
+    const repository = this.repository;
+
+    const nextIds = new Set(next.map(t => t.id));
+    const writes = [
+      ...next.filter(t => previous.get(t.id) !== t).map(t => repository.save(t)),
+      ...[...previous.keys()].filter(id => !nextIds.has(id)).map(id => repository.remove(id))
+    ];
+
+    const batch = Promise.all(writes);
+    this.pendingWrites.add(batch);
+    batch
+      .catch(error => {
+        console.error("Task autosave failed:", error);
+      })
+      .finally(() => this.pendingWrites.delete(batch));
+  }
+
+  private notify(events: TaskEngineEventRecord[]): void {
+    events.forEach(({ type, payload }) => this.emit(type, payload));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private emit<E extends TaskEngineEvent>(event: E, payload: TaskEngineEventMap[E]): void {
+    this.handlers[event]?.forEach(handler => handler(payload));
+  }
+}
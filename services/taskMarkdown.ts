@@ -0,0 +1,569 @@
+import {
+  CounterBinding, FailurePolicy, InputRules, Recurrence, RecurrenceRule, Requirement, RequirementType, Reward, Task, TaskTemplate
+} from '../types';
+import { normalizeTemplate, TaskValidationError, ValidationIssue } from './taskValidation';
+import { isEqual } from './taskRefinement';
+
+/**
+ * A Markdown checklist dialect for task definitions, so quests can be written by hand, kept in git and reviewed in diffs.
+ *
+ *   # Morning Routine
+ *   limit: 30m
+ *   repeat: daily at 07:00
+ *   reward: 50 xp, 10 gold
+ *
+ *   Start the day right.
+ *
+ *   - [ ] Stretch
+ *   - [ ] Pushups 0/20
+ *     input: step 5
+ *   - [ ] Cardio (optional)
+ *     - [ ] Run 5 km
+ *       xor: cardio
+ *     - [ ] Swim 1 km
+ *       xor: cardio
+ *   - [ ] Eat sweets (fail condition)
+ *
+ * Requirements are checklist items. Indented items make the item above them a group, and a trailing "current/target"
+ * makes it a counter. Everything else goes on indented "key: value" lines below the item. Ids default to a slug of the
+ * title, so only ids that differ are written out. Values that the short forms can't express are written as JSON.
+ */
+
+// --- Values ---
+
+interface Codec<T> {
+  parse(text: string): T; // Throws with a message for the line
+  format(value: T): string;
+  json?: RegExp; // What marks a value as JSON. Defaults to a leading quote, brace or bracket.
+}
+
+const isJson = (codec: Codec<unknown>, text: string): boolean => (codec.json ?? /^["{[]/).test(text);
+
+const decodeValue = <T>(codec: Codec<T>, text: string): T => {
+  if (!isJson(codec, text)) return codec.parse(text);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${text} is not valid JSON`);
+  }
+};
+
+// The short form where it reads back the same, JSON otherwise
+const encodeValue = <T>(codec: Codec<T>, value: T): string => {
+  try {
+    const short = codec.format(value);
+    if (short && short === short.trim() && !short.includes('\n') && isEqual(decodeValue(codec, short), value)) return short;
+  } catch {
+    // Falls back to JSON
+  }
+  return JSON.stringify(value);
+};
+
+const parseNumber = (text: string): number => {
+  const n = Number(text);
+  if (text.trim() === '' || !Number.isFinite(n)) throw new Error(`"${text}" is not a number`);
+  return n;
+};
+
+const text: Codec<string> = { parse: value => value, format: value => value, json: /^"/ };
+
+const number: Codec<number> = { parse: parseNumber, format: String };
+
+const keyword = (values: string[]): Codec<string> => ({
+  parse: value => {
+    if (!values.includes(value.toUpperCase())) throw new Error(`"${value}" must be one of ${values.map(v => v.toLowerCase()).join(', ')}`);
+    return value.toUpperCase();
+  },
+  format: value => value.toLowerCase()
+});
+
+const json: Codec<Record<string, unknown>> = {
+  parse: () => {
+    throw new Error('expected a JSON object');
+  },
+  format: value => JSON.stringify(value)
+};
+
+const DURATION = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
+
+// "1h30m", "10m" or "45s"; a bare number is seconds
+const duration: Codec<number> = {
+  parse: value => {
+    const compact = value.replace(/\s+/g, '');
+    const match = DURATION.exec(compact);
+    if (compact && match) return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+    if (/^\d+(?:\.\d+)?$/.test(compact)) return Number(compact);
+    throw new Error(`"${value}" is not a duration like 10m, 1h30m or 45s`);
+  },
+  format: seconds => {
+    if (!Number.isInteger(seconds)) return String(seconds);
+    const parts = [[Math.floor(seconds / 3600), 'h'], [Math.floor(seconds % 3600 / 60), 'm'], [seconds % 60, 's']] as const;
+    return parts.filter(([amount]) => amount > 0).map(([amount, unit]) => `${amount}${unit}`).join('') || '0s';
+  }
+};
+
+// ISO 8601, or epoch milliseconds
+const date: Codec<number> = {
+  parse: value => {
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(time)) throw new Error(`"${value}" is not a date like 2025-06-30T18:00:00Z`);
+    return time;
+  },
+  format: time => new Date(time).toISOString()
+};
+
+// "50%, 80%", or "none" for no warnings at all
+const warnings: Codec<number[]> = {
+  parse: value => value.trim().toLowerCase() === 'none' ? [] : value.split(',').map(part => {
+    const trimmed = part.trim();
+    return trimmed.endsWith('%') ? parseNumber(trimmed.slice(0, -1)) / 100 : parseNumber(trimmed);
+  }),
+  format: thresholds => thresholds.length === 0 ? 'none' : thresholds.map(t => `${Number((t * 100).toFixed(6))}%`).join(', ')
+};
+
+// "fail task", "fail parent", "retry" or "retry 5"
+const failure: Codec<FailurePolicy> = {
+  parse: value => {
+    const normalized = value.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (normalized === 'fail task') return { mode: 'FAIL_TASK' };
+    if (normalized === 'fail parent') return { mode: 'FAIL_PARENT' };
+    const retry = /^retry(?: (\d+))?$/.exec(normalized);
+    if (retry) return retry[1] === undefined ? { mode: 'RETRY' } : { mode: 'RETRY', maxAttempts: Number(retry[1]) };
+    throw new Error(`"${value}" must be fail task, fail parent or retry [attempts]`);
+  },
+  format: policy => policy.mode === 'RETRY'
+    ? `retry${policy.maxAttempts === undefined ? '' : ` ${policy.maxAttempts}`}`
+    : policy.mode.toLowerCase().replace('_', ' ')
+};
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const parseDay = (name: string): number => {
+  if (/^[0-6]$/.test(name)) return Number(name);
+  const day = DAYS.indexOf(name.slice(0, 3).toLowerCase());
+  if (day === -1) throw new Error(`"${name}" is not a day of the week`);
+  return day;
+};
+
+// "daily at 07:00", "weekly mon, wed at 18:00", "cron 0 9 1 * *" or "5 times", followed by "(spawn)" for SPAWN
+const recurrence: Codec<Recurrence> = {
+  parse: value => {
+    const spawn = /\s*\((spawn|reset)\)$/i.exec(value);
+    const rest = spawn ? value.slice(0, spawn.index) : value;
+    const mode = spawn?.[1].toLowerCase() === 'spawn' ? 'SPAWN' : 'RESET';
+    const daily = /^daily(?:\s+at\s+(\S+))?$/i.exec(rest);
+    const weekly = /^weekly\s+(.+?)(?:\s+at\s+(\S+))?$/i.exec(rest);
+    const cron = /^cron\s+(.+)$/i.exec(rest);
+    const count = /^(\d+)\s+times$/i.exec(rest);
+    let rule: RecurrenceRule;
+    if (daily) rule = daily[1] === undefined ? { type: 'DAILY' } : { type: 'DAILY', at: daily[1] };
+    else if (weekly) {
+      const days = weekly[1].split(/[\s,]+/).filter(Boolean).map(parseDay);
+      rule = weekly[2] === undefined ? { type: 'WEEKLY', days } : { type: 'WEEKLY', days, at: weekly[2] };
+    } else if (cron) rule = { type: 'CRON', expression: cron[1] };
+    else if (count) rule = { type: 'COUNT', times: Number(count[1]) };
+    else throw new Error(`"${value}" must be daily, weekly <days>, cron <expression> or <n> times`);
+    return { rule, mode };
+  },
+  format: ({ rule, mode }) => {
+    const at = 'at' in rule && rule.at !== undefined ? ` at ${rule.at}` : '';
+    const schedule = rule.type === 'DAILY' ? `daily${at}`
+      : rule.type === 'WEEKLY' ? `weekly ${rule.days.map(day => DAYS[day]).join(', ')}${at}`
+      : rule.type === 'CRON' ? `cron ${rule.expression}`
+      : `${rule.times} times`;
+    return mode === 'SPAWN' ? `${schedule} (spawn)` : schedule;
+  }
+};
+
+// "step 5, min 0, max 50, not revertible"
+const input: Codec<InputRules> = {
+  parse: value => {
+    const rules: InputRules = {};
+    value.split(',').map(part => part.trim().toLowerCase()).forEach(part => {
+      const limit = /^(min|max|step)\s+(\S+)$/.exec(part);
+      if (limit) rules[limit[1] as 'min' | 'max' | 'step'] = parseNumber(limit[2]);
+      else if (part === 'revertible' || part === 'not revertible') rules.revertible = part === 'revertible';
+      else throw new Error(`"${part}" must be step, min or max with a number, or (not) revertible`);
+    });
+    return rules;
+  },
+  format: rules => [
+    ...(['step', 'min', 'max'] as const).filter(field => rules[field] !== undefined).map(field => `${field} ${rules[field]}`),
+    ...(rules.revertible === undefined ? [] : [rules.revertible ? 'revertible' : 'not revertible'])
+  ].join(', ')
+};
+
+// "counter kills" or "requirement <taskId> <requirementId>"
+const binding: Codec<CounterBinding> = {
+  parse: value => {
+    const counter = /^counter\s+(\S+)$/i.exec(value);
+    if (counter) return { type: 'COUNTER', counter: counter[1] };
+    const requirement = /^requirement\s+(\S+)\s+(\S+)$/i.exec(value);
+    if (requirement) return { type: 'REQUIREMENT', taskId: requirement[1], requirementId: requirement[2] };
+    throw new Error(`"${value}" must be counter <name> or requirement <taskId> <requirementId>`);
+  },
+  format: b => b.type === 'COUNTER' ? `counter ${b.counter}` : `requirement ${b.taskId} ${b.requirementId}`
+};
+
+// '"Label", 50 xp, 10 gold, item sword, on failed, id bonus, when <condition>'. The condition goes last, it may hold commas.
+const reward: Codec<Reward> = {
+  json: /^\{/, // A leading quote is the label
+  parse: value => {
+    const result: Reward = {};
+    const when = /(?:^|,)\s*when\s+(.+)$/i.exec(value);
+    if (when) result.when = when[1].trim();
+    const parts = (when ? value.slice(0, when.index) : value).split(',').map(part => part.trim()).filter(Boolean);
+    parts.forEach(part => {
+      const amount = /^(-?\d+(?:\.\d+)?)\s+([A-Za-z_][\w-]*)$/.exec(part);
+      const item = /^item\s+(\S+)$/i.exec(part);
+      const on = /^on\s+(completed|failed)$/i.exec(part);
+      const id = /^id\s+(\S+)$/i.exec(part);
+      if (part.startsWith('"')) result.label = decodeValue(text, part);
+      else if (amount && amount[2].toLowerCase() === 'xp') result.xp = Number(amount[1]);
+      else if (amount) result.currency = { ...result.currency, [amount[2]]: Number(amount[1]) };
+      else if (item) result.items = [...result.items ?? [], item[1]];
+      else if (on) result.on = on[1].toUpperCase() as Reward['on'];
+      else if (id) result.id = id[1];
+      else throw new Error(`"${part}" is not part of a reward; expected "label", <n> xp, <n> <currency>, item <id>, on failed or when <condition>`);
+    });
+    return result;
+  },
+  format: r => {
+    if (r.payload !== undefined) throw new Error('Payloads need JSON');
+    return [
+      ...(r.label !== undefined ? [JSON.stringify(r.label)] : []),
+      ...(r.xp !== undefined ? [`${r.xp} xp`] : []),
+      ...Object.entries(r.currency ?? {}).map(([name, amount]) => `${amount} ${name}`),
+      ...(r.items ?? []).map(item => `item ${item}`),
+      ...(r.on !== undefined ? [`on ${r.on.toLowerCase()}`] : []),
+      ...(r.id !== undefined ? [`id ${r.id}`] : []),
+      ...(r.when !== undefined ? [`when ${r.when}`] : [])
+    ].join(', ');
+  }
+};
+
+// --- Fields ---
+
+interface FieldSpec {
+  key: string; // As written in the document
+  field: string; // On the task or requirement
+  codec: Codec<unknown>;
+}
+
+const REQUIREMENT_FIELDS: FieldSpec[] = [
+  { key: 'id', field: 'id', codec: text },
+  { key: 'type', field: 'type', codec: text },
+  { key: 'description', field: 'description', codec: text },
+  { key: 'xor', field: 'xorGroup', codec: text },
+  { key: 'xor-scope', field: 'xorScope', codec: keyword(['SHARED', 'PARTICIPANT']) },
+  { key: 'min', field: 'minFulfilled', codec: number },
+  { key: 'weight', field: 'weight', codec: number },
+  { key: 'when', field: 'fulfillWhen', codec: text },
+  { key: 'visible-when', field: 'visibleWhen', codec: text },
+  { key: 'limit', field: 'timeLimit', codec: duration },
+  { key: 'value-limit', field: 'valueLimit', codec: number },
+  { key: 'deadline', field: 'deadline', codec: date },
+  { key: 'input', field: 'input', codec: input },
+  { key: 'bind', field: 'binding', codec: binding },
+  { key: 'aggregation', field: 'aggregation', codec: keyword(['SUM', 'ALL', 'ANY']) },
+  { key: 'data', field: 'customData', codec: json }
+];
+
+const TASK_FIELDS: FieldSpec[] = [
+  { key: 'description', field: 'description', codec: text }, // Only when the paragraph form can't hold it
+  { key: 'limit', field: 'timeLimit', codec: duration },
+  { key: 'warnings', field: 'warningThresholds', codec: warnings },
+  { key: 'failure', field: 'failurePolicy', codec: failure },
+  { key: 'repeat', field: 'recurrence', codec: recurrence },
+  { key: 'data', field: 'customData', codec: json }
+];
+
+const REWARD_KEY = 'reward'; // The only key that may repeat
+
+const HEADING = /^#\s+(.*)$/;
+const ITEM = /^(\s*)[-*]\s+\[([ xX])\](?:\s+(.*))?$/;
+const ATTRIBUTE = /^\s*([a-z][a-z-]*):(?:\s+(.*))?$/;
+const COUNTER = /(?:^|\s+)(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)$/;
+const FLAGS = /\s*\(([^()]*)\)$/;
+const FLAG_FIELDS: Record<string, 'isOptional' | 'isFailCondition'> = { optional: 'isOptional', 'fail condition': 'isFailCondition' };
+
+const slugify = (title: string): string => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'requirement';
+
+// Ids that aren't written out: the title's slug, numbered if an earlier requirement has it
+const defaultId = (title: string, taken: Set<string>): string => {
+  const slug = slugify(title);
+  let id = slug;
+  for (let n = 2; taken.has(id); n++) id = `${slug}-${n}`;
+  return id;
+};
+
+const defaultRewardId = (index: number): string => `reward-${index + 1}`;
+
+interface ItemText {
+  title: string;
+  currentValue?: number;
+  targetValue?: number;
+  isOptional?: boolean;
+  isFailCondition?: boolean;
+}
+
+// Reads "Title 0/20 (optional)"
+const parseItemText = (raw: string): ItemText => {
+  const item: ItemText = { title: '' };
+  let rest = raw.trim();
+  const flags = FLAGS.exec(rest);
+  if (flags) {
+    const names = flags[1].split(',').map(flag => flag.trim().toLowerCase());
+    if (names.every(name => name in FLAG_FIELDS)) {
+      names.forEach(name => { item[FLAG_FIELDS[name]] = true; });
+      rest = rest.slice(0, flags.index);
+    }
+  }
+  const counter = COUNTER.exec(rest);
+  if (counter) {
+    item.currentValue = Number(counter[1]);
+    item.targetValue = Number(counter[2]);
+    rest = rest.slice(0, counter.index);
+  }
+  item.title = decodeValue(text, rest.trim());
+  return item;
+};
+
+const formatItemText = (item: ItemText): string => {
+  const suffix = [
+    item.targetValue !== undefined ? ` ${item.currentValue ?? 0}/${item.targetValue}` : '',
+    item.isOptional || item.isFailCondition
+      ? ` (${Object.keys(FLAG_FIELDS).filter(name => item[FLAG_FIELDS[name]]).join(', ')})`
+      : ''
+  ].join('');
+  const plain = `${item.title}${suffix}`;
+  try {
+    if (isEqual(parseItemText(plain), { ...item, currentValue: item.targetValue !== undefined ? item.currentValue ?? 0 : undefined })) {
+      return plain;
+    }
+  } catch {
+    // Quoted below
+  }
+  return `${JSON.stringify(item.title)}${suffix}`;
+};
+
+const inferType = (req: Pick<Requirement, 'children' | 'targetValue'>): string => {
+  if (req.children && req.children.length > 0) return RequirementType.GROUP;
+  return req.targetValue !== undefined ? RequirementType.NUMERIC : RequirementType.BOOLEAN;
+};
+
+// --- Serializing ---
+
+const formatAttribute = (indent: string, spec: FieldSpec, value: unknown): string => `${indent}${spec.key}: ${encodeValue(spec.codec, value)}`;
+
+const formatRewards = (indent: string, rewards: Reward[] = []): string[] => rewards.map((r, i) => {
+  const { id, ...rest } = r;
+  return `${indent}${REWARD_KEY}: ${encodeValue(reward, id === defaultRewardId(i) ? rest : r)}`;
+});
+
+const formatRequirements = (reqs: Requirement[], depth: number, taken: Set<string>): string[] => reqs.flatMap(req => {
+  const indent = '  '.repeat(depth);
+  const inner = `${indent}  `;
+  const item: ItemText = {
+    title: req.title,
+    currentValue: req.targetValue !== undefined ? req.currentValue ?? 0 : undefined,
+    targetValue: req.targetValue,
+    isOptional: req.isOptional || undefined,
+    isFailCondition: req.isFailCondition || undefined
+  };
+  const lines = [`${indent}- [${req.isFulfilled ? 'x' : ' '}] ${formatItemText(item)}`];
+
+  const implicit: Partial<Requirement> = { id: defaultId(req.title, taken), type: inferType(req) };
+  taken.add(req.id);
+  REQUIREMENT_FIELDS.forEach(spec => {
+    const value = req[spec.field as keyof Requirement];
+    if (value !== undefined && value !== implicit[spec.field as keyof Requirement]) lines.push(formatAttribute(inner, spec, value));
+  });
+  lines.push(...formatRewards(inner, req.rewards));
+  return [...lines, ...formatRequirements(req.children ?? [], depth + 1, taken)];
+});
+
+const formatDescription = (description: string): string | undefined => {
+  if (!description) return '';
+  const plain = description.split('\n');
+  const first = ATTRIBUTE.exec(plain[0]);
+  const readsBack = description === description.trim()
+    && !plain.some(line => ITEM.test(line))
+    && !(first && TASK_FIELDS.some(spec => spec.key === first[1]) || first?.[1] === REWARD_KEY);
+  return readsBack ? description : undefined;
+};
+
+/**
+ * Writes a task's definition (or a template's) as Markdown. Progress shows as checked boxes and counter values;
+ * other runtime state is left out. parseTaskMarkdown reads the result back into the same definition.
+ */
+export const serializeTaskMarkdown = (task: Task | TaskTemplate): string => {
+  const lines = [`# ${encodeValue(text, task.title)}`];
+  const description = formatDescription(task.description ?? '');
+  TASK_FIELDS.forEach(spec => {
+    const value = spec.field === 'description'
+      ? (description === undefined ? task.description : undefined)
+      : task[spec.field as keyof TaskTemplate];
+    if (value !== undefined) lines.push(formatAttribute('', spec, value));
+  });
+  lines.push(...formatRewards('', task.rewards));
+  if (description) lines.push('', description);
+  if (task.requirements.length > 0) lines.push('', ...formatRequirements(task.requirements, 0, new Set()));
+  return `${lines.join('\n')}\n`;
+};
+
+// --- Parsing ---
+
+interface SourceLine {
+  index: number; // Zero-based
+  key?: string; // Set for "key: value" lines
+}
+
+interface OpenItem {
+  indent: number;
+  req: Record<string, any>;
+  path: string;
+  keys: Set<string>;
+}
+
+/**
+ * Reads a task definition written in the Markdown dialect. Problems are reported as a TaskValidationError whose
+ * issue paths are line numbers ("line 12"), including those normalizeTemplate finds in the result.
+ */
+export const parseTaskMarkdown = (markdown: string): TaskTemplate => {
+  const lines = markdown.split(/\r?\n/).map(line => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length)));
+  const issues: ValidationIssue[] = [];
+  const lineOf = new Map<string, SourceLine>(); // Template path -> where it was written, for mapping validation issues back
+  const report = (index: number, message: string) => issues.push({ path: `line ${index + 1}`, message });
+
+  const read = <T>(codec: Codec<T>, value: string | undefined, index: number, key: string): T | undefined => {
+    if (!value?.trim()) {
+      report(index, `${key} needs a value`);
+      return undefined;
+    }
+    try {
+      return decodeValue(codec, value.trim());
+    } catch (e) {
+      report(index, `${key}: ${(e as Error).message}`);
+      return undefined;
+    }
+  };
+
+  // Sets one "key: value" line on the task or a requirement
+  const assign = (
+    target: Record<string, any>, path: string, specs: FieldSpec[], keys: Set<string>, key: string, value: string | undefined, index: number
+  ): boolean => {
+    if (key === REWARD_KEY) {
+      target.rewards = target.rewards ?? [];
+      lineOf.set(`${path}${path ? '.' : ''}rewards[${target.rewards.length}]`, { index, key });
+      target.rewards.push(read(reward, value, index, key) ?? {});
+      return true;
+    }
+    const spec = specs.find(s => s.key === key);
+    if (!spec) return false;
+    if (keys.has(key)) report(index, `${key} is given twice`);
+    keys.add(key);
+    lineOf.set(`${path}${path ? '.' : ''}${spec.field}`, { index, key });
+    const parsed = read(spec.codec, value, index, key);
+    if (parsed !== undefined) target[spec.field] = parsed;
+    return true;
+  };
+
+  let i = 0;
+  while (i < lines.length && !lines[i].trim()) i++;
+  const heading = HEADING.exec(lines[i] ?? '');
+  if (!heading) {
+    throw new TaskValidationError('markdown', [{ path: `line ${Math.min(i, lines.length - 1) + 1}`, message: 'expected a "# Title" heading' }]);
+  }
+  const template: Record<string, any> = { title: read(text, heading[1], i, 'title') ?? '', requirements: [] };
+  lineOf.set('', { index: i });
+  lineOf.set('title', { index: i, key: 'title' });
+  i++;
+
+  // Task attributes follow the heading, then the description runs up to the first checklist item
+  const taskKeys = new Set<string>();
+  while (i < lines.length && !lines[i].trim()) i++;
+  for (let match; i < lines.length && (match = ATTRIBUTE.exec(lines[i])) && !/^\s/.test(lines[i]); i++) {
+    if (!assign(template, '', TASK_FIELDS, taskKeys, match[1], match[2], i)) break;
+  }
+  const descriptionStart = i;
+  while (i < lines.length && !ITEM.test(lines[i])) i++;
+  const description = lines.slice(descriptionStart, i).join('\n').trim();
+  if (description && template.description !== undefined) {
+    report(descriptionStart, 'description is given both as text and as an attribute');
+  } else if (template.description === undefined) {
+    template.description = description;
+  }
+
+  const open: OpenItem[] = [];
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    while (open.length > 0 && open[open.length - 1].indent >= indent) open.pop();
+    const parent = open[open.length - 1];
+
+    const item = ITEM.exec(line);
+    if (item) {
+      const siblings: Record<string, any>[] = parent ? (parent.req.children = parent.req.children ?? []) : template.requirements;
+      const path = parent ? `${parent.path}.children[${siblings.length}]` : `requirements[${siblings.length}]`;
+      let parsed: ItemText = { title: '' };
+      try {
+        parsed = parseItemText(item[3] ?? '');
+      } catch (e) {
+        report(i, (e as Error).message);
+      }
+      const req: Record<string, any> = { ...parsed, isFulfilled: item[2] !== ' ' };
+      Object.keys(req).forEach(key => req[key] === undefined && delete req[key]);
+      siblings.push(req);
+      lineOf.set(path, { index: i });
+      open.push({ indent, req, path, keys: new Set() });
+      continue;
+    }
+
+    const attribute = ATTRIBUTE.exec(line);
+    if (!parent) {
+      report(i, 'expected a checklist item like "- [ ] Title"');
+    } else if (!attribute) {
+      report(i, 'expected a checklist item or an indented "key: value" line');
+    } else if (!assign(parent.req, parent.path, REQUIREMENT_FIELDS, parent.keys, attribute[1], attribute[2], i)) {
+      report(i, `unknown key "${attribute[1]}"; expected ${[...REQUIREMENT_FIELDS.map(s => s.key), REWARD_KEY].join(', ')}`);
+    }
+  }
+
+  // Defaults that depend on the whole document, in document order
+  const taken = new Set<string>();
+  const complete = (reqs: Record<string, any>[]) => reqs.forEach(req => {
+    req.id = req.id ?? defaultId(req.title, taken);
+    taken.add(req.id);
+    req.type = req.type ?? inferType(req);
+    req.rewards?.forEach((r: Reward, index: number) => { r.id = r.id ?? defaultRewardId(index); });
+    complete(req.children ?? []);
+  });
+  complete(template.requirements);
+  template.rewards?.forEach((r: Reward, index: number) => { r.id = r.id ?? defaultRewardId(index); });
+
+  if (issues.length > 0) throw new TaskValidationError('markdown', issues);
+  try {
+    return normalizeTemplate(template);
+  } catch (e) {
+    if (!(e instanceof TaskValidationError)) throw e;
+    const located = e.issues.map(issue => locate(issue, lineOf));
+    throw new TaskValidationError('markdown', located.sort((a, b) => lineNumber(a) - lineNumber(b)));
+  }
+};
+
+// Points a template issue at the line it came from: the longest recorded path that contains it.
+// Issues on an attribute are named by its key, others by the field within the requirement.
+const locate = (issue: ValidationIssue, lineOf: Map<string, SourceLine>): ValidationIssue => {
+  let best = '';
+  lineOf.forEach((_, path) => {
+    const contains = issue.path === path || issue.path.startsWith(`${path}.`) || issue.path.startsWith(`${path}[`) || path === '';
+    if (contains && path.length >= best.length) best = path;
+  });
+  const { index, key } = lineOf.get(best)!;
+  const label = key ?? issue.path.slice(best.length).replace(/^\./, '');
+  return { path: `line ${index + 1}`, message: label ? `${label}: ${issue.message}` : issue.message };
+};
+
+const lineNumber = (issue: ValidationIssue): number => Number(issue.path.slice('line '.length));
@@ -0,0 +1,116 @@
+import { Requirement, RequirementChange, Task, TaskDefinitionChanges, TaskDiff, TaskRefinement, TaskTemplate } from '../types';
+
+/**
+ * Refinements rewrite an existing task's definition, e.g. following an instruction given to a generator.
+ * A refinement carries the complete new definition together with a diff against the current one, so it can be
+ * reviewed before TaskManager.editTask applies it. Requirements are matched by id: those that keep their id keep
+ * their progress, unless their type changed.
+ */
+
+// Task fields a refinement rewrites
+export const REFINABLE_FIELDS = [
+  'title', 'description', 'requirements', 'timeLimit', 'warningThresholds', 'failurePolicy', 'recurrence', 'rewards'
+] as const;
+
+// Progress and runtime flags of a requirement. They are carried over instead of compared.
+export const STATE_FIELDS: (keyof Requirement)[] = [
+  'isFulfilled', 'currentValue', 'contributions', 'isDisabled', 'isHidden', 'isFailed', 'failureReason', 'attempts', 'attemptStartedAt'
+];
+
+export const isStateField = (key: string): boolean => (STATE_FIELDS as string[]).includes(key);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Structural equality. A key holding undefined counts as absent.
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => isEqual(a[key], b[key]));
+};
+
+interface PlacedRequirement {
+  req: Requirement;
+  parentId: string | null;
+}
+
+const flatten = (reqs: Requirement[], parentId: string | null = null): PlacedRequirement[] => {
+  return reqs.flatMap(req => [{ req, parentId }, ...flatten(req.children ?? [], req.id)]);
+};
+
+const definitionFields = (req: Requirement): string[] => {
+  return Object.keys(req).filter(key => key !== 'id' && key !== 'children' && !isStateField(key));
+};
+
+const changedFields = (before: PlacedRequirement, after: PlacedRequirement): string[] => {
+  const keys = new Set([...definitionFields(before.req), ...definitionFields(after.req)]);
+  const fields = [...keys].filter(key => !isEqual(before.req[key as keyof Requirement], after.req[key as keyof Requirement]));
+  return before.parentId === after.parentId ? fields : [...fields, 'parent'];
+};
+
+/**
+ * Compares a task's definition with the changes about to be made to it.
+ */
+export const diffTask = (task: Task, changes: TaskDefinitionChanges): TaskDiff => {
+  const fields = (Object.keys(changes) as (keyof TaskDefinitionChanges)[])
+    .filter(field => field !== 'requirements' && !isEqual(task[field], changes[field]));
+
+  const before = flatten(task.requirements);
+  const after = flatten(changes.requirements ?? task.requirements);
+  const beforeById = new Map(before.map(placed => [placed.req.id, placed]));
+  const afterById = new Map(after.map(placed => [placed.req.id, placed]));
+
+  const added = after
+    .filter(placed => !beforeById.has(placed.req.id) && (placed.parentId === null || beforeById.has(placed.parentId)))
+    .map(placed => placed.req);
+  const removed = before
+    .filter(placed => !afterById.has(placed.req.id) && (placed.parentId === null || afterById.has(placed.parentId)))
+    .map(placed => placed.req);
+  const changed: RequirementChange[] = after.flatMap(placed => {
+    const previous = beforeById.get(placed.req.id);
+    if (!previous) return [];
+    const fields = changedFields(previous, placed);
+    return fields.length > 0 ? [{ before: previous.req, after: placed.req, fields }] : [];
+  });
+
+  return { fields, added, removed, changed };
+};
+
+export const isEmptyDiff = (diff: TaskDiff): boolean => {
+  return diff.fields.length === 0 && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+};
+
+// Copies a field as it is, absent included
+const copyField = <K extends keyof Requirement>(to: Requirement, from: Requirement, field: K): void => {
+  if (from[field] === undefined) delete to[field];
+  else to[field] = from[field];
+};
+
+/**
+ * Gives revised requirements the progress of the requirements they replace, matched by id and type.
+ */
+const carryState = (current: Requirement[], revised: Requirement[]): Requirement[] => {
+  const currentById = new Map(flatten(current).map(placed => [placed.req.id, placed.req]));
+  const carry = (req: Requirement): Requirement => {
+    const children = req.children?.map(carry);
+    const previous = currentById.get(req.id);
+    const next: Requirement = children ? { ...req, children } : { ...req };
+    if (!previous || previous.type !== req.type) return next;
+
+    STATE_FIELDS.forEach(field => copyField(next, previous, field));
+    return next;
+  };
+  return revised.map(carry);
+};
+
+/**
+ * Turns a revised definition of a task into a refinement of it. Fields the revision leaves out are cleared.
+ */
+export const createRefinement = (task: Task, revised: TaskTemplate, instruction: string, summary?: string): TaskRefinement => {
+  const changes = Object.fromEntries(REFINABLE_FIELDS.map(field => [field, revised[field]])) as TaskDefinitionChanges;
+  changes.requirements = carryState(task.requirements, revised.requirements);
+  return { instruction, summary, changes, diff: diffTask(task, changes) };
+};
@@ -0,0 +1,36 @@
+import { Task, Requirement, TaskDefinitionChanges, TaskEngineEvent, TaskEngineEventMap } from '../types';
+import { ConflictResolution, ImportPlan } from './taskBundle';
+
+/**
+ * What the UI and the reward ledger need from whoever owns the tasks: a TaskManager in the same
+ * process, or a RemoteTaskManager mirroring a task server. Commands validate synchronously and
+ * throw a TaskValidationError for invalid input; flush() waits until their effects are settled.
+ */
+export interface TaskStore {
+  getTasks(): Task[];
+  getTask(id: string): Task | undefined;
+  subscribe(listener: () => void): () => void;
+  on<E extends TaskEngineEvent>(event: E, handler: (payload: TaskEngineEventMap[E]) => void): () => void;
+
+  load(): Promise<Task[]>;
+  flush(): Promise<void>;
+
+  addTask(task: Task): Task;
+  importTasks(tasks: Task[], resolution?: ConflictResolution | Record<string, ConflictResolution>): ImportPlan;
+  editTask(id: string, changes: TaskDefinitionChanges): void;
+  removeTask(id: string): void;
+  start(id: string): void;
+  pause(id: string): void;
+  reset(id: string): void;
+  updateRequirement(id: string, reqId: string, updates: Partial<Requirement>, participantId?: string): void;
+  increment(id: string, reqId: string, amount?: number, participantId?: string): void;
+  decrement(id: string, reqId: string, amount?: number, participantId?: string): void;
+  setValue(id: string, reqId: string, value: number, participantId?: string): void;
+  toggle(id: string, reqId: string, participantId?: string): void;
+  unfulfill(id: string, reqId: string, participantId?: string): void;
+  undo(id: string): void;
+  redo(id: string): void;
+
+  startClock(): void;
+  stopClock(): void;
+}
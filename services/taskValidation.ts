@@ -0,0 +1,536 @@
+import { Task, TaskTemplate, Requirement, TaskStatus, RequirementType, Reward, Achievement, RecurrenceRule } from '../types';
+import { parseCondition, getConditionRefs, getConditionVariables } from './conditions';
+import { validateRequirementType } from './requirementRegistry';
+import { getNextOccurrence } from './recurrence';
+import { ACHIEVEMENT_VARIABLES, CURRENCY_VARIABLE_PREFIX, TASK_REWARD_VARIABLES } from './rewards';
+
+/**
+ * Validation and normalization for tasks, templates and requirements coming from outside the engine
+ * (AI generation, imports, manual entry, storage). Normalizing fills in ids and defaults;
+ * validation reports every problem at once, each with a path such as "requirements[0].children[2].targetValue".
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class TaskValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(subject: string, issues: ValidationIssue[]) {
+    super(`Invalid ${subject}:\n${issues.map(i => `  ${i.path || '(root)'}: ${i.message}`).join('\n')}`);
+    this.name = 'TaskValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A valid task that doesn't fit with the tasks already there, e.g. its id is taken or its prerequisites would form a cycle.
+ */
+export class TaskConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskConflictError';
+  }
+}
+
+const NUMBER_FIELDS = ['currentValue', 'targetValue', 'minFulfilled', 'valueLimit', 'timeLimit', 'deadline', 'weight'] as const;
+const CONDITION_FIELDS = ['fulfillWhen', 'visibleWhen'] as const;
+
+const generateId = (): string => crypto.randomUUID();
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const join = (path: string, key: string): string => path ? `${path}.${key}` : key;
+
+const checkCondition = (expr: unknown, path: string, issues: ValidationIssue[]): expr is string => {
+  if (typeof expr !== 'string') {
+    issues.push({ path, message: 'must be a string' });
+    return false;
+  }
+  try {
+    parseCondition(expr);
+    return true;
+  } catch (e) {
+    issues.push({ path, message: (e as Error).message });
+    return false;
+  }
+};
+
+// --- Rewards ---
+
+const normalizeRewards = (raw: unknown, path: string, issues: ValidationIssue[]): Reward[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    issues.push({ path, message: 'must be an array' });
+    return undefined;
+  }
+  return raw.map((reward: unknown, i: number) => {
+    const rewardPath = `${path}[${i}]`;
+    if (!isObject(reward)) {
+      issues.push({ path: rewardPath, message: 'must be an object' });
+      return {};
+    }
+    if (reward.xp !== undefined && !isNumber(reward.xp)) {
+      issues.push({ path: join(rewardPath, 'xp'), message: 'must be a number' });
+    }
+    if (reward.currency !== undefined && (!isObject(reward.currency) || !Object.values(reward.currency).every(isNumber))) {
+      issues.push({ path: join(rewardPath, 'currency'), message: 'must map currency names to numbers' });
+    }
+    if (reward.items !== undefined && (!Array.isArray(reward.items) || !reward.items.every(item => typeof item === 'string'))) {
+      issues.push({ path: join(rewardPath, 'items'), message: 'must be a list of item ids' });
+    }
+    if (reward.payload !== undefined && !isObject(reward.payload)) {
+      issues.push({ path: join(rewardPath, 'payload'), message: 'must be an object' });
+    }
+    if (reward.on !== undefined && reward.on !== 'COMPLETED' && reward.on !== 'FAILED') {
+      issues.push({ path: join(rewardPath, 'on'), message: 'must be COMPLETED or FAILED' });
+    }
+    if (reward.when !== undefined) checkCondition(reward.when, join(rewardPath, 'when'), issues);
+    return { ...reward, id: typeof reward.id === 'string' && reward.id ? reward.id : generateId() };
+  });
+};
+
+/**
+ * Validates achievement definitions. Their conditions only see board-wide variables, not requirements.
+ */
+export const validateAchievements = (achievements: Achievement[]): void => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  achievements.forEach((achievement, i) => {
+    const path = `[${i}]`;
+    if (typeof achievement.id !== 'string' || !achievement.id) {
+      issues.push({ path: join(path, 'id'), message: 'is required' });
+    } else if (seen.has(achievement.id)) {
+      issues.push({ path: join(path, 'id'), message: `duplicate id "${achievement.id}"` });
+    }
+    seen.add(achievement.id);
+    if (typeof achievement.title !== 'string' || !achievement.title.trim()) {
+      issues.push({ path: join(path, 'title'), message: 'is required' });
+    }
+    const conditionPath = join(path, 'when');
+    if (typeof achievement.when !== 'string') {
+      issues.push({ path: conditionPath, message: 'is required' });
+    } else if (checkCondition(achievement.when, conditionPath, issues)) {
+      getConditionRefs(achievement.when).forEach(ref => {
+        issues.push({ path: conditionPath, message: `refers to requirement "${ref}"; achievements can only use $variables` });
+      });
+      getConditionVariables(achievement.when)
+        .filter(name => !ACHIEVEMENT_VARIABLES.includes(name) && !name.startsWith(CURRENCY_VARIABLE_PREFIX))
+        .forEach(name => issues.push({ path: conditionPath, message: `unknown variable $${name}` }));
+    }
+    normalizeRewards(achievement.rewards, join(path, 'rewards'), issues);
+  });
+  if (issues.length > 0) throw new TaskValidationError('achievements', issues);
+};
+
+// --- Requirements ---
+
+const normalizeRequirement = (raw: unknown, path: string, issues: ValidationIssue[]): Requirement => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return { id: generateId(), type: RequirementType.BOOLEAN, title: '', isFulfilled: false };
+  }
+
+  if (typeof raw.title !== 'string' || !raw.title.trim()) {
+    issues.push({ path: join(path, 'title'), message: 'is required' });
+  }
+  if (typeof raw.type !== 'string') {
+    issues.push({ path: join(path, 'type'), message: 'is required' });
+  }
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !raw.id)) {
+    issues.push({ path: join(path, 'id'), message: 'must be a non-empty string' });
+  }
+  NUMBER_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && !isNumber(raw[field])) {
+      issues.push({ path: join(path, field), message: 'must be a number' });
+    }
+  });
+  CONDITION_FIELDS.forEach(field => {
+    const expr = raw[field];
+    if (expr === undefined || !checkCondition(expr, join(path, field), issues)) return;
+    getConditionVariables(expr).forEach(name => {
+      issues.push({ path: join(path, field), message: `$${name}: variables can only be used in reward conditions` });
+    });
+  });
+  if (raw.children !== undefined && !Array.isArray(raw.children)) {
+    issues.push({ path: join(path, 'children'), message: 'must be an array' });
+  }
+
+  const children = Array.isArray(raw.children)
+    ? raw.children.map((child: unknown, i: number) => normalizeRequirement(child, `${join(path, 'children')}[${i}]`, issues))
+    : undefined;
+
+  const rewards = normalizeRewards(raw.rewards, join(path, 'rewards'), issues);
+
+  const req: Requirement = {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    type: raw.type as RequirementType,
+    title: raw.title as string,
+    isFulfilled: raw.isFulfilled === true,
+    children,
+    rewards
+  };
+  if (children === undefined) delete req.children;
+  if (rewards === undefined) delete req.rewards;
+  if (req.type === RequirementType.NUMERIC && req.currentValue === undefined) req.currentValue = 0;
+
+  if (typeof req.type === 'string') {
+    validateRequirementType(req).forEach(message => issues.push({ path, message }));
+  }
+  if (isNumber(req.valueLimit) && isNumber(req.targetValue) && req.valueLimit < req.targetValue) {
+    issues.push({ path: join(path, 'valueLimit'), message: `must not be below targetValue (${req.targetValue})` });
+  }
+  if (isNumber(req.minFulfilled) && (req.minFulfilled < 0 || req.minFulfilled > (children?.length ?? 0))) {
+    issues.push({ path: join(path, 'minFulfilled'), message: `must be between 0 and the number of children (${children?.length ?? 0})` });
+  }
+  if (isNumber(req.timeLimit) && req.timeLimit <= 0) {
+    issues.push({ path: join(path, 'timeLimit'), message: 'must be positive' });
+  }
+  if (isNumber(req.weight) && req.weight <= 0) {
+    issues.push({ path: join(path, 'weight'), message: 'must be positive' });
+  }
+  validateParticipantFields(req, path, issues);
+  validateInputFields(req, path, issues);
+
+  return req;
+};
+
+/**
+ * Checks input rules and bindings, see services/requirementInput.ts and services/counters.ts.
+ */
+const validateInputFields = (req: Requirement, path: string, issues: ValidationIssue[]): void => {
+  const input: unknown = req.input;
+  if (input !== undefined) {
+    if (!isObject(input)) {
+      issues.push({ path: join(path, 'input'), message: 'must be an object' });
+    } else {
+      (['min', 'max', 'step'] as const).forEach(field => {
+        if (input[field] === undefined) return;
+        if (!isNumber(input[field])) {
+          issues.push({ path: join(path, `input.${field}`), message: 'must be a number' });
+        } else if (req.type !== RequirementType.NUMERIC) {
+          issues.push({ path: join(path, `input.${field}`), message: 'only applies to NUMERIC requirements' });
+        }
+      });
+      if (isNumber(input.step) && input.step <= 0) {
+        issues.push({ path: join(path, 'input.step'), message: 'must be positive' });
+      }
+      if (isNumber(input.min) && isNumber(input.max) && input.min > input.max) {
+        issues.push({ path: join(path, 'input.max'), message: `must not be below min (${input.min})` });
+      }
+      if (input.revertible !== undefined && typeof input.revertible !== 'boolean') {
+        issues.push({ path: join(path, 'input.revertible'), message: 'must be true or false' });
+      }
+    }
+  }
+
+  const binding: unknown = req.binding;
+  if (binding === undefined) return;
+  const bindingPath = join(path, 'binding');
+  if (!isObject(binding)) {
+    issues.push({ path: bindingPath, message: 'must be an object' });
+  } else if (binding.type === 'COUNTER') {
+    if (typeof binding.counter !== 'string' || !binding.counter) {
+      issues.push({ path: join(bindingPath, 'counter'), message: 'must be a non-empty string' });
+    }
+  } else if (binding.type === 'REQUIREMENT') {
+    (['taskId', 'requirementId'] as const).forEach(field => {
+      if (typeof binding[field] !== 'string' || !binding[field]) {
+        issues.push({ path: join(bindingPath, field), message: 'must be a non-empty string' });
+      }
+    });
+  } else {
+    issues.push({ path: join(bindingPath, 'type'), message: 'must be COUNTER or REQUIREMENT' });
+  }
+  if (req.type !== RequirementType.NUMERIC) {
+    issues.push({ path: bindingPath, message: 'only applies to NUMERIC requirements' });
+  }
+};
+
+/**
+ * Checks the group quest fields of a requirement, see services/participants.ts.
+ */
+const validateParticipantFields = (req: Requirement, path: string, issues: ValidationIssue[]): void => {
+  const countable = req.type === RequirementType.BOOLEAN || req.type === RequirementType.NUMERIC;
+  if (req.aggregation !== undefined) {
+    if (!['SUM', 'ALL', 'ANY'].includes(req.aggregation)) {
+      issues.push({ path: join(path, 'aggregation'), message: 'must be SUM, ALL or ANY' });
+    } else if (!countable) {
+      issues.push({ path: join(path, 'aggregation'), message: 'only applies to BOOLEAN and NUMERIC requirements' });
+    } else if (req.aggregation === 'SUM' && req.type !== RequirementType.NUMERIC) {
+      issues.push({ path: join(path, 'aggregation'), message: 'SUM only applies to NUMERIC requirements' });
+    }
+  }
+  if (req.xorScope !== undefined) {
+    if (!['SHARED', 'PARTICIPANT'].includes(req.xorScope)) {
+      issues.push({ path: join(path, 'xorScope'), message: 'must be SHARED or PARTICIPANT' });
+    } else if (!req.xorGroup) {
+      issues.push({ path: join(path, 'xorScope'), message: 'requires an xorGroup' });
+    } else if (req.xorScope === 'PARTICIPANT' && (!countable || req.children || req.fulfillWhen !== undefined)) {
+      issues.push({ path: join(path, 'xorScope'), message: 'PARTICIPANT only applies to BOOLEAN and NUMERIC requirements without children or fulfillWhen' });
+    }
+  }
+  if (req.contributions !== undefined) {
+    const valid = isObject(req.contributions) && Object.values(req.contributions).every(c =>
+      isObject(c) && (c.value === undefined || isNumber(c.value)) && (c.isFulfilled === undefined || typeof c.isFulfilled === 'boolean')
+    );
+    if (!valid) {
+      issues.push({ path: join(path, 'contributions'), message: 'must map participant ids to { value?, isFulfilled? }' });
+    }
+  }
+};
+
+/**
+ * Checks rules that span the whole tree: unique ids, XOR groups with at least two members and a single scope
+ * and conditions (including reward conditions) that only refer to existing requirements and known variables.
+ */
+const validateRequirementTree = (
+  requirements: Requirement[],
+  path: string,
+  issues: ValidationIssue[],
+  taskRewards: Reward[] = []
+): void => {
+  const paths = new Map<string, string>(); // id -> path of first occurrence
+  const xorMembers = new Map<string, string[]>(); // group -> member paths
+  const xorScopes = new Map<string, string>(); // group -> scope of its first member
+  const conditions: { path: string; expr: string }[] = [];
+  const rewardConditions: { path: string; expr: string }[] = [];
+  const collectRewards = (rewards: Reward[], rewardsPath: string) => rewards.forEach((reward, i) => {
+    if (typeof reward.when === 'string') rewardConditions.push({ path: join(`${rewardsPath}[${i}]`, 'when'), expr: reward.when });
+  });
+
+  const visit = (reqs: Requirement[], parentPath: string) => reqs.forEach((req, i) => {
+    const reqPath = `${parentPath}[${i}]`;
+    if (paths.has(req.id)) {
+      issues.push({ path: join(reqPath, 'id'), message: `duplicate id "${req.id}" (also used at ${paths.get(req.id)})` });
+    } else {
+      paths.set(req.id, reqPath);
+    }
+    if (req.xorGroup) {
+      if (!xorMembers.has(req.xorGroup)) xorMembers.set(req.xorGroup, []);
+      xorMembers.get(req.xorGroup)!.push(reqPath);
+      const scope = req.xorScope ?? 'SHARED';
+      if (!xorScopes.has(req.xorGroup)) {
+        xorScopes.set(req.xorGroup, scope);
+      } else if (xorScopes.get(req.xorGroup) !== scope) {
+        issues.push({ path: join(reqPath, 'xorScope'), message: `every member of XOR group "${req.xorGroup}" needs the same xorScope` });
+      }
+    }
+    CONDITION_FIELDS.forEach(field => {
+      if (typeof req[field] === 'string') conditions.push({ path: join(reqPath, field), expr: req[field]! });
+    });
+    collectRewards(req.rewards ?? [], join(reqPath, 'rewards'));
+    if (req.children) visit(req.children, join(reqPath, 'children'));
+  });
+  visit(requirements, join(path, 'requirements'));
+  collectRewards(taskRewards, join(path, 'rewards'));
+
+  xorMembers.forEach((members, group) => {
+    if (members.length === 1) {
+      issues.push({ path: join(members[0], 'xorGroup'), message: `XOR group "${group}" needs at least two members` });
+    }
+  });
+  [...conditions, ...rewardConditions].forEach(({ path: conditionPath, expr }) => {
+    getConditionRefs(expr).filter(ref => !paths.has(ref)).forEach(ref => {
+      issues.push({ path: conditionPath, message: `refers to unknown requirement "${ref}"` });
+    });
+  });
+  rewardConditions.forEach(({ path: conditionPath, expr }) => {
+    getConditionVariables(expr).filter(name => !TASK_REWARD_VARIABLES.includes(name)).forEach(name => {
+      issues.push({ path: conditionPath, message: `unknown variable $${name}` });
+    });
+  });
+};
+
+const normalizeRequirementList = (raw: unknown, path: string, issues: ValidationIssue[], taskRewards?: Reward[]): Requirement[] => {
+  const listPath = join(path, 'requirements');
+  if (!Array.isArray(raw)) {
+    issues.push({ path: listPath, message: 'must be an array' });
+    return [];
+  }
+  const requirements = raw.map((req, i) => normalizeRequirement(req, `${listPath}[${i}]`, issues));
+  validateRequirementTree(requirements, path, issues, taskRewards);
+  return requirements;
+};
+
+// --- Task Settings ---
+
+const validateParticipants = (raw: unknown, issues: ValidationIssue[]): void => {
+  if (raw === undefined) return;
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'participants', message: 'must be an array' });
+    return;
+  }
+  const ids = new Set<string>();
+  raw.forEach((participant: unknown, i: number) => {
+    const path = `participants[${i}]`;
+    if (!isObject(participant)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (typeof participant.id !== 'string' || !participant.id) {
+      issues.push({ path: join(path, 'id'), message: 'must be a non-empty string' });
+    } else if (ids.has(participant.id)) {
+      issues.push({ path: join(path, 'id'), message: `duplicate id "${participant.id}"` });
+    } else {
+      ids.add(participant.id);
+    }
+    if (typeof participant.name !== 'string' || !participant.name.trim()) {
+      issues.push({ path: join(path, 'name'), message: 'is required' });
+    }
+  });
+};
+
+/**
+ * Reports contributions from participants the task doesn't have.
+ */
+const validateContributors = (requirements: Requirement[], participants: unknown, issues: ValidationIssue[], path = 'requirements'): void => {
+  const ids = new Set(Array.isArray(participants) ? participants.map(p => p?.id) : []);
+  requirements.forEach((req, i) => {
+    const reqPath = `${path}[${i}]`;
+    if (isObject(req.contributions)) {
+      Object.keys(req.contributions).filter(id => !ids.has(id)).forEach(id => {
+        issues.push({ path: join(reqPath, 'contributions'), message: `unknown participant "${id}"` });
+      });
+    }
+    if (req.children) validateContributors(req.children, participants, issues, join(reqPath, 'children'));
+  });
+};
+
+const validateTaskSettings = (raw: Record<string, unknown>, issues: ValidationIssue[]): void => {
+  validateParticipants(raw.participants, issues);
+  if (raw.timeLimit !== undefined && (!isNumber(raw.timeLimit) || raw.timeLimit < 0)) {
+    issues.push({ path: 'timeLimit', message: 'must be a non-negative number' });
+  }
+  if (raw.dueAt !== undefined && !isNumber(raw.dueAt)) {
+    issues.push({ path: 'dueAt', message: 'must be a number' });
+  }
+
+  const policy = raw.failurePolicy;
+  if (policy !== undefined) {
+    const { mode, maxAttempts } = isObject(policy) ? policy : { mode: undefined, maxAttempts: undefined };
+    if (typeof mode !== 'string' || !['FAIL_TASK', 'FAIL_PARENT', 'RETRY'].includes(mode)) {
+      issues.push({ path: 'failurePolicy.mode', message: 'must be FAIL_TASK, FAIL_PARENT or RETRY' });
+    }
+    if (maxAttempts !== undefined && !(isNumber(maxAttempts) && Number.isInteger(maxAttempts) && maxAttempts >= 1)) {
+      issues.push({ path: 'failurePolicy.maxAttempts', message: 'must be a positive integer' });
+    }
+  }
+
+  const recurrence = raw.recurrence;
+  if (recurrence !== undefined) {
+    const { mode, rule } = isObject(recurrence) ? recurrence : { mode: undefined, rule: undefined };
+    if (typeof mode !== 'string' || !['RESET', 'SPAWN'].includes(mode)) {
+      issues.push({ path: 'recurrence.mode', message: 'must be RESET or SPAWN' });
+    }
+    const { type, times } = isObject(rule) ? rule : { type: undefined, times: undefined };
+    if (type === 'COUNT') {
+      if (!(isNumber(times) && Number.isInteger(times) && times >= 1)) {
+        issues.push({ path: 'recurrence.rule.times', message: 'must be a positive integer' });
+      }
+    } else if (typeof type === 'string' && ['DAILY', 'WEEKLY', 'CRON'].includes(type)) {
+      try {
+        // The rule's own fields are checked by computing its next occurrence
+        getNextOccurrence(rule as RecurrenceRule, Date.now());
+      } catch (e) {
+        issues.push({ path: 'recurrence.rule', message: (e as Error).message });
+      }
+    } else {
+      issues.push({ path: 'recurrence.rule.type', message: 'must be DAILY, WEEKLY, CRON or COUNT' });
+    }
+  }
+};
+
+// --- Templates ---
+
+/**
+ * Validates a task template and fills in requirement ids and defaults. Throws a TaskValidationError listing every issue.
+ */
+export const normalizeTemplate = (raw: unknown): TaskTemplate => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) throw new TaskValidationError('template', [{ path: '', message: 'must be an object' }]);
+
+  if (typeof raw.title !== 'string' || !raw.title.trim()) issues.push({ path: 'title', message: 'is required' });
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    issues.push({ path: 'description', message: 'must be a string' });
+  }
+  validateTaskSettings(raw, issues);
+  const rewards = normalizeRewards(raw.rewards, 'rewards', issues);
+  const requirements = normalizeRequirementList(raw.requirements, '', issues, rewards);
+
+  if (issues.length > 0) throw new TaskValidationError('template', issues);
+  return { ...raw, title: raw.title, description: raw.description ?? '', requirements, rewards } as TaskTemplate;
+};
+
+/**
+ * Creates a fresh IDLE task from a template. The template cannot override the task's identity or state.
+ */
+export const createTaskFromTemplate = (template: TaskTemplate, now: number = Date.now()): Task => {
+  const { id, version, createdAt, parameters, ...content } = normalizeTemplate(template);
+  return normalizeTask({
+    ...content,
+    id: generateId(),
+    status: TaskStatus.IDLE,
+    elapsedTime: 0,
+    createdAt: now,
+    updatedAt: now
+  }, now);
+};
+
+// --- Tasks ---
+
+/**
+ * Validates a task and fills in missing ids and defaults. Runtime state that is present (status, time,
+ * history) is kept, so stored tasks come back unchanged. Throws a TaskValidationError listing every issue.
+ */
+export const normalizeTask = (raw: unknown, now: number = Date.now()): Task => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) throw new TaskValidationError('task', [{ path: '', message: 'must be an object' }]);
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !raw.id)) {
+    issues.push({ path: 'id', message: 'must be a non-empty string' });
+  }
+  if (typeof raw.title !== 'string' || !raw.title.trim()) issues.push({ path: 'title', message: 'is required' });
+  if (raw.status !== undefined && !Object.values(TaskStatus).includes(raw.status as TaskStatus)) {
+    issues.push({ path: 'status', message: `unknown status "${raw.status}"` });
+  }
+  validateTaskSettings(raw, issues);
+  const rewards = normalizeRewards(raw.rewards, 'rewards', issues);
+  const requirements = normalizeRequirementList(raw.requirements, '', issues, rewards);
+  validateContributors(requirements, raw.participants, issues);
+
+  if (issues.length > 0) throw new TaskValidationError(`task${typeof raw.id === 'string' ? ` "${raw.id}"` : ''}`, issues);
+
+  return {
+    ...raw,
+    id: raw.id ?? generateId(),
+    title: raw.title,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    status: raw.status ?? TaskStatus.IDLE,
+    requirements,
+    rewards,
+    elapsedTime: isNumber(raw.elapsedTime) ? raw.elapsedTime : 0,
+    createdAt: isNumber(raw.createdAt) ? raw.createdAt : now,
+    updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : now
+  } as Task;
+};
+
+/**
+ * Lists the problems with a task without throwing. Empty when valid.
+ */
+export const validateTask = (raw: unknown): ValidationIssue[] => {
+  try {
+    normalizeTask(raw);
+    return [];
+  } catch (e) {
+    if (e instanceof TaskValidationError) return e.issues;
+    throw e;
+  }
+};
@@ -0,0 +1,283 @@
+import { Task, TaskTemplate, TemplateParameter } from '../types';
+import { resetTask } from './taskEngine';
+import { createTaskFromTemplate, normalizeTemplate, TaskValidationError, ValidationIssue } from './taskValidation';
+import { TemplateRepository } from './storage/templateRepository';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Templates are reusable task definitions. String fields may contain {{name}} placeholders that are
+ * filled from the template's parameters when a task is made from it:
+ *
+ *   title: 'Do {{reps}} pushups'        -> 'Do 20 pushups'
+ *   targetValue: '{{reps}}'             -> 20 (a field that is only a placeholder keeps the value's type)
+ *   fulfillWhen: 'pushups.value >= {{reps}}'
+ */
+
+type ParameterValues = Record<string, number | string>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+// Library bookkeeping that is never interpolated
+const TEMPLATE_META_KEYS = new Set(['id', 'version', 'createdAt', 'parameters']);
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const mapTemplateStrings = (template: TaskTemplate, map: (value: string) => unknown): TaskTemplate => {
+  const visit = (value: unknown): unknown => {
+    if (typeof value === 'string') return map(value);
+    if (Array.isArray(value)) return value.map(visit);
+    if (isObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, visit(v)]));
+    return value;
+  };
+  return Object.fromEntries(
+    Object.entries(template).map(([key, value]) => [key, TEMPLATE_META_KEYS.has(key) ? value : visit(value)])
+  ) as TaskTemplate;
+};
+
+/**
+ * Lists the placeholder names a template uses.
+ */
+export const getTemplatePlaceholders = (template: TaskTemplate): string[] => {
+  const names = new Set<string>();
+  mapTemplateStrings(template, value => {
+    for (const match of value.matchAll(PLACEHOLDER)) names.add(match[1]);
+    return value;
+  });
+  return [...names];
+};
+
+const validateParameters = (template: TaskTemplate, issues: ValidationIssue[]): void => {
+  const seen = new Set<string>();
+  (template.parameters ?? []).forEach((param, i) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(param.name ?? '')) {
+      issues.push({ path: `parameters[${i}].name`, message: 'must be a letter or underscore followed by letters, digits or underscores' });
+    } else if (seen.has(param.name)) {
+      issues.push({ path: `parameters[${i}].name`, message: `duplicate parameter "${param.name}"` });
+    }
+    seen.add(param.name);
+    if (param.type !== 'number' && param.type !== 'string') {
+      issues.push({ path: `parameters[${i}].type`, message: 'must be number or string' });
+    }
+  });
+  getTemplatePlaceholders(template).filter(name => !seen.has(name)).forEach(name => {
+    issues.push({ path: 'parameters', message: `placeholder {{${name}}} has no parameter` });
+  });
+};
+
+/**
+ * Combines the given values with the parameters' defaults and converts them to the declared types.
+ * Throws a TaskValidationError for missing or mistyped values.
+ */
+export const resolveParameterValues = (template: TaskTemplate, values: ParameterValues = {}): ParameterValues => {
+  const issues: ValidationIssue[] = [];
+  const resolved: ParameterValues = {};
+
+  (template.parameters ?? []).forEach((param: TemplateParameter) => {
+    const value = values[param.name] ?? param.default;
+    if (value === undefined || value === '') {
+      issues.push({ path: `parameters.${param.name}`, message: 'is required' });
+    } else if (param.type === 'number') {
+      const n = Number(value);
+      if (Number.isFinite(n)) resolved[param.name] = n;
+      else issues.push({ path: `parameters.${param.name}`, message: `must be a number, got "${value}"` });
+    } else {
+      resolved[param.name] = String(value);
+    }
+  });
+
+  if (issues.length > 0) throw new TaskValidationError('template parameters', issues);
+  return resolved;
+};
+
+/**
+ * Replaces every placeholder with its value. Unknown placeholders are left as they are.
+ */
+export const applyTemplateParameters = (template: TaskTemplate, values: ParameterValues): TaskTemplate => {
+  return mapTemplateStrings(template, value => {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole && whole[1] in values) return values[whole[1]];
+    return value.replace(PLACEHOLDER, (match, name) => name in values ? String(values[name]) : match);
+  });
+};
+
+/**
+ * Checks a template the way it would be instantiated and returns it as one. Parameters without a default
+ * are filled with a sample value, so the structure is validated even before real values are known.
+ */
+export const validateTemplate = (raw: unknown): TaskTemplate => {
+  if (!isObject(raw)) throw new TaskValidationError('template', [{ path: '', message: 'must be an object' }]);
+  if (raw.parameters !== undefined && !(Array.isArray(raw.parameters) && raw.parameters.every(isObject))) {
+    throw new TaskValidationError('template', [{ path: 'parameters', message: 'must be a list of parameters' }]);
+  }
+  const template = raw as TaskTemplate;
+  const issues: ValidationIssue[] = [];
+  validateParameters(template, issues);
+  if (issues.length > 0) throw new TaskValidationError('template', issues);
+
+  const samples: ParameterValues = {};
+  (template.parameters ?? []).forEach(param => {
+    samples[param.name] = param.default ?? (param.type === 'number' ? 1 : param.name);
+  });
+  normalizeTemplate(applyTemplateParameters(template, resolveParameterValues(template, samples)));
+  return template;
+};
+
+/**
+ * Captures a task's definition as a template, without its runtime state, history or schedule position.
+ */
+export const templateFromTask = (task: Task): TaskTemplate => {
+  const fresh = resetTask(task);
+  const template: TaskTemplate = {
+    title: fresh.title,
+    description: fresh.description,
+    requirements: fresh.requirements,
+    timeLimit: fresh.timeLimit,
+    warningThresholds: fresh.warningThresholds,
+    failurePolicy: fresh.failurePolicy,
+    recurrence: fresh.recurrence,
+    rewards: fresh.rewards,
+    customData: fresh.customData
+  };
+  // Drops undefined fields at every depth
+  return JSON.parse(JSON.stringify(template));
+};
+
+/**
+ * Makes a fresh task from a template. Library templates are recorded in the task's templateRef.
+ */
+export const instantiateTemplate = (template: TaskTemplate, values: ParameterValues = {}, now: number = Date.now()): Task => {
+  const parameters = resolveParameterValues(template, values);
+  const task = createTaskFromTemplate(applyTemplateParameters(template, parameters), now);
+  if (template.id === undefined || template.version === undefined) return task;
+  return { ...task, templateRef: { templateId: template.id, version: template.version, parameters } };
+};
+
+export interface TemplateLibraryOptions {
+  repository?: TemplateRepository; // When set, saved templates are persisted automatically
+  clock?: Clock;
+}
+
+/**
+ * Versioned collection of templates. Saving under an existing id adds a new version;
+ * old versions stay available so tasks can be traced to the definition they came from.
+ */
+export class TemplateLibrary {
+  private versions = new Map<string, TaskTemplate[]>(); // Template id -> versions, oldest first
+  private latest: TaskTemplate[] = [];
+  private listeners = new Set<() => void>();
+  private repository?: TemplateRepository;
+  private clock: Clock;
+
+  constructor(options: TemplateLibraryOptions = {}) {
+    this.repository = options.repository;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  // --- Queries ---
+
+  /**
+   * Returns the latest version of every template. The array identity only changes when the library does.
+   */
+  getTemplates(): TaskTemplate[] {
+    return this.latest;
+  }
+
+  /**
+   * Returns a specific version of a template, or the latest one when no version is given.
+   */
+  getTemplate(id: string, version?: number): TaskTemplate | undefined {
+    const versions = this.versions.get(id) ?? [];
+    return version === undefined ? versions[versions.length - 1] : versions.find(t => t.version === version);
+  }
+
+  getVersions(id: string): TaskTemplate[] {
+    return this.versions.get(id) ?? [];
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // --- Persistence ---
+
+  async load(): Promise<TaskTemplate[]> {
+    if (!this.repository) return this.latest;
+    const stored = await this.repository.loadAll();
+    stored
+      .sort((a, b) => (a.version ?? 0) - (b.version ?? 0))
+      .forEach(template => this.store(template));
+    this.changed();
+    return this.latest;
+  }
+
+  // --- Commands ---
+
+  /**
+   * Saves a template. Without an id (or with an unknown one) it becomes version 1 of a new template,
+   * otherwise the next version of the existing one. Throws a TaskValidationError for invalid templates.
+   */
+  save(template: TaskTemplate): TaskTemplate {
+    validateTemplate(template);
+
+    const id = template.id ?? crypto.randomUUID();
+    const previous = this.getTemplate(id);
+    const saved: TaskTemplate = {
+      ...template,
+      id,
+      version: (previous?.version ?? 0) + 1,
+      createdAt: this.clock.now()
+    };
+
+    this.store(saved);
+    this.changed();
+    this.repository?.save(saved).catch(error => {
+      console.error("Template save failed:", error);
+    });
+    return saved;
+  }
+
+  /**
+   * Saves a task's definition as a new template. `overrides` can rename it or add parameters.
+   */
+  saveTask(task: Task, overrides: Partial<TaskTemplate> = {}): TaskTemplate {
+    return this.save({ ...templateFromTask(task), ...overrides });
+  }
+
+  remove(id: string): void {
+    if (!this.versions.delete(id)) return;
+    this.changed();
+    this.repository?.remove(id).catch(error => {
+      console.error("Template removal failed:", error);
+    });
+  }
+
+  /**
+   * Makes a fresh task from a template (latest version unless one is given). Add it with TaskManager.addTask.
+   */
+  instantiate(id: string, values: ParameterValues = {}, version?: number): Task {
+    const template = this.getTemplate(id, version);
+    if (!template) {
+      throw new Error(`Template "${id}"${version === undefined ? '' : ` version ${version}`} not found`);
+    }
+    return instantiateTemplate(template, values, this.clock.now());
+  }
+
+  // --- Internals ---
+
+  private store(template: TaskTemplate): void {
+    const id = template.id!;
+    const versions = (this.versions.get(id) ?? []).filter(t => t.version !== template.version);
+    this.versions.set(id, [...versions, template].sort((a, b) => a.version! - b.version!));
+  }
+
+  private changed(): void {
+    this.latest = [...this.versions.values()].map(versions => versions[versions.length - 1]);
+    this.listeners.forEach(listener => listener());
+  }
+}
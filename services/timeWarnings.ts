@@ -0,0 +1,92 @@
+import { Task, Requirement, TaskStatus } from '../types';
+
+export const DEFAULT_WARNING_THRESHOLDS = [0.8];
+
+const TASK_SCOPE = 'task';
+
+/**
+ * Warning keys look like "task@0.8" or "req:<id>@0.8" and are stored in Task.firedWarnings,
+ * so each threshold fires once per run.
+ */
+export const toWarningKey = (requirementId: string | undefined, threshold: number): string => {
+  return `${requirementId === undefined ? TASK_SCOPE : `req:${requirementId}`}@${threshold}`;
+};
+
+export const parseWarningKey = (key: string): { requirementId?: string; threshold: number } => {
+  const at = key.lastIndexOf('@');
+  const scope = key.slice(0, at);
+  return {
+    requirementId: scope === TASK_SCOPE ? undefined : scope.slice('req:'.length),
+    threshold: Number(key.slice(at + 1))
+  };
+};
+
+/**
+ * When the task was first started, used as the beginning of absolute deadlines' budgets.
+ */
+const getTaskStart = (task: Task): number => task.timeSegments?.[0]?.startedAt ?? task.createdAt;
+
+const fractionUsed = (task: Task, elapsed: number, now: number, limit?: number, deadline?: number): number => {
+  let used = 0;
+  if (limit) used = Math.max(used, elapsed / limit);
+  if (deadline !== undefined) {
+    const start = getTaskStart(task);
+    used = Math.max(used, deadline > start ? (now - start) / (deadline - start) : 1);
+  }
+  return used;
+};
+
+/**
+ * Fraction of the task's own time budget (timeLimit / dueAt) that is used up. 0 when it has none.
+ */
+export const getTaskTimeUsage = (task: Task, now: number): number => {
+  return fractionUsed(task, task.elapsedTime, now, task.timeLimit, task.dueAt);
+};
+
+/**
+ * Same for a requirement. Its time limit counts from the start of the current attempt.
+ */
+export const getRequirementTimeUsage = (task: Task, req: Requirement, now: number): number => {
+  return fractionUsed(task, task.elapsedTime - (req.attemptStartedAt ?? 0), now, req.timeLimit, req.deadline);
+};
+
+/**
+ * Adds the keys of every warning threshold that has been crossed to task.firedWarnings.
+ * Only running tasks and requirements that are still open can raise warnings. Mutates the (copied) task.
+ * `requirements` limits the check to those requirements; by default every one in the tree is checked.
+ */
+export const updateFiredWarnings = (task: Task, now: number, requirements?: Requirement[]): void => {
+  if (task.status !== TaskStatus.RUNNING) return;
+
+  const thresholds = task.warningThresholds ?? DEFAULT_WARNING_THRESHOLDS;
+  const fired = new Set(task.firedWarnings ?? []);
+  const check = (usage: number, requirementId?: string) => {
+    thresholds.forEach(threshold => {
+      if (usage >= threshold) fired.add(toWarningKey(requirementId, threshold));
+    });
+  };
+
+  check(getTaskTimeUsage(task, now));
+  const checkRequirement = (req: Requirement) => {
+    if (!req.isFulfilled && !req.isDisabled && !req.isFailed) {
+      check(getRequirementTimeUsage(task, req, now), req.id);
+    }
+  };
+  const visit = (reqs: Requirement[]) => reqs.forEach(req => {
+    checkRequirement(req);
+    if (req.children) visit(req.children);
+  });
+  if (requirements) requirements.forEach(checkRequirement);
+  else visit(task.requirements);
+
+  if (fired.size !== (task.firedWarnings?.length ?? 0)) {
+    task.firedWarnings = [...fired];
+  }
+};
+
+/**
+ * Whether a warning for the given scope (task when requirementId is omitted) has fired.
+ */
+export const hasWarning = (task: Task, requirementId?: string): boolean => {
+  return (task.firedWarnings ?? []).some(key => parseWarningKey(key).requirementId === requirementId);
+};
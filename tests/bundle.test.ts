@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import {
+  BUNDLE_FORMAT, CURRENT_BUNDLE_VERSION, createBundle, decodeBundleFragment, encodeBundleFragment, hasBundleFragment,
+  parseBundle, planImport, readBundle, serializeBundle
+} from '../services/taskBundle';
+import { CURRENT_SCHEMA_VERSION } from '../services/storage/migrations';
+import { TaskValidationError } from '../services/taskValidation';
+import { TaskManager } from '../services/taskManager';
+import { VirtualClock } from '../services/clock';
+
+/**
+ * Bundles carry tasks between boards as files, pasted text and links.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id, title: id, description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+  requirements: [checkbox('done')], ...extra
+});
+
+// Tasks as a board holds them: normalized, with some history
+const playedTasks = (): Task[] => {
+  const clock = new VirtualClock(1000);
+  const manager = new TaskManager({ clock });
+  manager.addTask(task('warmup', { requirements: [checkbox('stretch'), { id: 'laps', title: 'Laps', type: RequirementType.NUMERIC, targetValue: 3, isFulfilled: false }] }));
+  manager.addTask(task('run', { prerequisites: [{ type: 'TASK_STATUS', taskId: 'warmup', status: TaskStatus.COMPLETED }] }));
+  manager.start('warmup');
+  clock.advance(5000);
+  manager.increment('warmup', 'laps');
+  manager.toggle('warmup', 'stretch');
+  manager.tick();
+  return manager.getTasks();
+};
+
+// Fields set to undefined don't survive JSON, and normalizing on import may add them
+const asJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('bundle files', () => {
+  it('reads back the tasks it was written from', () => {
+    const tasks = playedTasks();
+    const bundle = parseBundle(serializeBundle(createBundle(tasks, { now: 5 })));
+
+    assert.equal(bundle.format, BUNDLE_FORMAT);
+    assert.equal(bundle.version, CURRENT_BUNDLE_VERSION);
+    assert.equal(bundle.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal(bundle.exportedAt, 5);
+    assert.deepEqual(asJson(bundle.tasks), asJson(tasks));
+  });
+
+  it('exports clean definitions without runtime state', () => {
+    const [warmup] = createBundle(playedTasks(), { stripRuntimeState: true, now: 5 }).tasks;
+    assert.equal(warmup.status, TaskStatus.IDLE);
+    assert.equal(warmup.elapsedTime, 0);
+    assert.deepEqual(warmup.timeSegments, []);
+    assert.equal(warmup.history, undefined);
+    assert.equal(warmup.requirements.find(r => r.id === 'laps')!.currentValue, 0);
+  });
+
+  it('accepts a bare task or a list of tasks', () => {
+    assert.deepEqual(readBundle(task('a')).tasks.map(t => t.id), ['a']);
+    assert.deepEqual(readBundle([task('a'), task('b')]).tasks.map(t => t.id), ['a', 'b']);
+  });
+
+  it('upgrades tasks written with an older schema', () => {
+    // Before schema 2, elapsed time was only a counter
+    const v1 = task('old', { status: TaskStatus.PAUSED, elapsedTime: 10, updatedAt: 20000 });
+    const bundle = readBundle({ format: BUNDLE_FORMAT, version: 1, schemaVersion: 1, tasks: [v1] });
+    assert.deepEqual(bundle.tasks[0].timeSegments, [{ startedAt: 10000, pausedAt: 20000 }]);
+    assert.equal(bundle.schemaVersion, CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe('bundle versions', () => {
+  it('rejects bundles and tasks from newer builds', () => {
+    assert.throws(
+      () => readBundle({ format: BUNDLE_FORMAT, version: CURRENT_BUNDLE_VERSION + 1, tasks: [] }),
+      /Bundle version 2 is newer than this build supports \(1\)/
+    );
+    assert.throws(
+      () => readBundle({ format: BUNDLE_FORMAT, version: 1, schemaVersion: CURRENT_SCHEMA_VERSION + 1, tasks: [task('a')] }),
+      /schema version/
+    );
+  });
+
+  it('reports malformed versions and tasks as validation issues', () => {
+    assert.throws(() => readBundle({ format: BUNDLE_FORMAT, version: '1', schemaVersion: 1.5, tasks: {} }), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues.map(issue => issue.path), ['version', 'schemaVersion', 'tasks']);
+      return true;
+    });
+    assert.throws(() => readBundle([task('a'), task('b', { title: '' })]), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues, [{ path: 'tasks[1].title', message: 'is required' }]);
+      return true;
+    });
+  });
+
+  it('names malformed JSON', () => {
+    assert.throws(() => parseBundle('{"format":'), /^Error: Not valid JSON/);
+  });
+});
+
+describe('bundle links', () => {
+  it('round-trips through a URL fragment', async () => {
+    const tasks = playedTasks();
+    const fragment = await encodeBundleFragment(createBundle(tasks));
+    const url = `https://example.com/app#${fragment}`;
+
+    assert.equal(hasBundleFragment(url), true);
+    assert.equal(hasBundleFragment('https://example.com/app#other=1'), false);
+    assert.deepEqual(asJson((await decodeBundleFragment(url)).tasks), asJson(tasks));
+    assert.deepEqual(asJson((await decodeBundleFragment(fragment.slice('bundle='.length))).tasks), asJson(tasks));
+  });
+
+  it('rejects links that are not bundles or inflate too far', async () => {
+    await assert.rejects(decodeBundleFragment('#bundle=not-a-bundle'), /does not contain a readable bundle/);
+
+    const huge = createBundle([task('huge', { description: 'x'.repeat(6 * 1024 * 1024) })]);
+    const fragment = await encodeBundleFragment(huge);
+    assert.ok(fragment.length < 100 * 1024);
+    await assert.rejects(decodeBundleFragment(fragment), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.match(error.issues[0].message, /must not be larger than/);
+      return true;
+    });
+  });
+});
+
+describe('planImport', () => {
+  const existing = [task('warmup'), task('run')];
+  const incoming = [
+    task('warmup'),
+    task('run', { prerequisites: [{ type: 'TASK_STATUS', taskId: 'warmup', status: TaskStatus.COMPLETED }] }),
+    task('cooldown')
+  ];
+
+  it('skips conflicts unless told otherwise', () => {
+    const plan = planImport(incoming, existing, 'SKIP');
+    assert.deepEqual(plan.tasks.map(t => t.id), ['cooldown']);
+    assert.deepEqual(plan.skipped, ['warmup', 'run']);
+  });
+
+  it('resolves conflicts per id and keeps cloned tasks linked to each other', () => {
+    const plan = planImport(incoming, existing, { warmup: 'CLONE', run: 'CLONE' });
+    const warmupId = plan.cloned.warmup;
+    const run = plan.tasks.find(t => t.id === plan.cloned.run)!;
+    assert.notEqual(warmupId, 'warmup');
+    assert.deepEqual(run.prerequisites, [{ type: 'TASK_STATUS', taskId: warmupId, status: TaskStatus.COMPLETED }]);
+
+    const overwrite = planImport(incoming, existing, { run: 'OVERWRITE' });
+    assert.deepEqual(overwrite.overwritten, ['run']);
+    assert.deepEqual(overwrite.skipped, ['warmup']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import { evaluateCondition, getConditionRefs, getConditionVariables, parseCondition } from '../services/conditions';
+import { TaskManager } from '../services/taskManager';
+
+/**
+ * The condition language behind fulfillWhen, visibleWhen and reward conditions.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const counter = (id: string, currentValue: number): Requirement => ({
+  id, title: id, type: RequirementType.NUMERIC, targetValue: 10, currentValue, isFulfilled: false
+});
+
+const lookupOf = (...requirements: Requirement[]) => (id: string) => requirements.find(r => r.id === id);
+
+describe('parseCondition', () => {
+  it('binds && tighter than || and ! tighter than both', () => {
+    assert.deepEqual(parseCondition('!a && b || c'), {
+      kind: 'or',
+      operands: [
+        { kind: 'and', operands: [{ kind: 'not', operand: { kind: 'fulfilled', ref: 'a' } }, { kind: 'fulfilled', ref: 'b' }] },
+        { kind: 'fulfilled', ref: 'c' }
+      ]
+    });
+  });
+
+  it('reads comparisons, variables, literals and atLeast', () => {
+    assert.deepEqual(parseCondition('pushups.value >= 10'), { kind: 'compare', ref: 'pushups', operator: '>=', value: 10 });
+    assert.deepEqual(parseCondition('$elapsed < -1.5'), { kind: 'variable', name: 'elapsed', operator: '<', value: -1.5 });
+    assert.deepEqual(parseCondition('true'), { kind: 'literal', value: true });
+    assert.deepEqual(parseCondition('atLeast(2, a, (b), c)'), {
+      kind: 'atLeast',
+      count: 2,
+      operands: [{ kind: 'fulfilled', ref: 'a' }, { kind: 'fulfilled', ref: 'b' }, { kind: 'fulfilled', ref: 'c' }]
+    });
+  });
+
+  it('accepts ids that start with digits or contain dashes', () => {
+    assert.deepEqual(parseCondition('1st-lap && 42'), {
+      kind: 'and',
+      operands: [{ kind: 'fulfilled', ref: '1st-lap' }, { kind: 'fulfilled', ref: '42' }]
+    });
+  });
+
+  it('names the position of a syntax error', () => {
+    assert.throws(() => parseCondition('a && '), /expected a requirement id at position 5/);
+    assert.throws(() => parseCondition('(a || b'), /expected "\)" at position 7/);
+    assert.throws(() => parseCondition('a.value > b'), /expected a number at position 10/);
+    assert.throws(() => parseCondition('a # b'), /unexpected character "#" at position 2/);
+    assert.throws(() => parseCondition('a b'), /unexpected "b" at position 2/);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const lookup = lookupOf(checkbox('warmup', { isFulfilled: true }), checkbox('stretch'), counter('pushups', 12), counter('squats', 0));
+
+  it('checks fulfillment and values of the referenced requirements', () => {
+    assert.equal(evaluateCondition('warmup && pushups.value >= 10', lookup), true);
+    assert.equal(evaluateCondition('warmup && stretch', lookup), false);
+    assert.equal(evaluateCondition('!stretch && (squats.value == 0 || stretch)', lookup), true);
+    assert.equal(evaluateCondition('atLeast(2, warmup, stretch, pushups.value > 10)', lookup), true);
+    assert.equal(evaluateCondition('atLeast(3, warmup, stretch, pushups.value > 10)', lookup), false);
+  });
+
+  it('never holds for unknown requirements, missing variables or invalid expressions', () => {
+    assert.equal(evaluateCondition('missing', lookup), false);
+    assert.equal(evaluateCondition('missing.value < 5', lookup), false);
+    assert.equal(evaluateCondition('$streak > 2', lookup), false);
+    assert.equal(evaluateCondition('$streak > 2', lookup, { streak: 3 }), true);
+    assert.equal(evaluateCondition('warmup &&', lookup), false);
+  });
+
+  it('gives the same answers once many other expressions have been evaluated', () => {
+    assert.equal(evaluateCondition('pushups.value >= 12', lookup), true);
+    for (let i = 0; i < 1000; i++) evaluateCondition(`pushups.value >= ${i}`, lookup);
+    assert.equal(evaluateCondition('pushups.value >= 12', lookup), true);
+    assert.equal(evaluateCondition('pushups.value >= 13', lookup), false);
+  });
+});
+
+describe('condition references', () => {
+  it('lists each requirement id and variable once', () => {
+    assert.deepEqual(getConditionRefs('a && (b.value > 1 || !a) && $streak > 2'), ['a', 'b']);
+    assert.deepEqual(getConditionVariables('$streak > 2 || atLeast(1, $xp >= 10, $streak < 0)'), ['streak', 'xp']);
+    assert.deepEqual(getConditionRefs('a &&'), []);
+  });
+});
+
+describe('conditions in tasks', () => {
+  it('derives a checkbox from fulfillWhen and hides a requirement until visibleWhen holds', () => {
+    const task: Task = {
+      id: 'quest', title: 'quest', description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+      requirements: [
+        checkbox('warmup'),
+        counter('pushups', 0),
+        checkbox('ready', { fulfillWhen: 'warmup && pushups.value >= 3' }),
+        checkbox('bonus', { visibleWhen: 'ready' })
+      ]
+    };
+    const manager = new TaskManager({ tasks: [task] });
+    manager.start('quest');
+    const requirement = (id: string) => manager.getTask('quest')!.requirements.find(r => r.id === id)!;
+    assert.equal(requirement('bonus').isHidden, true);
+
+    manager.toggle('quest', 'warmup');
+    manager.setValue('quest', 'pushups', 3);
+
+    assert.equal(requirement('ready').isFulfilled, true);
+    assert.equal(requirement('bonus').isHidden, false);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import { evaluateTaskState, startTask, updateRequirementValue } from '../services/taskEngine';
+import { normalizeTask } from '../services/taskValidation';
+
+/**
+ * A tree the engine settled is re-evaluated only where a change can reach. Whatever the sequence of changes, the
+ * result has to match a full evaluation of the same data.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const counter = (id: string, targetValue: number, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.NUMERIC, targetValue, isFulfilled: false, ...extra
+});
+
+const group = (id: string, children: Requirement[], extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.GROUP, isFulfilled: false, children, ...extra
+});
+
+// Conditions and XOR groups that reach across branches, time limits, retries and a requirement nothing fulfills
+const questTask = (): Task => startTask(normalizeTask({
+  id: 'quest',
+  title: 'Quest',
+  requirements: [
+    group('gather', [
+      counter('herbs', 10),
+      counter('ore', 5, { valueLimit: 8, isOptional: true }),
+      checkbox('sword', { xorGroup: 'weapon' }),
+      checkbox('bow', { xorGroup: 'weapon', timeLimit: 40 })
+    ]),
+    group('travel', [
+      checkbox('map', { visibleWhen: 'herbs.value >= 3' }),
+      checkbox('ready', { fulfillWhen: 'gather && (map || ore.value > 2)' }),
+      group('route', [checkbox('forest'), checkbox('cave'), checkbox('river', { timeLimit: 25 })], { minFulfilled: 2 }),
+      checkbox('staff', { xorGroup: 'weapon' })
+    ]),
+    counter('boss', 3, { fulfillWhen: 'atLeast(2, ready, route, sword)' }),
+    checkbox('final')
+  ],
+  failurePolicy: { mode: 'RETRY', maxAttempts: 2 }
+}, 0), 0);
+
+const INPUT_IDS = ['herbs', 'ore', 'sword', 'bow', 'map', 'ready', 'forest', 'cave', 'river', 'staff', 'boss'];
+
+// A small deterministic generator, so a failing sequence can be replayed
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+type Step = (task: Task, now: number) => Task;
+
+const randomStep = (next: () => number): Step => {
+  const id = INPUT_IDS[Math.floor(next() * INPUT_IDS.length)];
+  const roll = next();
+  if (roll < 0.3) return (task, now) => evaluateTaskState(task, now);
+  if (roll < 0.65) {
+    const value = Math.floor(next() * 12);
+    return (task, now) => updateRequirementValue(task, id, { currentValue: value }, now);
+  }
+  const isFulfilled = next() < 0.7;
+  return (task, now) => updateRequirementValue(task, id, { isFulfilled }, now);
+};
+
+// Fields set to undefined don't survive JSON
+const asJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const find = (reqs: Requirement[], id: string): Requirement | undefined => {
+  for (const req of reqs) {
+    if (req.id === id) return req;
+    const inner = find(req.children ?? [], id);
+    if (inner) return inner;
+  }
+  return undefined;
+};
+
+describe('incremental evaluation', () => {
+  it('matches a full evaluation after every step of random sequences', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const next = random(seed);
+      let incremental = questTask();
+      let full = structuredClone(incremental);
+      for (let step = 1; step <= 80; step++) {
+        const apply = randomStep(next);
+        const now = step * 1000;
+        incremental = apply(incremental, now);
+        // A copy has no settled graph, so the engine evaluates it in full
+        full = apply(structuredClone(full), now);
+        assert.deepEqual(asJson(incremental), asJson(full), `seed ${seed}, step ${step}`);
+      }
+    }
+  });
+
+  it('keeps the identity of everything a change can\'t reach', () => {
+    const before = evaluateTaskState(questTask(), 1000);
+    const after = updateRequirementValue(before, 'forest', { isFulfilled: true }, 2000);
+    const [gather, travel, boss, final] = before.requirements;
+
+    assert.equal(find(after.requirements, 'gather'), gather);
+    assert.equal(find(after.requirements, 'boss'), boss);
+    assert.equal(find(after.requirements, 'final'), final);
+    assert.equal(find(after.requirements, 'map'), find(travel.children!, 'map'));
+    assert.notEqual(find(after.requirements, 'travel'), travel);
+    assert.notEqual(find(after.requirements, 'route'), find(travel.children!, 'route'));
+    assert.equal(find(after.requirements, 'forest')!.isFulfilled, true);
+  });
+
+  it('returns a settled tree unchanged when a tick can\'t change it', () => {
+    const task = normalizeTask({ id: 'plain', title: 'Plain', requirements: [checkbox('a'), counter('b', 2)] }, 0);
+    const settled = evaluateTaskState(startTask(task, 0), 1000);
+    assert.equal(evaluateTaskState(settled, 2000).requirements, settled.requirements);
+  });
+
+  it('follows edits to conditions and XOR groups', () => {
+    let task = evaluateTaskState(questTask(), 1000);
+    task = updateRequirementValue(task, 'forest', { isFulfilled: true }, 2000);
+    task = updateRequirementValue(task, 'final', { fulfillWhen: 'forest' }, 3000);
+    assert.equal(find(task.requirements, 'final')!.isFulfilled, true);
+
+    task = updateRequirementValue(task, 'cave', { xorGroup: 'path' }, 4000);
+    task = updateRequirementValue(task, 'forest', { xorGroup: 'path' }, 5000);
+    assert.equal(find(task.requirements, 'cave')!.isDisabled, true);
+    assert.deepEqual(asJson(task), asJson(evaluateTaskState(structuredClone(task), 5000)));
+  });
+
+  it('evaluates again in full once the participants change', () => {
+    const task = normalizeTask({
+      id: 'party', title: 'Party', participants: [{ id: 'ash', name: 'Ash' }],
+      requirements: [counter('herbs', 4, { aggregation: 'ALL' }), checkbox('final')]
+    }, 0);
+    let settled = updateRequirementValue(startTask(task, 0), 'herbs', { currentValue: 4 }, 1000, 'ash');
+    assert.equal(settled.requirements[0].isFulfilled, true);
+
+    settled = evaluateTaskState({ ...settled, participants: [...settled.participants!, { id: 'misty', name: 'Misty' }] }, 2000);
+    assert.equal(settled.requirements[0].isFulfilled, false);
+    assert.equal(settled.status, TaskStatus.RUNNING);
+  });
+});
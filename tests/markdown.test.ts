@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, TaskTemplate } from '../types';
+import { parseTaskMarkdown, serializeTaskMarkdown } from '../services/taskMarkdown';
+import { TaskValidationError, normalizeTemplate } from '../services/taskValidation';
+
+/**
+ * The Markdown dialect reads back exactly what it writes, including values its short forms can't express.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const counter = (id: string, targetValue: number, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.NUMERIC, targetValue, currentValue: 0, isFulfilled: false, ...extra
+});
+
+// Fields set to undefined don't survive JSON, and normalizing may add them
+const asJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const roundTrip = (template: TaskTemplate) => {
+  const expected = normalizeTemplate(template);
+  assert.deepEqual(asJson(parseTaskMarkdown(serializeTaskMarkdown(expected))), asJson(expected));
+};
+
+const MORNING_ROUTINE = `# Morning Routine
+limit: 30m
+repeat: daily at 07:00
+reward: 50 xp, 10 gold
+
+Start the day right.
+
+- [ ] Stretch
+- [ ] Pushups 0/20
+  input: step 5
+- [ ] Cardio (optional)
+  - [ ] Run 5 km
+    xor: cardio
+  - [ ] Swim 1 km
+    xor: cardio
+- [ ] Eat sweets (fail condition)
+`;
+
+describe('Markdown round trips', () => {
+  it('writes a hand-written document back unchanged', () => {
+    assert.equal(serializeTaskMarkdown(parseTaskMarkdown(MORNING_ROUTINE)), MORNING_ROUTINE);
+  });
+
+  it('reads back every task and requirement field', () => {
+    roundTrip({
+      title: 'Raid',
+      description: 'Two paragraphs.\n\nThe second one.',
+      timeLimit: 5400,
+      warningThresholds: [0.5, 0.9],
+      failurePolicy: { mode: 'RETRY', maxAttempts: 3 },
+      recurrence: { rule: { type: 'WEEKLY', days: [1, 3], at: '18:00' }, mode: 'SPAWN' },
+      rewards: [{ label: 'Loot, shared', xp: 100, currency: { gold: 5 }, items: ['sword'], on: 'COMPLETED', when: 'atLeast(1, $elapsed < 60, $streak > 2)' }],
+      customData: { difficulty: 'hard' },
+      requirements: [
+        counter('kills', 10, { title: 'Wolves', binding: { type: 'COUNTER', counter: 'wolves' }, valueLimit: 12 }),
+        counter('herbs', 30, { aggregation: 'ALL', input: { step: 5, max: 50, revertible: false }, deadline: Date.UTC(2026, 5, 30, 18) }),
+        checkbox('group', {
+          title: 'Either way',
+          type: RequirementType.GROUP,
+          minFulfilled: 1,
+          children: [
+            checkbox('left', { xorGroup: 'path', xorScope: 'PARTICIPANT', timeLimit: 90 }),
+            checkbox('right', { xorGroup: 'path', xorScope: 'PARTICIPANT', weight: 2 })
+          ]
+        }),
+        checkbox('ready', { fulfillWhen: 'kills.value >= 5 && herbs', visibleWhen: 'kills', description: 'Derived' }),
+        checkbox('bonus', { isOptional: true, rewards: [{ xp: 5, id: 'extra' }] })
+      ]
+    });
+  });
+
+  it('keeps progress as checked boxes and counter values', () => {
+    roundTrip({
+      title: 'Chores',
+      description: '',
+      requirements: [checkbox('dishes', { isFulfilled: true }), counter('laundry', 3, { currentValue: 2 })]
+    });
+  });
+
+  it('quotes titles and descriptions that would read back as something else', () => {
+    roundTrip({
+      title: '"Quoted" title',
+      description: 'limit: not an attribute\n- [ ] not an item',
+      requirements: [
+        checkbox('score', { title: 'Score 3/4' }),
+        checkbox('flag', { title: 'Title (optional)' }),
+        checkbox('spaced', { title: '  padded  ' }),
+        checkbox('same', { title: 'Same' }),
+        checkbox('same-2', { title: 'Same' }),
+        checkbox('other', { title: 'Same' })
+      ]
+    });
+  });
+
+  it('falls back to JSON for values the short forms can\'t express', () => {
+    roundTrip({
+      title: 'Odd values',
+      description: '',
+      timeLimit: 1.5,
+      warningThresholds: [],
+      rewards: [{ payload: { chest: [1, 2] }, label: 'Chest' }],
+      recurrence: { rule: { type: 'CRON', expression: '0 9 1 * *' }, mode: 'RESET' },
+      requirements: [checkbox('a', { description: 'Line one\nline two', customData: { nested: { deep: true } } })]
+    });
+  });
+});
+
+describe('Markdown errors', () => {
+  it('names the line of every problem', () => {
+    const markdown = [
+      '# Broken',
+      'limit: soon',
+      '',
+      '- [ ] Stretch',
+      '  colour: red',
+      '- [ ] Pushups 0/20',
+      '  weight: heavy',
+      '  when: missing',
+      'stray text'
+    ].join('\n');
+    assert.throws(() => parseTaskMarkdown(markdown), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues.map(issue => issue.path), ['line 2', 'line 5', 'line 7', 'line 9']);
+      assert.match(error.issues[0].message, /^limit: "soon" is not a duration/);
+      assert.match(error.issues[1].message, /^unknown key "colour"/);
+      assert.match(error.issues[2].message, /^weight: "heavy" is not a number/);
+      return true;
+    });
+  });
+
+  it('maps validation issues of the result back to their lines', () => {
+    const markdown = '# Quest\n\n- [ ] A\n  when: missing && a\n- [ ] B\n  xor: solo\n';
+    assert.throws(() => parseTaskMarkdown(markdown), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues, [
+        { path: 'line 4', message: 'when: refers to unknown requirement "missing"' },
+        { path: 'line 6', message: 'xor: XOR group "solo" needs at least two members' }
+      ]);
+      return true;
+    });
+  });
+
+  it('needs a heading', () => {
+    assert.throws(() => parseTaskMarkdown('\n- [ ] Stretch'), /expected a "# Title" heading/);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import { TaskManager } from '../services/taskManager';
+import { getParticipantProgress } from '../services/participants';
+
+/**
+ * Group quests: each participant's input is recorded on its own and combined by the requirement's aggregation.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const counter = (id: string, targetValue: number, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.NUMERIC, targetValue, isFulfilled: false, ...extra
+});
+
+const party = (...requirements: Requirement[]): Task => ({
+  id: 'quest', title: 'quest', description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+  participants: [{ id: 'ash', name: 'Ash' }, { id: 'misty', name: 'Misty' }],
+  requirements
+});
+
+const setup = (...requirements: Requirement[]) => {
+  const manager = new TaskManager({ tasks: [party(...requirements)] });
+  manager.start('quest');
+  const requirement = (id: string) => manager.getTask('quest')!.requirements.find(r => r.id === id)!;
+  return { manager, requirement };
+};
+
+describe('aggregation', () => {
+  it('adds up counters by default', () => {
+    const { manager, requirement } = setup(counter('herbs', 10));
+    manager.increment('quest', 'herbs', 6, 'ash');
+    manager.increment('quest', 'herbs', 3, 'misty');
+    assert.equal(requirement('herbs').currentValue, 9);
+    assert.equal(requirement('herbs').isFulfilled, false);
+
+    manager.increment('quest', 'herbs', 1, 'misty');
+    assert.deepEqual(requirement('herbs').contributions, { ash: { value: 6 }, misty: { value: 4 } });
+    assert.equal(requirement('herbs').currentValue, 10);
+    assert.equal(requirement('herbs').isFulfilled, true);
+  });
+
+  it('needs everyone to reach the target for ALL', () => {
+    const { manager, requirement } = setup(counter('pushups', 20, { aggregation: 'ALL' }), checkbox('other'));
+    manager.setValue('quest', 'pushups', 25, 'ash');
+    assert.equal(requirement('pushups').currentValue, 0);
+    assert.equal(requirement('pushups').isFulfilled, false);
+    assert.equal(getParticipantProgress(requirement('pushups'), manager.getTask('quest')!), 0.5);
+
+    manager.setValue('quest', 'pushups', 20, 'misty');
+    assert.equal(requirement('pushups').currentValue, 20);
+    assert.equal(requirement('pushups').isFulfilled, true);
+  });
+
+  it('needs one participant for a checkbox by default, and everyone for ALL', () => {
+    const { manager, requirement } = setup(checkbox('key'), checkbox('oath', { aggregation: 'ALL' }));
+    manager.toggle('quest', 'key', 'misty');
+    manager.toggle('quest', 'oath', 'misty');
+    assert.equal(requirement('key').isFulfilled, true);
+    assert.equal(requirement('oath').isFulfilled, false);
+
+    manager.toggle('quest', 'oath', 'ash');
+    assert.equal(requirement('oath').isFulfilled, true);
+    assert.equal(manager.getTask('quest')!.status, TaskStatus.COMPLETED);
+  });
+
+  it('takes the best contribution for ANY counters', () => {
+    const { manager, requirement } = setup(counter('score', 100, { aggregation: 'ANY' }));
+    manager.setValue('quest', 'score', 40, 'ash');
+    manager.setValue('quest', 'score', 70, 'misty');
+    assert.equal(requirement('score').currentValue, 70);
+    assert.equal(getParticipantProgress(requirement('score'), manager.getTask('quest')!), 0.7);
+  });
+});
+
+describe('contributions', () => {
+  it('records updateRequirement per participant and ignores value input without one', () => {
+    const { manager, requirement } = setup(counter('herbs', 10, { title: 'Herbs' }));
+    manager.updateRequirement('quest', 'herbs', { currentValue: 4 }, 'ash');
+    manager.updateRequirement('quest', 'herbs', { currentValue: 5, title: 'Healing herbs' });
+    manager.updateRequirement('quest', 'herbs', { currentValue: 5 }, 'gary');
+
+    assert.deepEqual(requirement('herbs').contributions, { ash: { value: 4 } });
+    assert.equal(requirement('herbs').currentValue, 4);
+    assert.equal(requirement('herbs').title, 'Healing herbs');
+  });
+
+  it('reports each participant once as they meet a requirement on their own', () => {
+    const { manager } = setup(counter('pushups', 20, { aggregation: 'ALL' }));
+    const fulfilled: string[] = [];
+    manager.on('participantFulfilled', ({ participantId }) => fulfilled.push(participantId));
+    manager.setValue('quest', 'pushups', 20, 'ash');
+    manager.setValue('quest', 'pushups', 22, 'ash');
+    manager.setValue('quest', 'pushups', 20, 'misty');
+    assert.deepEqual(fulfilled, ['ash', 'misty']);
+  });
+
+  it('drops the contributions of someone who left the group', () => {
+    const { manager, requirement } = setup(counter('herbs', 10));
+    manager.increment('quest', 'herbs', 6, 'ash');
+    manager.increment('quest', 'herbs', 3, 'misty');
+    manager.editTask('quest', { participants: [{ id: 'ash', name: 'Ash' }] });
+
+    assert.deepEqual(requirement('herbs').contributions, { ash: { value: 6 } });
+    assert.equal(requirement('herbs').currentValue, 6);
+  });
+});
+
+describe('participant-scoped XOR groups', () => {
+  const route = (id: string) => checkbox(id, { xorGroup: 'route', xorScope: 'PARTICIPANT' });
+
+  it('lets everyone pick their own branch and completes once all have', () => {
+    const { manager, requirement } = setup(route('forest'), route('cave'));
+    manager.toggle('quest', 'forest', 'ash');
+    assert.equal(requirement('forest').isFulfilled, false);
+
+    // Ash is locked out of the other branch, Misty is not
+    manager.toggle('quest', 'cave', 'ash');
+    assert.equal(requirement('cave').contributions?.ash, undefined);
+    manager.toggle('quest', 'cave', 'misty');
+
+    assert.equal(requirement('forest').isFulfilled, true);
+    assert.equal(requirement('cave').isFulfilled, true);
+    assert.equal(manager.getTask('quest')!.status, TaskStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import { TaskServer, TaskServerOptions } from '../server/taskServer';
+import { TaskManager } from '../services/taskManager';
+import { TemplateLibrary } from '../services/templateLibrary';
+import { RemoteTaskManager } from '../services/remoteTaskManager';
+import { ImportPlan } from '../services/taskBundle';
+import { VirtualClock } from '../services/clock';
+
+/**
+ * The task server's routes, over real HTTP on a free local port.
+ */
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id, title: id, description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+  requirements: [checkbox('done'), { id: 'laps', title: 'Laps', type: RequirementType.NUMERIC, targetValue: 3, isFulfilled: false }],
+  ...extra
+});
+
+const JSON_BODY = { 'Content-Type': 'application/json' };
+
+interface Reply<T> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+type Request = <T = Record<string, unknown>>(
+  method: string, path: string, body?: unknown, headers?: Record<string, string>
+) => Promise<Reply<T>>;
+
+/**
+ * Runs a test against a fresh server and closes it afterwards, whatever happens.
+ */
+const withServer = async (
+  test: (context: { url: string; manager: TaskManager; request: Request }) => Promise<void>,
+  options: Partial<TaskServerOptions> = {}
+) => {
+  const manager = new TaskManager({ clock: new VirtualClock(1000) });
+  const server = new TaskServer({ manager, keepAliveInterval: 60000, ...options });
+  const url = await server.listen();
+  const request: Request = async (method, path, body, headers = JSON_BODY) => {
+    const response = await fetch(`${url}${path}`, {
+      method,
+      headers: method === 'GET' || method === 'DELETE' ? undefined : headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+  try {
+    await test({ url, manager, request });
+  } finally {
+    await server.close();
+  }
+};
+
+describe('task routes', () => {
+  it('adds, reads, edits and removes tasks', () => withServer(async ({ request }) => {
+    const added = await request<Task>('POST', '/tasks', task('quest'));
+    assert.equal(added.status, 201);
+    assert.equal(added.body.id, 'quest');
+    assert.equal(added.headers.get('X-Task-Revision'), '1');
+
+    assert.deepEqual((await request<Task[]>('GET', '/tasks')).body.map(t => t.id), ['quest']);
+    assert.equal((await request<Task>('GET', '/tasks/quest')).body.title, 'quest');
+
+    const edited = await request<Task>('PATCH', '/tasks/quest', { title: 'Quest' });
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.title, 'Quest');
+
+    assert.equal((await request('DELETE', '/tasks/quest')).status, 204);
+    assert.equal((await request('GET', '/tasks/quest')).status, 404);
+  }));
+
+  it('runs task and requirement commands', () => withServer(async ({ request, manager }) => {
+    await request('POST', '/tasks', task('quest'));
+    assert.equal((await request('POST', '/tasks/quest/start')).status, 200);
+    await request('POST', '/tasks/quest/requirements/laps/increment', { amount: 2 });
+    await request('PATCH', '/tasks/quest/requirements/laps', { currentValue: 3 });
+    await request('POST', '/tasks/quest/requirements/done/toggle');
+
+    const quest = manager.getTask('quest')!;
+    assert.equal(quest.requirements.find(r => r.id === 'laps')!.currentValue, 3);
+    assert.equal(quest.status, TaskStatus.COMPLETED);
+  }));
+
+  it('answers 400 with the validation issues for an invalid task', () => withServer(async ({ request }) => {
+    const response = await request('POST', '/tasks', { title: '', requirements: [] });
+    assert.equal(response.status, 400);
+    assert.deepEqual(response.body.issues, [{ path: 'title', message: 'is required' }]);
+  }));
+
+  it('answers 409 for a taken id, 404 for unknown ids and 405 for unsupported methods', () => withServer(async ({ request }) => {
+    await request('POST', '/tasks', task('quest'));
+    assert.equal((await request('POST', '/tasks', task('quest'))).status, 409);
+    assert.equal((await request('POST', '/tasks/nope/start')).status, 404);
+    assert.equal((await request('POST', '/tasks/quest/requirements/nope/toggle')).status, 404);
+    assert.equal((await request('GET', '/nowhere')).status, 404);
+    assert.equal((await request('PUT', '/tasks')).status, 405);
+  }));
+
+  it('only changes definition fields and requirement input', () => withServer(async ({ request }) => {
+    await request('POST', '/tasks', task('quest'));
+    const edit = await request('PATCH', '/tasks/quest', { status: TaskStatus.COMPLETED });
+    assert.equal(edit.status, 400);
+    assert.equal(edit.body.error, 'Cannot change status');
+
+    const update = await request('PATCH', '/tasks/quest/requirements/laps', { targetValue: 1 });
+    assert.equal(update.status, 400);
+    assert.equal(update.body.error, 'Cannot update targetValue');
+    assert.equal((await request('PATCH', '/tasks/quest/requirements/laps', { currentValue: '3' })).status, 400);
+    assert.equal((await request('POST', '/tasks/quest/requirements/laps/increment', { amount: 'two' })).status, 400);
+  }));
+
+  it('imports tasks with a valid resolution only', () => withServer(async ({ request }) => {
+    await request('POST', '/tasks', task('quest'));
+    const skipped = await request<ImportPlan>('POST', '/tasks/import', { tasks: [task('quest'), task('side')] });
+    assert.deepEqual(skipped.body.skipped, ['quest']);
+    const cloned = await request<ImportPlan>('POST', '/tasks/import', { tasks: [task('quest')], resolution: { quest: 'CLONE' } });
+    assert.equal(typeof cloned.body.cloned.quest, 'string');
+    assert.equal((await request('POST', '/tasks/import', { tasks: [], resolution: 'MERGE' })).status, 400);
+    assert.equal((await request('POST', '/tasks/import', { tasks: [], resolution: { quest: true } })).status, 400);
+  }));
+});
+
+describe('requests', () => {
+  it('only reads JSON bodies', () => withServer(async ({ url, request, manager }) => {
+    const response = await request('POST', '/tasks', task('quest'), { 'Content-Type': 'text/plain' });
+    assert.equal(response.status, 415);
+    assert.equal((await request('POST', '/tasks', undefined, {})).status, 415);
+    assert.equal((await fetch(`${url}/tasks`, { method: 'POST', headers: JSON_BODY, body: '{' })).status, 400);
+    assert.deepEqual(manager.getTasks(), []);
+  }));
+
+  it('answers 400 for malformed path segments', () => withServer(async ({ request }) => {
+    const response = await request('GET', '/tasks/%E0%A4%A');
+    assert.equal(response.status, 400);
+  }));
+
+  it('allows cross-origin calls only from the configured origins', () => withServer(async ({ url }) => {
+    const preflight = (origin: string) => fetch(`${url}/tasks`, { method: 'OPTIONS', headers: { Origin: origin } });
+    const allowed = await preflight('http://localhost:3000');
+    assert.equal(allowed.status, 204);
+    assert.equal(allowed.headers.get('Access-Control-Allow-Origin'), 'http://localhost:3000');
+    assert.equal((await preflight('https://elsewhere.example')).headers.get('Access-Control-Allow-Origin'), null);
+  }, { allowedOrigins: ['http://localhost:3000'] }));
+});
+
+describe('template routes', () => {
+  it('saves templates and instantiates them with values', () => withServer(async ({ request }) => {
+    const template = {
+      id: 'run', title: 'Run {{km}} km', parameters: [{ name: 'km', type: 'number', default: 5 }],
+      requirements: [{ id: 'km', title: 'Kilometers', type: RequirementType.NUMERIC, targetValue: '{{km}}', isFulfilled: false }]
+    };
+    assert.equal((await request('POST', '/templates', template)).status, 201);
+
+    const created = await request<Task>('POST', '/templates/run/instantiate', { values: { km: 10 } });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.title, 'Run 10 km');
+    assert.equal(created.body.requirements[0].targetValue, 10);
+    assert.equal((await request('POST', '/templates/run/instantiate', { values: { km: [10] } })).status, 400);
+    assert.equal((await request('POST', '/templates/missing/instantiate', {})).status, 404);
+  }, { library: new TemplateLibrary() }));
+});
+
+describe('remote clients', () => {
+  it('mirror the server and send their commands to it', () => withServer(async ({ url, manager }) => {
+    manager.addTask(task('quest'));
+    const remote = new RemoteTaskManager({ baseUrl: url });
+    const completed: string[] = [];
+    remote.on('taskCompleted', ({ task }) => completed.push(task.id));
+    try {
+      assert.deepEqual((await remote.load()).map(t => t.id), ['quest']);
+      remote.start('quest');
+      remote.setValue('quest', 'laps', 3);
+      remote.toggle('quest', 'done');
+      await remote.flush();
+
+      assert.equal(remote.getTask('quest')!.status, TaskStatus.COMPLETED);
+      assert.equal(manager.getTask('quest')!.status, TaskStatus.COMPLETED);
+      assert.deepEqual(completed, ['quest']);
+    } finally {
+      remote.dispose();
+    }
+  }));
+});
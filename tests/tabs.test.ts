@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequirementType, Task, TaskStatus } from '../types';
+import { SharedTaskManager, SharedTaskManagerOptions } from '../services/sharedTaskManager';
+import { TaskRepository } from '../services/storage/taskRepository';
+
+/**
+ * Tabs sharing tasks over a BroadcastChannel: input from every tab goes through the leading one, counts add up,
+ * and commands meant for a state another tab has changed since are rejected.
+ */
+
+const wolves = (): Task => ({
+  id: 'hunt', title: 'Hunt', description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+  requirements: [
+    { id: 'wolves', title: 'Wolves', type: RequirementType.NUMERIC, targetValue: 10, currentValue: 0, isFulfilled: false },
+    { id: 'boss', title: 'Boss', type: RequirementType.BOOLEAN, isFulfilled: false }
+  ]
+});
+
+const memoryRepository = () => {
+  const stored = new Map<string, Task>();
+  const repository: TaskRepository = {
+    loadAll: async () => [...stored.values()].map(task => structuredClone(task)),
+    save: async task => { stored.set(task.id, structuredClone(task)); },
+    remove: async id => { stored.delete(id); }
+  };
+  return { stored, repository };
+};
+
+// Waits for what another tab sends to arrive
+const until = async (condition: () => boolean, timeout = 2000) => {
+  for (const start = Date.now(); !condition(); await new Promise(resolve => setTimeout(resolve, 10))) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for the other tabs');
+  }
+};
+
+let channels = 0;
+
+/**
+ * Opens tabs on a channel of their own, in order, so the first one leads, and closes them afterwards.
+ */
+const withTabs = async (
+  ids: string[],
+  test: (tabs: SharedTaskManager[], stored: Map<string, Task>) => Promise<void>,
+  options: Partial<SharedTaskManagerOptions> = {}
+) => {
+  const { stored, repository } = memoryRepository();
+  const shared = { channelName: `tabs-test-${++channels}`, heartbeatInterval: 50, repository, ...options };
+  const tabs: SharedTaskManager[] = [];
+  try {
+    for (const tabId of ids) {
+      const tab = new SharedTaskManager({ ...shared, tabId });
+      tabs.push(tab);
+      await tab.load();
+    }
+    await test(tabs, stored);
+  } finally {
+    tabs.forEach(tab => tab.dispose());
+  }
+};
+
+const value = (tab: SharedTaskManager) => tab.getTask('hunt')?.requirements[0].currentValue;
+const boss = (tab: SharedTaskManager) => tab.getTask('hunt')?.requirements[1].isFulfilled;
+
+describe('shared tasks', () => {
+  it('shows every tab the leader\'s tasks', () => withTabs(['a', 'b'], async ([a, b]) => {
+    assert.equal(a.isLeader(), true);
+    assert.equal(b.isLeader(), false);
+
+    b.addTask(wolves());
+    await b.flush();
+    await until(() => a.getTask('hunt') !== undefined);
+    b.start('hunt');
+    await b.flush();
+    await until(() => b.getTask('hunt')?.status === TaskStatus.RUNNING);
+    assert.equal(a.getTask('hunt')!.status, TaskStatus.RUNNING);
+  }));
+
+  it('counts concurrent increments from every tab', () => withTabs(['a', 'b', 'c'], async ([a, b, c], stored) => {
+    a.addTask(wolves());
+    a.start('hunt');
+    await until(() => b.getTask('hunt')?.status === TaskStatus.RUNNING && c.getTask('hunt')?.status === TaskStatus.RUNNING);
+
+    a.increment('hunt', 'wolves');
+    b.increment('hunt', 'wolves', 2);
+    c.increment('hunt', 'wolves');
+    b.increment('hunt', 'wolves');
+    c.decrement('hunt', 'wolves');
+    a.increment('hunt', 'wolves');
+    await Promise.all([b.flush(), c.flush()]);
+    await until(() => value(b) === 5 && value(c) === 5);
+
+    assert.equal(value(a), 5);
+    assert.equal(b.getTask('hunt')!.revision, a.getTask('hunt')!.revision);
+    await a.flush();
+    assert.equal(stored.get('hunt')!.requirements[0].currentValue, 5);
+  }));
+
+  it('rejects a command meant for a state another tab has changed since', t => withTabs(['a', 'b'], async ([a, b]) => {
+    t.mock.method(console, 'error', () => {}); // The leader reports the rejected command too
+    a.addTask(wolves());
+    a.start('hunt');
+    await until(() => b.getTask('hunt')?.status === TaskStatus.RUNNING);
+
+    a.setValue('hunt', 'wolves', 9);
+    b.toggle('hunt', 'boss');
+    await assert.rejects(b.flush(), /"Hunt" was changed in another tab in the meantime, so toggle was not applied/);
+    await until(() => value(b) === 9);
+    assert.equal(boss(a), false);
+    assert.equal(boss(b), false);
+
+    // Once the tab has seen the change, the same command applies
+    b.toggle('hunt', 'boss');
+    await b.flush();
+    await until(() => boss(b) === true);
+    assert.equal(boss(a), true);
+  }));
+
+  it('applies a tab\'s own consecutive commands without conflicts', () => withTabs(['a', 'b'], async ([a, b]) => {
+    const fulfilled: string[] = [];
+    b.on('requirementFulfilled', ({ requirement }) => fulfilled.push(requirement.id));
+    a.addTask(wolves());
+    a.start('hunt');
+    await until(() => b.getTask('hunt')?.status === TaskStatus.RUNNING);
+
+    b.toggle('hunt', 'boss');
+    b.toggle('hunt', 'boss');
+    b.toggle('hunt', 'boss');
+    b.setValue('hunt', 'wolves', 8);
+    await b.flush();
+    await until(() => value(b) === 8);
+
+    assert.equal(boss(a), true);
+    assert.equal(boss(b), true);
+    assert.deepEqual(fulfilled, ['boss', 'boss']);
+  }));
+});
+
+describe('leadership', () => {
+  it('passes to another tab, which carries on from the saved tasks', () => withTabs(['a', 'b'], async ([a, b], stored) => {
+    a.addTask(wolves());
+    a.start('hunt');
+    a.setValue('hunt', 'wolves', 9);
+    await a.flush();
+    await until(() => value(b) === 9);
+
+    a.dispose();
+    await until(() => b.isLeader());
+    b.increment('hunt', 'wolves');
+    b.toggle('hunt', 'boss');
+    await b.flush();
+
+    assert.equal(b.getTask('hunt')!.status, TaskStatus.COMPLETED);
+    assert.equal(stored.get('hunt')!.status, TaskStatus.COMPLETED);
+  }));
+
+  it('goes to a single tab when several start together', async () => {
+    const { repository } = memoryRepository();
+    const options = { channelName: `tabs-test-${++channels}`, heartbeatInterval: 50, repository };
+    const tabs = ['d', 'e', 'f'].map(tabId => new SharedTaskManager({ ...options, tabId }));
+    try {
+      await Promise.all(tabs.map(tab => tab.load()));
+      await new Promise(resolve => setTimeout(resolve, 300));
+      assert.deepEqual(tabs.map(tab => tab.isLeader()), [true, false, false]);
+    } finally {
+      tabs.forEach(tab => tab.dispose());
+    }
+  });
+});
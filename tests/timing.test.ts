@@ -0,0 +1,181 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Requirement, RequirementType, Task, TaskStatus } from '../types';
+import { TaskManager } from '../services/taskManager';
+import { VirtualClock } from '../services/clock';
+
+/**
+ * Time limits, warnings and recurrence on a VirtualClock, so every path runs as it would over hours
+ * of wall-clock time, including time that passes while nothing ticks (a closed tab or a reload).
+ */
+
+const SECOND = 1000;
+const HOUR = 3600 * SECOND;
+
+const checkbox = (id: string, extra: Partial<Requirement> = {}): Requirement => ({
+  id, title: id, type: RequirementType.BOOLEAN, isFulfilled: false, ...extra
+});
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id, title: id, description: '', status: TaskStatus.IDLE, elapsedTime: 0, createdAt: 0, updatedAt: 0,
+  requirements: [checkbox('done')], ...extra
+});
+
+const setup = (start: number = 0) => {
+  const clock = new VirtualClock(start);
+  const manager = new TaskManager({ clock });
+  return { clock, manager };
+};
+
+describe('time limits', () => {
+  it('fails a running task once its time limit runs out', () => {
+    const { clock, manager } = setup();
+    const failed: string[] = [];
+    manager.on('taskFailed', ({ task }) => failed.push(task.id));
+    manager.addTask(task('quest', { timeLimit: 60 }));
+    manager.start('quest');
+    manager.startClock();
+
+    clock.advance(59 * SECOND);
+    assert.equal(manager.getTask('quest')!.status, TaskStatus.RUNNING);
+    clock.advance(2 * SECOND);
+
+    const quest = manager.getTask('quest')!;
+    assert.equal(quest.status, TaskStatus.FAILED);
+    assert.deepEqual(quest.failure, { reason: 'TIME_LIMIT' });
+    assert.equal(quest.elapsedTime, 60);
+    assert.deepEqual(failed, ['quest']);
+    manager.dispose();
+  });
+
+  it('stops the clock where the limit ran out when time passed without ticks', () => {
+    const { clock, manager } = setup();
+    manager.addTask(task('quest', { timeLimit: 60 }));
+    manager.start('quest');
+
+    clock.advance(HOUR);
+    manager.tick();
+
+    const quest = manager.getTask('quest')!;
+    assert.equal(quest.status, TaskStatus.FAILED);
+    assert.equal(quest.elapsedTime, 60);
+    assert.equal(quest.timeSegments!.at(-1)!.pausedAt, 60 * SECOND);
+  });
+
+  it('counts partial seconds across pauses', () => {
+    const { clock, manager } = setup();
+    manager.addTask(task('quest'));
+    manager.start('quest');
+    clock.advance(1500);
+    manager.pause('quest');
+    clock.advance(10 * SECOND);
+    manager.start('quest');
+    clock.advance(1500);
+    manager.tick();
+
+    assert.equal(manager.getTask('quest')!.elapsedTime, 3);
+  });
+});
+
+describe('time warnings', () => {
+  it('fires each threshold once as the clock runs', () => {
+    const { clock, manager } = setup();
+    const warnings: number[] = [];
+    manager.on('timeWarning', ({ threshold }) => warnings.push(threshold));
+    manager.addTask(task('quest', { timeLimit: 100, warningThresholds: [0.5, 0.9] }));
+    manager.start('quest');
+    manager.startClock();
+
+    clock.advance(49 * SECOND);
+    assert.deepEqual(warnings, []);
+    clock.advance(2 * SECOND);
+    assert.deepEqual(warnings, [0.5]);
+    clock.advance(40 * SECOND);
+    assert.deepEqual(warnings, [0.5, 0.9]);
+    clock.advance(5 * SECOND);
+    assert.deepEqual(warnings, [0.5, 0.9]);
+    manager.dispose();
+  });
+
+  it('warns again in each new attempt of a retried requirement', () => {
+    const { clock, manager } = setup();
+    const warnings: string[] = [];
+    manager.on('timeWarning', ({ requirement, threshold }) => warnings.push(`${requirement?.id}@${threshold}`));
+    manager.addTask(task('quest', {
+      warningThresholds: [0.5],
+      failurePolicy: { mode: 'RETRY', maxAttempts: 2 },
+      requirements: [checkbox('sprint', { timeLimit: 10 }), checkbox('done')]
+    }));
+    manager.start('quest');
+    manager.startClock();
+
+    clock.advance(6 * SECOND);
+    assert.deepEqual(warnings, ['sprint@0.5']);
+    clock.advance(10 * SECOND);
+    assert.equal(manager.getTask('quest')!.requirements[0].attempts, 2);
+    assert.deepEqual(warnings, ['sprint@0.5', 'sprint@0.5']);
+    manager.dispose();
+  });
+});
+
+describe('recurrence', () => {
+  // Schedules use local time
+  const noon = new Date(2026, 0, 1, 12).getTime();
+  const daily = { rule: { type: 'DAILY' as const, at: '06:00' }, mode: 'RESET' as const };
+
+  it('records the finished period and starts over at the scheduled time', () => {
+    const { clock, manager } = setup(noon);
+    const recurred: string[] = [];
+    manager.on('taskRecurred', ({ occurrence }) => recurred.push(occurrence.outcome));
+    manager.addTask(task('training', { recurrence: daily }));
+    manager.start('training');
+    manager.toggle('training', 'done');
+    assert.equal(manager.getTask('training')!.status, TaskStatus.COMPLETED);
+    manager.startClock();
+
+    clock.advance(18 * HOUR - SECOND);
+    assert.equal(manager.getTask('training')!.status, TaskStatus.COMPLETED);
+    clock.advance(SECOND);
+
+    const training = manager.getTask('training')!;
+    assert.equal(training.status, TaskStatus.IDLE);
+    assert.equal(training.periodStart, new Date(2026, 0, 2, 6).getTime());
+    assert.deepEqual(training.occurrences!.map(o => o.outcome), ['COMPLETED']);
+    assert.deepEqual(recurred, ['COMPLETED']);
+    manager.dispose();
+  });
+
+  it('records the periods missed while no clock ran', () => {
+    const { clock, manager } = setup(noon);
+    manager.addTask(task('training', { recurrence: daily }));
+
+    clock.advance(3 * 24 * HOUR);
+    manager.tick();
+
+    const training = manager.getTask('training')!;
+    assert.deepEqual(training.occurrences!.map(o => o.outcome), ['MISSED', 'MISSED', 'MISSED']);
+    assert.equal(training.nextOccurrenceAt, new Date(2026, 0, 5, 6).getTime());
+  });
+
+  it('keeps a dependent unlocked when its prerequisite starts over', () => {
+    const { clock, manager } = setup(noon);
+    const completed = [{ type: 'TASK_STATUS' as const, taskId: 'training', status: TaskStatus.COMPLETED }];
+    manager.addTask(task('training', { recurrence: daily }));
+    manager.addTask(task('recovery', { prerequisites: completed }));
+    manager.addTask(task('stretching', { prerequisites: completed, recurrence: { ...daily, rule: { type: 'DAILY', at: '07:00' } } }));
+    assert.equal(manager.getTask('recovery')!.status, TaskStatus.LOCKED);
+
+    manager.start('training');
+    manager.toggle('training', 'done');
+    assert.equal(manager.getTask('recovery')!.status, TaskStatus.IDLE);
+    assert.equal(manager.getTask('stretching')!.status, TaskStatus.IDLE);
+
+    clock.advance(19 * HOUR);
+    manager.tick();
+
+    assert.equal(manager.getTask('training')!.status, TaskStatus.IDLE);
+    assert.equal(manager.getTask('recovery')!.status, TaskStatus.IDLE);
+    // A recurring dependent waits for its prerequisite again in its own new period
+    assert.equal(manager.getTask('stretching')!.status, TaskStatus.LOCKED);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequirementType, Task, TaskStatus } from '../types';
+import {
+  TaskConflictError, TaskValidationError, normalizeTask, normalizeTemplate, validateTask
+} from '../services/taskValidation';
+import { TaskManager } from '../services/taskManager';
+
+/**
+ * Validation reports every problem at once, each at the path of the field it is about.
+ */
+
+const paths = (raw: unknown) => validateTask(raw).map(issue => issue.path);
+
+describe('validateTask', () => {
+  it('accepts a minimal task and reports nothing', () => {
+    assert.deepEqual(validateTask({ title: 'Quest', requirements: [] }), []);
+  });
+
+  it('reports a value that is not an object at the root', () => {
+    assert.deepEqual(validateTask('quest'), [{ path: '', message: 'must be an object' }]);
+    assert.deepEqual(validateTask([]), [{ path: '', message: 'must be an object' }]);
+  });
+
+  it('reports every problem with the path of its field', () => {
+    const issues = validateTask({
+      id: '',
+      status: 'DONE',
+      timeLimit: -5,
+      requirements: [
+        { title: 'Pushups', type: RequirementType.NUMERIC, isFulfilled: false },
+        { title: '', type: RequirementType.BOOLEAN, isFulfilled: false, weight: 'heavy' }
+      ]
+    });
+    assert.deepEqual(issues, [
+      { path: 'id', message: 'must be a non-empty string' },
+      { path: 'title', message: 'is required' },
+      { path: 'status', message: 'unknown status "DONE"' },
+      { path: 'timeLimit', message: 'must be a non-negative number' },
+      { path: 'requirements[0]', message: 'NUMERIC requirement needs a targetValue' },
+      { path: 'requirements[1].title', message: 'is required' },
+      { path: 'requirements[1].weight', message: 'must be a number' }
+    ]);
+  });
+
+  it('follows nested requirements into their children', () => {
+    assert.deepEqual(paths({
+      title: 'Quest',
+      requirements: [{
+        id: 'group', title: 'Group', type: RequirementType.GROUP, isFulfilled: false, children: [
+          { id: 'a', title: 'A', type: RequirementType.BOOLEAN, isFulfilled: false },
+          { id: 'b', title: 'B', type: RequirementType.BOOLEAN, isFulfilled: false, timeLimit: 0 }
+        ]
+      }]
+    }), ['requirements[0].children[1].timeLimit']);
+  });
+
+  it('checks ids and references across the whole tree', () => {
+    const issues = validateTask({
+      title: 'Quest',
+      requirements: [
+        { id: 'a', title: 'A', type: RequirementType.BOOLEAN, isFulfilled: false, xorGroup: 'route' },
+        {
+          id: 'group', title: 'Group', type: RequirementType.GROUP, isFulfilled: false, children: [
+            { id: 'a', title: 'Again', type: RequirementType.BOOLEAN, isFulfilled: false, fulfillWhen: 'missing && a' }
+          ]
+        }
+      ]
+    });
+    assert.deepEqual(issues, [
+      { path: 'requirements[1].children[0].id', message: 'duplicate id "a" (also used at requirements[0])' },
+      { path: 'requirements[0].xorGroup', message: 'XOR group "route" needs at least two members' },
+      { path: 'requirements[1].children[0].fulfillWhen', message: 'refers to unknown requirement "missing"' }
+    ]);
+  });
+
+  it('reports syntax errors in conditions and variables outside reward conditions', () => {
+    const issues = validateTask({
+      title: 'Quest',
+      requirements: [
+        { id: 'a', title: 'A', type: RequirementType.BOOLEAN, isFulfilled: false, visibleWhen: 'a &&' },
+        { id: 'b', title: 'B', type: RequirementType.BOOLEAN, isFulfilled: false, fulfillWhen: '$elapsed > 5' },
+        { id: 'c', title: 'C', type: RequirementType.BOOLEAN, isFulfilled: false, fulfillWhen: 42 }
+      ]
+    });
+    assert.deepEqual(issues.map(issue => issue.path), [
+      'requirements[0].visibleWhen',
+      'requirements[1].fulfillWhen',
+      'requirements[2].fulfillWhen'
+    ]);
+    assert.match(issues[0].message, /expected a requirement id/);
+    assert.equal(issues[1].message, '$elapsed: variables can only be used in reward conditions');
+    assert.equal(issues[2].message, 'must be a string');
+  });
+
+  it('names the nested fields of settings', () => {
+    assert.deepEqual(validateTask({
+      title: 'Quest',
+      requirements: [],
+      failurePolicy: { mode: 'RETRY', maxAttempts: 0 },
+      recurrence: { mode: 'RESET', rule: { type: 'COUNT', times: 1.5 } },
+      participants: [{ id: 'ash', name: 'Ash' }, { id: 'ash', name: '' }]
+    }), [
+      { path: 'participants[1].id', message: 'duplicate id "ash"' },
+      { path: 'participants[1].name', message: 'is required' },
+      { path: 'failurePolicy.maxAttempts', message: 'must be a positive integer' },
+      { path: 'recurrence.rule.times', message: 'must be a positive integer' }
+    ]);
+  });
+});
+
+describe('normalizeTask', () => {
+  it('fills in ids and defaults and keeps runtime state', () => {
+    const task = normalizeTask({
+      title: 'Quest',
+      status: TaskStatus.RUNNING,
+      elapsedTime: 12,
+      requirements: [{ title: 'Pushups', type: RequirementType.NUMERIC, targetValue: 10 }]
+    }, 1000);
+    assert.equal(typeof task.id, 'string');
+    assert.equal(task.description, '');
+    assert.equal(task.status, TaskStatus.RUNNING);
+    assert.equal(task.elapsedTime, 12);
+    assert.equal(task.createdAt, 1000);
+    assert.equal(typeof task.requirements[0].id, 'string');
+    assert.equal(task.requirements[0].isFulfilled, false);
+    assert.equal(task.requirements[0].currentValue, 0);
+  });
+
+  it('throws a TaskValidationError that lists the issues in its message', () => {
+    assert.throws(() => normalizeTask({ id: 'quest', requirements: {} }), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues, [
+        { path: 'title', message: 'is required' },
+        { path: 'requirements', message: 'must be an array' }
+      ]);
+      assert.equal(error.message, 'Invalid task "quest":\n  title: is required\n  requirements: must be an array');
+      return true;
+    });
+  });
+});
+
+describe('normalizeTemplate', () => {
+  it('reports template issues with the same paths', () => {
+    assert.throws(() => normalizeTemplate({ title: 'T', requirements: [{ title: 'x', type: 'SPINNER' }] }), (error: unknown) => {
+      assert.ok(error instanceof TaskValidationError);
+      assert.deepEqual(error.issues, [{ path: 'requirements[0]', message: 'Unknown requirement type "SPINNER"' }]);
+      return true;
+    });
+  });
+});
+
+describe('entry points', () => {
+  it('rejects invalid tasks and conflicting ones with different errors', () => {
+    const manager = new TaskManager();
+    assert.throws(() => manager.addTask({ title: '' } as unknown as Task), TaskValidationError);
+    manager.addTask({ id: 'a', title: 'A', requirements: [] } as unknown as Task);
+    assert.throws(() => manager.addTask({ id: 'a', title: 'A again', requirements: [] } as unknown as Task), TaskConflictError);
+    assert.deepEqual(manager.getTasks().map(t => t.id), ['a']);
+  });
+});
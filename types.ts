@@ -16,29 +16,53 @@ export enum RequirementType {
 
 export interface Requirement {
   id: string;
-  type: RequirementType;
+  type: RequirementType | string; // Built-in type or one registered in services/requirementRegistry.ts
   title: string;
   description?: string;
   isOptional?: boolean;
+  isFailCondition?: boolean; // Inverted: becoming fulfilled fails the requirement's parent (e.g. "take damage 3 times")
+  weight?: number; // Share of its parent's progress relative to its siblings. Defaults to 1.
+  rewards?: Reward[]; // Granted when the requirement is fulfilled, see services/rewards.ts
   
   // Logic
-  xorGroup?: string; // If populated, mutually exclusive with others of same xorGroup
+  xorGroup?: string; // If populated, mutually exclusive with others of same xorGroup anywhere in the task
+  xorScope?: XorScope; // On tasks with participants: one choice for the team, or one per participant. Defaults to SHARED.
+  fulfillWhen?: string; // Condition expression (see services/conditions.ts) that must also hold for fulfillment
+  visibleWhen?: string; // Condition expression; the requirement is hidden and not interactable until it holds
   
   // Numeric specific
   currentValue?: number;
   targetValue?: number;
+
+  // Input, see services/requirementInput.ts
+  input?: InputRules; // Limits on what increment, setValue, toggle and friends may do
+  binding?: CounterBinding; // NUMERIC only: currentValue follows an outside value and ignores input
   
+  // Participants, see services/participants.ts. Only for BOOLEAN and NUMERIC requirements on tasks with participants.
+  aggregation?: ParticipantAggregation; // Defaults to SUM for NUMERIC and ANY for BOOLEAN
+  contributions?: Record<string, Contribution>; // Participant id -> their own progress
+
   // Group specific
   children?: Requirement[];
+  minFulfilled?: number; // N-of-M: group is fulfilled once this many children are. Defaults to all mandatory children.
   
   // State
   isFulfilled: boolean;
   isDisabled?: boolean; // Calculated at runtime based on XOR or other logic
+  isHidden?: boolean; // Calculated at runtime from visibleWhen
   
   // Limits (e.g., if value > limit, fail requirement)
   valueLimit?: number; 
+  timeLimit?: number; // Seconds of task running time per attempt. An unfulfilled requirement fails once it is reached.
+  deadline?: number; // Epoch milliseconds. An unfulfilled requirement fails once it passes.
+
+  // Failure, calculated at runtime. Failed optional requirements are disabled, mandatory ones fail their branch.
+  isFailed?: boolean;
+  failureReason?: RequirementFailureReason;
+  attempts?: number; // Current attempt under a RETRY policy, starting at 1
+  attemptStartedAt?: number; // Task elapsedTime (seconds) at which the current attempt began
   
-  customData?: Record<string, any>;
+  customData?: Record<string, any>; // Type-specific data for plugin requirement types
 }
 
 export interface Task {
@@ -50,19 +74,290 @@ export interface Task {
   
   // Limits
   timeLimit?: number; // In seconds. 0 or undefined means no limit.
-  elapsedTime: number; // In seconds.
+  elapsedTime: number; // In seconds. Derived from timeSegments whenever the task is evaluated.
+  timeSegments?: TimeSegment[]; // Running periods; the last one is open while the task runs
+  dueAt?: number; // Epoch milliseconds. Running or paused tasks fail once it passes.
+  warningThresholds?: number[]; // Fractions of a time budget (e.g. 0.8 = 80% used) that raise a timeWarning. Defaults to [0.8].
+  firedWarnings?: string[]; // Calculated at runtime, see services/timeWarnings.ts
+  failurePolicy?: FailurePolicy; // What a failed requirement does. Defaults to failing its parent.
+  failure?: TaskFailure; // Calculated at runtime. Why the task FAILED.
   
   // State
   createdAt: number;
   updatedAt: number;
+  revision?: number; // Raised by every command that changes the task, but not by ticks. See services/sharedTaskManager.ts.
   isLocked?: boolean; // Manual lock
+
+  // Group quests: each participant's input is recorded separately, see services/participants.ts
+  participants?: Participant[];
+
+  // Dependencies: all listed prerequisites must hold before the task leaves LOCKED
+  prerequisites?: Prerequisite[];
+  unlockedAt?: number; // Calculated at runtime. When the prerequisites were met; they don't lock the task again until its next period.
+
+  // Event-sourced action log, see services/taskHistory.ts
+  history?: TaskHistory;
+
+  // Recurrence, see services/recurrence.ts
+  recurrence?: Recurrence;
+  periodStart?: number; // Calculated at runtime. Epoch milliseconds the current period began.
+  nextOccurrenceAt?: number; // Calculated at runtime. Epoch milliseconds the next period begins; unset for COUNT rules.
+  occurrences?: OccurrenceRecord[]; // Outcome of every finished period, oldest first
+  recurrenceSourceId?: string; // Set on instances archived by a SPAWN recurrence, pointing at the recurring task
+
+  rewards?: Reward[]; // Granted on the task's outcome, see services/rewards.ts
+
+  templateRef?: TaskTemplateRef; // The library template (and version) the task was made from
   
   customData?: Record<string, any>;
 }
 
+export interface Participant {
+  id: string;
+  name: string;
+}
+
+// How participants' contributions combine into the requirement's own value:
+// SUM: everyone's values add up ("the team collects 100 herbs")
+// ALL: every participant has to meet the requirement on their own ("each member does 20 pushups")
+// ANY: one participant meeting it is enough
+export type ParticipantAggregation = 'SUM' | 'ALL' | 'ANY';
+
+export type XorScope = 'SHARED' | 'PARTICIPANT';
+
+export interface Contribution {
+  value?: number; // NUMERIC
+  isFulfilled?: boolean; // BOOLEAN
+}
+
+// Rules for input commands on a requirement. Raw updates through updateRequirement are not checked.
+export interface InputRules {
+  min?: number; // NUMERIC: lowest value input can set. Defaults to 0.
+  max?: number; // NUMERIC: highest value input can set
+  step?: number; // NUMERIC: what increment and decrement move by by default. Values snap to multiples of it.
+  revertible?: boolean; // Whether input may take fulfillment back (uncheck, count back below target). Defaults to true.
+}
+
+export type RequirementCommand =
+  | { type: 'INCREMENT'; amount?: number } // amount defaults to the step, or 1
+  | { type: 'DECREMENT'; amount?: number }
+  | { type: 'SET_VALUE'; value: number }
+  | { type: 'TOGGLE' } // Checkboxes flip; counters jump to their target, or back to their minimum
+  | { type: 'UNFULFILL' };
+
+// Where a bound NUMERIC requirement gets its value from, see services/counters.ts
+export type CounterBinding =
+  | { type: 'COUNTER'; counter: string } // A named counter of the manager's CounterSource, e.g. game telemetry
+  | { type: 'REQUIREMENT'; taskId: string; requirementId: string }; // Another task's counter (or 1/0 for anything else)
+
+export type RequirementFailureReason =
+  | 'TIME_LIMIT'
+  | 'DEADLINE'
+  | 'VALUE_LIMIT' // currentValue went above valueLimit
+  | 'FAIL_CONDITION' // A fail condition became fulfilled
+  | 'CHILD_FAILED'; // A group whose children can no longer satisfy it
+
+export interface FailurePolicy {
+  // FAIL_TASK: any mandatory failure anywhere fails the task, even inside optional groups.
+  // FAIL_PARENT: a failure fails its parent group; optional requirements and groups absorb it.
+  // RETRY: a failed requirement is reset for another attempt, then behaves like FAIL_PARENT.
+  mode: 'FAIL_TASK' | 'FAIL_PARENT' | 'RETRY';
+  maxAttempts?: number; // RETRY only. Defaults to 3.
+}
+
+export interface TaskFailure {
+  reason: 'TIME_LIMIT' | 'DUE_DATE' | 'REQUIREMENT_FAILED';
+  requirementId?: string; // The requirement the failure originated from
+}
+
+export type RecurrenceRule =
+  | { type: 'DAILY'; at?: string } // Local time "HH:MM", defaults to midnight
+  | { type: 'WEEKLY'; days: number[]; at?: string } // 0 = Sunday
+  | { type: 'CRON'; expression: string } // Five fields: minute hour day-of-month month day-of-week, local time
+  | { type: 'COUNT'; times: number }; // Repeats right after each finished run until completed this many times
+
+export interface Recurrence {
+  rule: RecurrenceRule;
+  // RESET: the task itself starts over each period.
+  // SPAWN: a started instance is archived as a separate task and the recurring task starts over.
+  mode: 'RESET' | 'SPAWN';
+}
+
+export interface OccurrenceRecord {
+  periodStart: number; // Epoch milliseconds
+  periodEnd: number; // Epoch milliseconds
+  outcome: 'COMPLETED' | 'FAILED' | 'MISSED';
+  elapsedTime: number; // Seconds spent in the period
+}
+
+export interface TimeSegment {
+  startedAt: number; // Epoch milliseconds
+  pausedAt?: number; // Epoch milliseconds, undefined while running
+}
+
+export type Prerequisite =
+  | { type: 'TASK_STATUS'; taskId: string; status: TaskStatus } // e.g. "task A completed" or "task B failed"
+  | { type: 'ALL_OF'; conditions: Prerequisite[] }
+  | { type: 'ANY_OF'; conditions: Prerequisite[] };
+
+export type TaskAction =
+  | { type: 'START'; timestamp: number }
+  | { type: 'PAUSE'; timestamp: number }
+  | { type: 'RESET'; timestamp: number }
+  | { type: 'TICK'; timestamp: number } // Syncs elapsed time to the timestamp. Consecutive ticks are merged
+  | { type: 'REQUIREMENT_UPDATE'; timestamp: number; payload: { reqId: string; updates: Partial<Requirement>; participantId?: string } }
+  | { type: 'REQUIREMENT_COMMAND'; timestamp: number; payload: { reqId: string; command: RequirementCommand; participantId?: string } }
+  // New values of bound requirements. Like ticks, syncs are not user input: undo skips them and consecutive ones are merged.
+  | { type: 'COUNTER_SYNC'; timestamp: number; payload: { values: Record<string, number> } };
+
+export interface TaskHistory {
+  initial: Omit<Task, 'history'>; // State the actions are replayed on
+  actions: TaskAction[];
+  undone: TaskAction[]; // Redo stack, most recently undone last
+}
+
 export interface TaskTemplate {
+  id?: string; // Set once saved in a TemplateLibrary
+  version?: number; // Starts at 1, bumped on every save
+  createdAt?: number; // When this version was saved
+  parameters?: TemplateParameter[];
+
+  // Copied into every task made from the template. String fields may contain {{name}} placeholders.
   title: string;
   description: string;
   requirements: Requirement[];
   timeLimit?: number;
-}
\ No newline at end of file
+  warningThresholds?: number[];
+  failurePolicy?: FailurePolicy;
+  recurrence?: Recurrence;
+  rewards?: Reward[];
+  customData?: Record<string, any>;
+}
+
+// Parts of an existing task that can be edited, see TaskManager.editTask
+export type TaskDefinitionChanges = Partial<Pick<Task,
+  'title' | 'description' | 'requirements' | 'timeLimit' | 'dueAt' | 'warningThresholds' | 'failurePolicy' | 'recurrence' | 'rewards' |
+  'participants' | 'customData'
+>>;
+
+export interface TemplateParameter {
+  name: string; // Referenced as {{name}}
+  type: 'number' | 'string';
+  label?: string;
+  default?: number | string;
+}
+
+export interface TaskTemplateRef {
+  templateId: string;
+  version: number;
+  parameters: Record<string, number | string>; // Values the task was instantiated with
+}
+
+// --- Rewards ---
+
+export interface Reward {
+  id?: string; // Filled in on validation. Together with the owner it makes every grant happen only once.
+  label?: string;
+  xp?: number;
+  currency?: Record<string, number>; // e.g. { gold: 50 }
+  items?: string[]; // Item ids
+  payload?: Record<string, any>; // Passed through to rewardGranted handlers untouched
+  when?: string; // Condition checked at grant time; may use $variables (see services/rewards.ts)
+  on?: 'COMPLETED' | 'FAILED'; // Task rewards only: the outcome that grants it. Defaults to COMPLETED.
+}
+
+export interface RewardGrant {
+  key: string; // Unique per owner, period and reward
+  reward: Reward;
+  grantedAt: number;
+  taskId?: string;
+  requirementId?: string;
+  achievementId?: string;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description?: string;
+  when: string; // Condition over board-wide $variables, e.g. "$completed >= 10 && $bestStreak >= 7"
+  rewards?: Reward[];
+}
+
+export interface RewardTotals {
+  xp: number;
+  currency: Record<string, number>;
+  items: string[];
+}
+
+export interface RewardLedgerState {
+  grants: RewardGrant[]; // Oldest first
+  unlocked: Record<string, number>; // Achievement id -> when it was unlocked
+}
+
+export interface RewardEventMap {
+  rewardGranted: { grant: RewardGrant; task?: Task };
+  achievementUnlocked: { achievement: Achievement; unlockedAt: number };
+}
+
+export type RewardEvent = keyof RewardEventMap;
+
+// --- Refinement ---
+
+// What a refinement changes in a task, for review before it is applied. See services/taskRefinement.ts
+export interface RequirementChange {
+  before: Requirement;
+  after: Requirement;
+  fields: string[]; // Changed definition fields; "parent" when it moved to another group
+}
+
+export interface TaskDiff {
+  fields: (keyof TaskDefinitionChanges)[]; // Changed task-level fields, other than requirements
+  added: Requirement[]; // New requirements; the children of a new group are not listed separately
+  removed: Requirement[]; // Likewise for removed groups
+  changed: RequirementChange[];
+}
+
+export interface TaskRefinement {
+  instruction: string;
+  summary?: string; // The generator's own account of what it changed
+  changes: TaskDefinitionChanges; // Ready for TaskManager.editTask; kept requirements keep their progress
+  diff: TaskDiff;
+}
+
+// --- Engine Events ---
+
+export interface TaskEngineEventMap {
+  statusChanged: { task: Task; previousStatus: TaskStatus; status: TaskStatus };
+  requirementFulfilled: { task: Task; requirement: Requirement };
+  taskCompleted: { task: Task };
+  taskFailed: { task: Task };
+  taskUnlocked: { task: Task };
+  requirementFailed: { task: Task; requirement: Requirement; reason: RequirementFailureReason };
+  requirementExpired: { task: Task; requirement: Requirement }; // Failures from TIME_LIMIT or DEADLINE
+  requirementRetried: { task: Task; requirement: Requirement; attempt: number };
+  timeWarning: { task: Task; threshold: number; requirement?: Requirement }; // requirement is unset for task-level budgets
+  xorLocked: { task: Task; requirement: Requirement; xorGroup: string };
+  participantFulfilled: { task: Task; requirement: Requirement; participantId: string }; // A participant met a requirement on their own
+  taskRecurred: { task: Task; occurrence: OccurrenceRecord }; // One per finished period
+}
+
+export type TaskEngineEvent = keyof TaskEngineEventMap;
+
+// A single event with its payload, e.g. as sent over the wire by the task server
+export type TaskEngineEventRecord = { [E in TaskEngineEvent]: { type: E; payload: TaskEngineEventMap[E] } }[TaskEngineEvent];
+
+// --- Task Server ---
+
+// Sent first on every stream connection, see server/taskServer.ts
+export interface TaskStreamSnapshot {
+  revision: number;
+  tasks: Task[];
+}
+
+// Sent once per state change: the tasks that changed, the ids that were removed and the events it produced
+export interface TaskStreamChange {
+  revision: number;
+  tasks: Task[];
+  removed: string[];
+  events: TaskEngineEventRecord[];
+}
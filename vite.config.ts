@@ -11,8 +11,14 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        // Generator selection, read by services/generators/generatorConfig.ts
+        'process.env.QUESTENGINE_GENERATOR': JSON.stringify(env.QUESTENGINE_GENERATOR ?? ''),
+        'process.env.QUESTENGINE_MODEL': JSON.stringify(env.QUESTENGINE_MODEL ?? ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+        // Left out of the bundle, where anyone could read it. Servers that need a key are used from the CLI.
+        'process.env.OPENAI_API_KEY': JSON.stringify('')
       },
       resolve: {
         alias: {